@@ -0,0 +1,286 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import CirclesConcept from "./CirclesConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const userC = "user:Charlie" as ID;
+const postA = "post:AliceTrip" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user creates a circle of some friends
+ * and shares a post with only that circle.
+ */
+Deno.test("Test Case 1 - operational principle: user shares a post with a circle", async () => {
+  const [db, client] = await testDb();
+  const circlesConcept = new CirclesConcept(db);
+
+  try {
+    // 1. post is shared with all friends by default
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userC }),
+      [{ shared: true }],
+    );
+
+    // 2. user creates a circle and adds a friend
+    const created = await circlesConcept.createCircle({
+      owner: userA,
+      name: "  Family ",
+    });
+    if ("error" in created) {
+      throw new Error("Creating a circle should not fail.");
+    }
+    const { circle: family } = created;
+    assertEquals(
+      await circlesConcept.addMember({
+        owner: userA,
+        circle: family,
+        member: userB,
+      }),
+      { circle: family },
+    );
+    assertEquals(await circlesConcept._getCircles({ owner: userA }), [
+      { circle: family, name: "Family", members: [userB] },
+    ]);
+
+    // 3. user shares the post with the circle
+    assertEquals(
+      await circlesConcept.shareWithCircles({
+        owner: userA,
+        item: postA,
+        circles: [family],
+      }),
+      { item: postA },
+    );
+    assertEquals(
+      await circlesConcept._getSharing({ owner: userA, item: postA }),
+      [{ circles: [family] }],
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userB }),
+      [{ shared: true }],
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userC }),
+      [{ shared: false }],
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userA }),
+      [{ shared: true }],
+      "Owner should always see their own item.",
+    );
+
+    // 4. user shares the post with all friends again
+    await circlesConcept.shareWithAllFriends({ owner: userA, item: postA });
+    assertEquals(
+      await circlesConcept._getSharing({ owner: userA, item: postA }),
+      [{ circles: null }],
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userC }),
+      [{ shared: true }],
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates invalid circle names, members, and shares are rejected.
+ */
+Deno.test("Test Case 2 - invalid circles and shares", async () => {
+  const [db, client] = await testDb();
+  const circlesConcept = new CirclesConcept(db);
+
+  try {
+    const created = await circlesConcept.createCircle({
+      owner: userA,
+      name: "Climbing crew",
+    });
+    if ("error" in created) {
+      throw new Error("Creating a circle should not fail.");
+    }
+    const { circle: crew } = created;
+
+    const emptyName = await circlesConcept.createCircle({
+      owner: userA,
+      name: " ",
+    });
+    assertEquals("error" in emptyName, true, "Empty name should fail.");
+    const duplicate = await circlesConcept.createCircle({
+      owner: userA,
+      name: "climbing CREW",
+    });
+    assertEquals("error" in duplicate, true, "Duplicate name should fail.");
+    const otherOwner = await circlesConcept.createCircle({
+      owner: userB,
+      name: "Climbing crew",
+    });
+    assertNotEquals(
+      "error" in otherOwner,
+      true,
+      "Other users can use the same name.",
+    );
+    const rename = await circlesConcept.renameCircle({
+      owner: userA,
+      circle: crew,
+      name: "Climbing Crew",
+    });
+    assertEquals(rename, { circle: crew }, "Renaming to itself is allowed.");
+
+    const addSelf = await circlesConcept.addMember({
+      owner: userA,
+      circle: crew,
+      member: userA,
+    });
+    assertEquals("error" in addSelf, true, "Adding oneself should fail.");
+    const addToOthers = await circlesConcept.addMember({
+      owner: userB,
+      circle: crew,
+      member: userC,
+    });
+    assertEquals(
+      "error" in addToOthers,
+      true,
+      "Adding to another's circle should fail.",
+    );
+    await circlesConcept.addMember({
+      owner: userA,
+      circle: crew,
+      member: userB,
+    });
+    const addTwice = await circlesConcept.addMember({
+      owner: userA,
+      circle: crew,
+      member: userB,
+    });
+    assertEquals("error" in addTwice, true, "Adding twice should fail.");
+
+    const shareNone = await circlesConcept.shareWithCircles({
+      owner: userA,
+      item: postA,
+      circles: [],
+    });
+    assertEquals("error" in shareNone, true, "Sharing with none should fail.");
+    const { circle: bobs } = otherOwner as { circle: ID };
+    const shareOthers = await circlesConcept.shareWithCircles({
+      owner: userA,
+      item: postA,
+      circles: [crew, bobs],
+    });
+    assertEquals(
+      "error" in shareOthers,
+      true,
+      "Sharing with another's circle should fail.",
+    );
+    const unshare = await circlesConcept.shareWithAllFriends({
+      owner: userA,
+      item: postA,
+    });
+    assertEquals(
+      "error" in unshare,
+      true,
+      "Unsharing an unrestricted item should fail.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates removing members and deleting circles never widens who sees a shared item,
+ * and deleting a user removes their circles and memberships.
+ */
+Deno.test("Test Case 3 - removing members, circles, and users", async () => {
+  const [db, client] = await testDb();
+  const circlesConcept = new CirclesConcept(db);
+
+  try {
+    const { circle: family } = await circlesConcept.createCircle({
+      owner: userA,
+      name: "Family",
+    }) as { circle: ID };
+    await circlesConcept.addMember({
+      owner: userA,
+      circle: family,
+      member: userB,
+    });
+    await circlesConcept.addMember({
+      owner: userA,
+      circle: family,
+      member: userC,
+    });
+    await circlesConcept.shareWithCircles({
+      owner: userA,
+      item: postA,
+      circles: [family],
+    });
+
+    // 1. removed members no longer see the item
+    await circlesConcept.removeMember({
+      owner: userA,
+      circle: family,
+      member: userB,
+    });
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userB }),
+      [{ shared: false }],
+    );
+    assertEquals(
+      await circlesConcept.removeMemberFromAll({ owner: userA, member: userC }),
+      { circles: 1 },
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userC }),
+      [{ shared: false }],
+    );
+
+    // 2. deleting the only circle an item is shared with leaves it shared with no one
+    await circlesConcept.addMember({
+      owner: userA,
+      circle: family,
+      member: userB,
+    });
+    await circlesConcept.deleteCircle({ owner: userA, circle: family });
+    assertEquals(
+      await circlesConcept._getSharing({ owner: userA, item: postA }),
+      [{ circles: [] }],
+    );
+    assertEquals(
+      await circlesConcept._isSharedWith({ item: postA, viewer: userB }),
+      [{ shared: false }],
+    );
+
+    // 3. deleting the item forgets its sharing
+    await circlesConcept.deleteItem({ item: postA });
+    assertEquals(
+      await circlesConcept._getSharing({ owner: userA, item: postA }),
+      [{ circles: null }],
+    );
+
+    // 4. deleting a user removes their circles and their memberships in others' circles
+    const { circle: bobs } = await circlesConcept.createCircle({
+      owner: userB,
+      name: "Road trip",
+    }) as { circle: ID };
+    await circlesConcept.addMember({
+      owner: userB,
+      circle: bobs,
+      member: userA,
+    });
+    await circlesConcept.createCircle({ owner: userA, name: "Work" });
+    assertEquals(await circlesConcept.deleteByUser({ user: userA }), {
+      circles: 1,
+    });
+    assertEquals(await circlesConcept._getCircles({ owner: userA }), []);
+    assertEquals(await circlesConcept._getCircles({ owner: userB }), [
+      { circle: bobs, name: "Road trip", members: [] },
+    ]);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,335 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Circles" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Item = ID;
+
+// Internal entity types, represented as IDs
+type Circle = ID;
+
+// Longest circle name, in characters.
+const CIRCLE_NAME_MAX_LENGTH = 50;
+
+/**
+ * State: A set of Circles with an owner, a name, a set of member users, and the date it was created.
+ */
+export interface CircleDoc {
+  _id: Circle;
+  owner: User;
+  name: string;
+  members: User[];
+  createdAt: Date;
+}
+
+/**
+ * State: A set of Shares with an item, its owner, and the circles it's shared with.
+ * Items without a share are shared with all of their owner's friends; items shared with
+ * no remaining circles (because they were deleted) are shared with no one.
+ */
+export interface ShareDoc {
+  _id: Item;
+  owner: User;
+  circles: Circle[];
+}
+
+/**
+ * A circle as shown to its owner.
+ */
+export interface CircleView {
+  circle: Circle;
+  name: string;
+  members: User[];
+}
+
+/**
+ * @concept Circles
+ * @purpose To let users share things with chosen groups of their friends rather than all of them.
+ */
+export default class CirclesConcept {
+  circles: Collection<CircleDoc>;
+  shares: Collection<ShareDoc>;
+
+  constructor(private readonly db: Db) {
+    this.circles = this.db.collection(PREFIX + "circles");
+    this.shares = this.db.collection(PREFIX + "shares");
+  }
+
+  /**
+   * Helper: Validates a circle name, and that the owner doesn't have another circle with it.
+   * @returns the trimmed name, or an error
+   */
+  private async checkName(
+    owner: User,
+    name: string,
+    circle?: Circle,
+  ): Promise<string | { error: string }> {
+    const trimmed = String(name ?? "").trim();
+    if (trimmed === "") {
+      return { error: "Circle name can't be empty." };
+    }
+    if (trimmed.length > CIRCLE_NAME_MAX_LENGTH) {
+      return {
+        error:
+          `Circle name can't be longer than ${CIRCLE_NAME_MAX_LENGTH} characters.`,
+      };
+    }
+    const existing = await this.circles.findOne({
+      owner,
+      name: trimmed,
+      ...(circle ? { _id: { $ne: circle } } : {}),
+    }, { collation: { locale: "en", strength: 2 } });
+    if (existing) {
+      return { error: `You already have a circle named "${trimmed}".` };
+    }
+    return trimmed;
+  }
+
+  /**
+   * Action: Creates a circle.
+   * @requires name is not empty or too long, and owner doesn't have a circle with the same name (ignoring case)
+   * @effects creates a circle with the given owner and trimmed name and no members; returns the circle
+   */
+  async createCircle(
+    { owner, name }: { owner: User; name: string },
+  ): Promise<{ circle: Circle } | { error: string }> {
+    const checked = await this.checkName(owner, name);
+    if (typeof checked !== "string") {
+      return checked;
+    }
+
+    const circle = freshID() as Circle;
+    await this.circles.insertOne({
+      _id: circle,
+      owner,
+      name: checked,
+      members: [],
+      createdAt: new Date(),
+    });
+    return { circle };
+  }
+
+  /**
+   * Action: Renames a circle.
+   * @requires circle exists and is owned by owner; name is not empty or too long,
+   * and owner doesn't have another circle with the same name (ignoring case)
+   * @effects sets the circle's name to the trimmed name; returns the circle
+   */
+  async renameCircle(
+    { owner, circle, name }: { owner: User; circle: Circle; name: string },
+  ): Promise<{ circle: Circle } | { error: string }> {
+    if (!(await this.circles.findOne({ _id: circle, owner }))) {
+      return { error: `Circle with ID ${circle} not found.` };
+    }
+    const checked = await this.checkName(owner, name, circle);
+    if (typeof checked !== "string") {
+      return checked;
+    }
+
+    await this.circles.updateOne({ _id: circle }, { $set: { name: checked } });
+    return { circle };
+  }
+
+  /**
+   * Action: Deletes a circle.
+   * @requires circle exists and is owned by owner
+   * @effects removes the circle, and removes it from the circles items are shared with,
+   * leaving items shared only with it shared with no one; returns the circle
+   */
+  async deleteCircle(
+    { owner, circle }: { owner: User; circle: Circle },
+  ): Promise<{ circle: Circle } | { error: string }> {
+    const result = await this.circles.deleteOne({ _id: circle, owner });
+    if (result.deletedCount === 0) {
+      return { error: `Circle with ID ${circle} not found.` };
+    }
+
+    await this.shares.updateMany({ circles: circle }, {
+      $pull: { circles: circle },
+    });
+    return { circle };
+  }
+
+  /**
+   * Action: Adds a member to a circle.
+   * @requires circle exists and is owned by owner; member is not owner and not already in the circle
+   * @effects adds member to the circle's members; returns the circle
+   */
+  async addMember(
+    { owner, circle, member }: { owner: User; circle: Circle; member: User },
+  ): Promise<{ circle: Circle } | { error: string }> {
+    if (member === owner) {
+      return { error: "You can't add yourself to a circle." };
+    }
+    if (!(await this.circles.findOne({ _id: circle, owner }))) {
+      return { error: `Circle with ID ${circle} not found.` };
+    }
+
+    const result = await this.circles.updateOne(
+      { _id: circle, members: { $ne: member } },
+      { $push: { members: member } },
+    );
+    if (result.modifiedCount === 0) {
+      return { error: `User with ID ${member} is already in the circle.` };
+    }
+    return { circle };
+  }
+
+  /**
+   * Action: Removes a member from a circle.
+   * @requires circle exists and is owned by owner, and member is in it
+   * @effects removes member from the circle's members; returns the circle
+   */
+  async removeMember(
+    { owner, circle, member }: { owner: User; circle: Circle; member: User },
+  ): Promise<{ circle: Circle } | { error: string }> {
+    const result = await this.circles.updateOne(
+      { _id: circle, owner, members: member },
+      { $pull: { members: member } },
+    );
+    if (result.modifiedCount === 0) {
+      return {
+        error: `User with ID ${member} isn't in circle with ID ${circle}.`,
+      };
+    }
+    return { circle };
+  }
+
+  /**
+   * Action: Removes a member from all of an owner's circles, such as when they stop being friends.
+   * @effects removes member from the members of every circle owned by owner;
+   * returns how many circles they were removed from
+   */
+  async removeMemberFromAll(
+    { owner, member }: { owner: User; member: User },
+  ): Promise<{ circles: number }> {
+    const result = await this.circles.updateMany(
+      { owner, members: member },
+      { $pull: { members: member } },
+    );
+    return { circles: result.modifiedCount };
+  }
+
+  /**
+   * Action: Shares an item with only some of its owner's circles.
+   * @requires circles is not empty, and every circle in it exists and is owned by owner;
+   * the item isn't shared by someone else
+   * @effects shares the item with exactly the given circles, replacing who it was shared with; returns the item
+   */
+  async shareWithCircles(
+    { owner, item, circles }: { owner: User; item: Item; circles: Circle[] },
+  ): Promise<{ item: Item } | { error: string }> {
+    const distinct = [...new Set(circles ?? [])];
+    if (distinct.length === 0) {
+      return { error: "Choose at least one circle to share with." };
+    }
+    const owned = await this.circles.countDocuments({
+      _id: { $in: distinct },
+      owner,
+    });
+    if (owned !== distinct.length) {
+      return { error: "Can only share with your own circles." };
+    }
+    if (await this.shares.findOne({ _id: item, owner: { $ne: owner } })) {
+      return { error: `Item with ID ${item} is shared by someone else.` };
+    }
+
+    await this.shares.updateOne(
+      { _id: item },
+      { $set: { owner, circles: distinct } },
+      { upsert: true },
+    );
+    return { item };
+  }
+
+  /**
+   * Action: Shares an item with all of its owner's friends again.
+   * @requires the item is shared with only some of owner's circles
+   * @effects removes the item's share; returns the item
+   */
+  async shareWithAllFriends(
+    { owner, item }: { owner: User; item: Item },
+  ): Promise<{ item: Item } | { error: string }> {
+    const result = await this.shares.deleteOne({ _id: item, owner });
+    if (result.deletedCount === 0) {
+      return {
+        error: `Item with ID ${item} is already shared with all friends.`,
+      };
+    }
+    return { item };
+  }
+
+  /**
+   * Action: Forgets who an item is shared with, such as when it's deleted.
+   * @effects removes the item's share, if it has one; returns the item
+   */
+  async deleteItem({ item }: { item: Item }): Promise<{ item: Item }> {
+    await this.shares.deleteOne({ _id: item });
+    return { item };
+  }
+
+  /**
+   * Action: Removes a user from circles altogether.
+   * @effects removes the circles and shares owned by user, and removes user from the members of
+   * every other circle; returns how many circles were removed
+   */
+  async deleteByUser({ user }: { user: User }): Promise<{ circles: number }> {
+    const result = await this.circles.deleteMany({ owner: user });
+    await this.shares.deleteMany({ owner: user });
+    await this.circles.updateMany({ members: user }, {
+      $pull: { members: user },
+    });
+    return { circles: result.deletedCount };
+  }
+
+  /**
+   * Query: Retrieves an owner's circles.
+   * @effects returns every circle owned by owner, with its name and members, in order of name
+   */
+  async _getCircles({ owner }: { owner: User }): Promise<CircleView[]> {
+    const circles = await this.circles.find({ owner })
+      .collation({ locale: "en", strength: 2 })
+      .sort({ name: 1 })
+      .toArray();
+    return circles.map((c) => ({
+      circle: c._id,
+      name: c.name,
+      members: c.members,
+    }));
+  }
+
+  /**
+   * Query: Retrieves who an item is shared with, for its owner.
+   * @effects returns the circles the item is shared with, or null if it's shared with all of owner's friends
+   */
+  async _getSharing(
+    { owner, item }: { owner: User; item: Item },
+  ): Promise<{ circles: Circle[] | null }[]> {
+    const share = await this.shares.findOne({ _id: item, owner });
+    return [{ circles: share?.circles ?? null }];
+  }
+
+  /**
+   * Query: Determines if an item is shared with a viewer.
+   * @effects returns True if the item is shared with all friends, or viewer is its owner
+   * or a member of one of the circles it's shared with; False otherwise.
+   * Whether viewer is one of the owner's friends is up to the caller.
+   */
+  async _isSharedWith(
+    { item, viewer }: { item: Item; viewer: User },
+  ): Promise<{ shared: boolean }[]> {
+    const share = await this.shares.findOne({ _id: item });
+    if (!share || share.owner === viewer) {
+      return [{ shared: true }];
+    }
+    const circle = await this.circles.findOne({
+      _id: { $in: share.circles },
+      members: viewer,
+    });
+    return [{ shared: circle !== null }];
+  }
+}
@@ -0,0 +1,193 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import CommentingConcept from "./CommentingConcept.ts";
+
+const authorA = "author:Alice" as ID;
+const authorB = "author:Bob" as ID;
+const postA = "post:Newport" as ID;
+const postB = "post:Tokyo" as ID;
+const nonComment = "comment:nonComment" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user comments, another user replies, and the first user edits and deletes the thread.
+ */
+Deno.test("Test Case 1 - operational principle: user comments, another replies, then edit and delete", async () => {
+  const [db, client] = await testDb();
+  const commentingConcept = new CommentingConcept(db);
+
+  try {
+    // 1. user A comments on post
+    const addComment = await commentingConcept.add({
+      author: authorA,
+      target: postA,
+      body: "  What a view!  ",
+    });
+    assertNotEquals("error" in addComment, true, "Comment should not fail.");
+    const { comment } = addComment as { comment: ID };
+    assertExists(comment);
+
+    // 2. user B replies
+    const addReply = await commentingConcept.reply({
+      author: authorB,
+      parent: comment,
+      body: "Right?? Best day of the trip.",
+    });
+    assertNotEquals("error" in addReply, true, "Reply should not fail.");
+    const { comment: reply } = addReply as { comment: ID };
+
+    let comments = await commentingConcept._getComments({ target: postA });
+    assertEquals(comments.length, 2, "Post should have 2 comments.");
+    assertEquals(comments[0].commentData.body, "What a view!");
+    assertEquals(comments[1].commentData.parent, comment);
+    assertEquals(
+      comments[1].commentData.target,
+      postA,
+      "Reply should be on the same post.",
+    );
+
+    const replies = await commentingConcept._getReplies({ parent: comment });
+    assertEquals(replies.map((r) => r.commentData._id), [reply]);
+
+    // 3. user A edits comment
+    const edit = await commentingConcept.edit({
+      user: authorA,
+      comment,
+      body: "What a view from the Cliff Walk!",
+    });
+    assertNotEquals("error" in edit, true, "Edit should not fail.");
+    const [{ commentData }] = await commentingConcept._getCommentById({
+      _id: comment,
+    });
+    assertEquals(commentData.body, "What a view from the Cliff Walk!");
+    assertExists(commentData.editedAt, "Edit date should be recorded.");
+
+    // 4. user A deletes comment, along with its reply
+    const deleteComment = await commentingConcept.delete({
+      user: authorA,
+      comment,
+    });
+    assertEquals("error" in deleteComment, false, "Delete should not fail.");
+
+    comments = await commentingConcept._getComments({ target: postA });
+    assertEquals(comments.length, 0, "Thread should be deleted.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates user tries to edit/delete another user's comment, nonexistent comments, and empty comments.
+ */
+Deno.test("Test Case 2 - edit/delete another user's comment, nonexistent comment, empty comment", async () => {
+  const [db, client] = await testDb();
+  const commentingConcept = new CommentingConcept(db);
+
+  try {
+    // 1. user makes empty comment
+    const empty = await commentingConcept.add({
+      author: authorA,
+      target: postA,
+      body: "   ",
+    });
+    assertEquals("error" in empty, true, "Empty comment should fail.");
+
+    const addComment = await commentingConcept.add({
+      author: authorA,
+      target: postA,
+      body: "Wish you were here!",
+    });
+    const { comment } = addComment as { comment: ID };
+
+    // 2. user B tries to edit and delete user A's comment
+    const editB = await commentingConcept.edit({
+      user: authorB,
+      comment,
+      body: "Hacked",
+    });
+    assertEquals("error" in editB, true, "Editing another's comment fails.");
+
+    const deleteB = await commentingConcept.delete({ user: authorB, comment });
+    assertEquals("error" in deleteB, true, "Deleting another's comment fails.");
+
+    // 3. users try to reply to, edit, and delete nonexistent comment
+    const replyNon = await commentingConcept.reply({
+      author: authorB,
+      parent: nonComment,
+      body: "Hello?",
+    });
+    assertEquals("error" in replyNon, true, "Reply to nonexistent fails.");
+
+    const editNon = await commentingConcept.edit({
+      user: authorA,
+      comment: nonComment,
+      body: "Hello?",
+    });
+    assertEquals("error" in editNon, true, "Editing nonexistent fails.");
+
+    const deleteNon = await commentingConcept.delete({
+      user: authorA,
+      comment: nonComment,
+    });
+    assertEquals("error" in deleteNon, true, "Deleting nonexistent fails.");
+
+    const comments = await commentingConcept._getComments({ target: postA });
+    assertEquals(comments.length, 1, "Original comment should remain.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates deleting all comments on a target leaves other targets' comments,
+ * and anonymizing an author's comments keeps them in their threads.
+ */
+Deno.test("Test Case 3 - delete comments by target, anonymize by author", async () => {
+  const [db, client] = await testDb();
+  const commentingConcept = new CommentingConcept(db);
+
+  try {
+    const addA = await commentingConcept.add({
+      author: authorA,
+      target: postA,
+      body: "Newport was great.",
+    });
+    const { comment: commentA } = addA as { comment: ID };
+    await commentingConcept.reply({
+      author: authorB,
+      parent: commentA,
+      body: "Agreed!",
+    });
+    await commentingConcept.add({
+      author: authorB,
+      target: postB,
+      body: "Tokyo next?",
+    });
+
+    // 1. post A's comments are deleted
+    await commentingConcept.deleteByTarget({ target: postA });
+
+    const commentsA = await commentingConcept._getComments({ target: postA });
+    assertEquals(commentsA.length, 0, "Post A's comments should be deleted.");
+
+    const commentsB = await commentingConcept._getComments({ target: postB });
+    assertEquals(commentsB.length, 1, "Post B's comments should remain.");
+
+    // 2. user B's comments are anonymized
+    const anonymize = await commentingConcept.anonymizeAuthor({
+      author: authorB,
+    });
+    assertEquals(anonymize, { comments: 1 });
+
+    const [{ commentData }] = await commentingConcept._getComments({
+      target: postB,
+    });
+    assertEquals(commentData.author, null, "Author should be removed.");
+    assertEquals(commentData.body, "[deleted]", "Body should be cleared.");
+  } finally {
+    await client.close();
+  }
+});
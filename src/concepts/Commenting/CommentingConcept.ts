@@ -0,0 +1,254 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Commenting" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Target = ID;
+
+// Internal entity types, represented as IDs
+type Comment = ID;
+
+// Longest accepted comment, in characters
+const COMMENT_MAX_LENGTH = 2000;
+
+// Body left in place of an anonymized comment
+const ANONYMIZED_BODY = "[deleted]";
+
+/**
+ * State: A set of Comments with a target, an author (unless the comment was anonymized), a body,
+ * the comment it replies to (if any), a creation date, and the date it was last edited (if ever).
+ */
+export interface CommentDoc {
+  _id: Comment;
+  target: Target;
+  author: User | null;
+  body: string;
+  parent: Comment | null;
+  createdAt: Date;
+  editedAt: Date | null;
+}
+
+/**
+ * @concept Commenting
+ * @purpose To let users respond to content and to each other.
+ */
+export default class CommentingConcept {
+  comments: Collection<CommentDoc>;
+
+  constructor(private readonly db: Db) {
+    this.comments = this.db.collection(PREFIX + "comments");
+  }
+
+  /**
+   * Helper: Checks that a comment's body is non-empty and within the length limit.
+   * @returns an error message, or undefined if the body is valid
+   */
+  private checkBody(body: string): string | undefined {
+    const length = String(body ?? "").trim().length;
+    if (length === 0) {
+      return "Comment cannot be empty.";
+    }
+    if (length > COMMENT_MAX_LENGTH) {
+      return `Comment must be at most ${COMMENT_MAX_LENGTH} characters; got ${length}.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Action: Comments on a target.
+   * @requires body is non-empty and within the length limit
+   * @effects creates and returns a comment on target by author with the given body
+   */
+  async add(
+    { author, target, body }: { author: User; target: Target; body: string },
+  ): Promise<{ comment: Comment } | { error: string }> {
+    // check body
+    const bodyError = this.checkBody(body);
+    if (bodyError) {
+      return { error: bodyError };
+    }
+
+    // create comment
+    const newCommentId = freshID() as Comment;
+    await this.comments.insertOne({
+      _id: newCommentId,
+      target,
+      author,
+      body: body.trim(),
+      parent: null,
+      createdAt: new Date(),
+      editedAt: null,
+    });
+
+    return { comment: newCommentId };
+  }
+
+  /**
+   * Action: Replies to a comment.
+   * @requires parent exists; body is non-empty and within the length limit
+   * @effects creates and returns a comment by author with the given body
+   * replying to parent, on the same target as parent
+   */
+  async reply(
+    { author, parent, body }: { author: User; parent: Comment; body: string },
+  ): Promise<{ comment: Comment } | { error: string }> {
+    // check parent exists
+    const parentComment = await this.comments.findOne({ _id: parent });
+    if (!parentComment) {
+      return { error: `Comment with ID ${parent} not found.` };
+    }
+
+    // check body
+    const bodyError = this.checkBody(body);
+    if (bodyError) {
+      return { error: bodyError };
+    }
+
+    // create reply
+    const newCommentId = freshID() as Comment;
+    await this.comments.insertOne({
+      _id: newCommentId,
+      target: parentComment.target,
+      author,
+      body: body.trim(),
+      parent,
+      createdAt: new Date(),
+      editedAt: null,
+    });
+
+    return { comment: newCommentId };
+  }
+
+  /**
+   * Action: Edits a comment's body.
+   * @requires comment exists and user is its author; body is non-empty and within the length limit
+   * @effects updates comment's body and edit date and returns comment
+   */
+  async edit(
+    { user, comment, body }: { user: User; comment: Comment; body: string },
+  ): Promise<{ comment: Comment } | { error: string }> {
+    // check comment exists
+    const currComment = await this.comments.findOne({ _id: comment });
+    if (!currComment) {
+      return { error: `Comment with ID ${comment} not found.` };
+    }
+
+    // check user is author
+    if (currComment.author !== user) {
+      return { error: "Cannot edit another user's comment." };
+    }
+
+    // check body
+    const bodyError = this.checkBody(body);
+    if (bodyError) {
+      return { error: bodyError };
+    }
+
+    // update comment
+    await this.comments.updateOne({ _id: comment }, {
+      $set: { body: body.trim(), editedAt: new Date() },
+    });
+
+    return { comment: comment };
+  }
+
+  /**
+   * Action: Deletes a comment and the replies beneath it.
+   * @requires comment exists and user is its author
+   * @effects removes comment, its replies, their replies, and so on
+   */
+  async delete(
+    { user, comment }: { user: User; comment: Comment },
+  ): Promise<Empty | { error: string }> {
+    // check comment exists
+    const currComment = await this.comments.findOne({ _id: comment });
+    if (!currComment) {
+      return { error: `Comment with ID ${comment} not found.` };
+    }
+
+    // check user is author
+    if (currComment.author !== user) {
+      return { error: "Cannot delete another user's comment." };
+    }
+
+    // collect the thread beneath the comment
+    const thread: Comment[] = [comment];
+    let replies: Comment[] = [comment];
+    while (replies.length > 0) {
+      const next = await this.comments.find({ parent: { $in: replies } })
+        .toArray();
+      replies = next.map((c) => c._id);
+      thread.push(...replies);
+    }
+
+    // delete comment and replies
+    await this.comments.deleteMany({ _id: { $in: thread } });
+    return {};
+  }
+
+  /**
+   * Action: Deletes all comments on a target.
+   * @effects removes all comments (and replies) on target
+   */
+  async deleteByTarget(
+    { target }: { target: Target },
+  ): Promise<Empty> {
+    await this.comments.deleteMany({ target });
+    return {};
+  }
+
+  /**
+   * Action: Anonymizes all of an author's comments, keeping their place in threads.
+   * @effects removes author and clears the body of every comment by author; returns how many were anonymized
+   */
+  async anonymizeAuthor(
+    { author }: { author: User },
+  ): Promise<{ comments: number }> {
+    const result = await this.comments.updateMany({ author }, {
+      $set: { author: null, body: ANONYMIZED_BODY },
+    });
+    return { comments: result.modifiedCount };
+  }
+
+  /**
+   * Query: Retrieves all comments on a target, including replies, in the order they were made.
+   * @effects returns all comments on target in order of creation date, oldest first
+   */
+  async _getComments(
+    { target }: { target: Target },
+  ): Promise<{ commentData: CommentDoc }[]> {
+    const comments = await this.comments.find({ target })
+      .sort({ createdAt: 1 })
+      .toArray();
+    return comments.map((c) => ({ commentData: c }));
+  }
+
+  /**
+   * Query: Retrieves the direct replies to a comment, in the order they were made.
+   * @effects returns all comments replying to parent in order of creation date, oldest first
+   */
+  async _getReplies(
+    { parent }: { parent: Comment },
+  ): Promise<{ commentData: CommentDoc }[]> {
+    const comments = await this.comments.find({ parent })
+      .sort({ createdAt: 1 })
+      .toArray();
+    return comments.map((c) => ({ commentData: c }));
+  }
+
+  /**
+   * Query: Retrieves the comment for a given ID.
+   * @requires exists comment with the given ID
+   * @effects returns the comment with the given ID
+   */
+  async _getCommentById(
+    { _id }: { _id: ID },
+  ): Promise<{ commentData: CommentDoc }[]> {
+    const comment = await this.comments.find({ _id }).toArray();
+    return comment.map((c) => ({ commentData: c }));
+  }
+}
@@ -0,0 +1,133 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import FollowingConcept from "./FollowingConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const userC = "user:Charlie" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: a user follows another user without being followed back,
+ * then unfollows them.
+ */
+Deno.test("Test Case 1 - operational principle: user follows, then unfollows", async () => {
+  const [db, client] = await testDb();
+  const followingConcept = new FollowingConcept(db);
+
+  try {
+    // 1. user A follows blogger B
+    assertEquals(
+      await followingConcept.follow({ follower: userA, followee: userB }),
+      { followee: userB },
+    );
+    const followers = await followingConcept._getFollowers({ user: userB });
+    assertEquals(followers.map((f) => f.followerId), [userA]);
+    const following = await followingConcept._getFollowing({ user: userA });
+    assertEquals(following.map((f) => f.followeeId), [userB]);
+
+    // 2. following is one-way
+    assertEquals(
+      await followingConcept._isFollowing({ follower: userA, followee: userB }),
+      [{ following: true }],
+    );
+    assertEquals(
+      await followingConcept._isFollowing({ follower: userB, followee: userA }),
+      [{ following: false }],
+    );
+    assertEquals(await followingConcept._getCounts({ user: userB }), [
+      { followers: 1, following: 0 },
+    ]);
+
+    // 3. user A unfollows B
+    assertEquals(
+      await followingConcept.unfollow({ follower: userA, followee: userB }),
+      { followee: userB },
+    );
+    assertEquals(await followingConcept._getFollowers({ user: userB }), []);
+    assertEquals(await followingConcept._getCounts({ user: userB }), [
+      { followers: 0, following: 0 },
+    ]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates users can't follow themselves or follow someone twice,
+ * or unfollow someone they don't follow.
+ */
+Deno.test("Test Case 2 - invalid follows", async () => {
+  const [db, client] = await testDb();
+  const followingConcept = new FollowingConcept(db);
+
+  try {
+    const followSelf = await followingConcept.follow({
+      follower: userA,
+      followee: userA,
+    });
+    assertEquals("error" in followSelf, true, "Following oneself should fail.");
+
+    await followingConcept.follow({ follower: userA, followee: userB });
+    const followTwice = await followingConcept.follow({
+      follower: userA,
+      followee: userB,
+    });
+    assertEquals("error" in followTwice, true, "Following twice should fail.");
+    assertEquals(await followingConcept._getCounts({ user: userA }), [
+      { followers: 0, following: 1 },
+    ]);
+
+    const unfollowStranger = await followingConcept.unfollow({
+      follower: userA,
+      followee: userC,
+    });
+    assertEquals(
+      "error" in unfollowStranger,
+      true,
+      "Unfollowing someone not followed should fail.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates removing the follows between two users, and all of a user's follows.
+ */
+Deno.test("Test Case 3 - removing follows between users and by user", async () => {
+  const [db, client] = await testDb();
+  const followingConcept = new FollowingConcept(db);
+
+  try {
+    // A and B follow each other; A and C follow B; B follows C
+    await followingConcept.follow({ follower: userA, followee: userB });
+    await followingConcept.follow({ follower: userB, followee: userA });
+    await followingConcept.follow({ follower: userC, followee: userB });
+    await followingConcept.follow({ follower: userB, followee: userC });
+
+    // 1. follows between A and B are removed in both directions
+    assertEquals(
+      await followingConcept.removeBetween({ user: userA, other: userB }),
+      { follows: 2 },
+    );
+    assertEquals(await followingConcept._getCounts({ user: userA }), [
+      { followers: 0, following: 0 },
+    ]);
+    const followersB = await followingConcept._getFollowers({ user: userB });
+    assertEquals(followersB.map((f) => f.followerId), [userC]);
+
+    // 2. deleting user B removes B's follows in both directions
+    assertEquals(await followingConcept.deleteByUser({ user: userB }), {
+      follows: 2,
+    });
+    assertEquals(await followingConcept._getCounts({ user: userC }), [
+      { followers: 0, following: 0 },
+    ]);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,163 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Following" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type Follow = ID;
+
+/**
+ * State: A set of Follows with a follower, the user they follow, and the date they started following.
+ */
+export interface FollowDoc {
+  _id: Follow;
+  follower: User;
+  followee: User;
+  createdAt: Date;
+}
+
+/**
+ * @concept Following
+ * @purpose To let users keep up with other users without a mutual relationship.
+ */
+export default class FollowingConcept {
+  follows: Collection<FollowDoc>;
+
+  constructor(private readonly db: Db) {
+    this.follows = this.db.collection(PREFIX + "follows");
+  }
+
+  /**
+   * Action: Follows another user.
+   * @requires followee does not equal follower, and follower doesn't already follow followee
+   * @effects creates a follow from follower to followee, started now; returns the followee
+   */
+  async follow(
+    { follower, followee }: { follower: User; followee: User },
+  ): Promise<{ followee: User } | { error: string }> {
+    if (follower === followee) {
+      return { error: "You can't follow yourself." };
+    }
+
+    // atomically create the follow, unless it already exists
+    const result = await this.follows.updateOne(
+      { follower, followee },
+      { $setOnInsert: { _id: freshID(), createdAt: new Date() } },
+      { upsert: true },
+    );
+    if (result.upsertedCount === 0) {
+      return {
+        error: `User with ID ${follower} already follows ${followee}.`,
+      };
+    }
+    return { followee };
+  }
+
+  /**
+   * Action: Stops following another user.
+   * @requires follower follows followee
+   * @effects removes the follow from follower to followee; returns the followee
+   */
+  async unfollow(
+    { follower, followee }: { follower: User; followee: User },
+  ): Promise<{ followee: User } | { error: string }> {
+    const result = await this.follows.deleteOne({ follower, followee });
+    if (result.deletedCount === 0) {
+      return {
+        error: `User with ID ${follower} doesn't follow ${followee}.`,
+      };
+    }
+    return { followee };
+  }
+
+  /**
+   * Action: Removes any follows between two users, in either direction, such as when one blocks the other.
+   * @effects removes the follows from user to other and from other to user;
+   * returns how many follows were removed
+   */
+  async removeBetween(
+    { user, other }: { user: User; other: User },
+  ): Promise<{ follows: number }> {
+    const result = await this.follows.deleteMany({
+      $or: [
+        { follower: user, followee: other },
+        { follower: other, followee: user },
+      ],
+    });
+    return { follows: result.deletedCount };
+  }
+
+  /**
+   * Action: Removes a user from following altogether.
+   * @effects removes every follow with user as the follower or followee;
+   * returns how many follows were removed
+   */
+  async deleteByUser({ user }: { user: User }): Promise<{ follows: number }> {
+    const result = await this.follows.deleteMany({
+      $or: [{ follower: user }, { followee: user }],
+    });
+    return { follows: result.deletedCount };
+  }
+
+  /**
+   * Query: Retrieves the users who follow given user.
+   * @effects returns each follower of given user, with when they started following, newest first.
+   */
+  async _getFollowers(
+    { user }: { user: User },
+  ): Promise<{ followerId: User; followedAt: Date }[]> {
+    const follows = await this.follows.find({ followee: user })
+      .sort({ createdAt: -1, _id: -1 })
+      .toArray();
+    return follows.map((f) => ({
+      followerId: f.follower,
+      followedAt: f.createdAt,
+    }));
+  }
+
+  /**
+   * Query: Retrieves the users given user follows.
+   * @effects returns each user given user follows, with when they started following, newest first.
+   */
+  async _getFollowing(
+    { user }: { user: User },
+  ): Promise<{ followeeId: User; followedAt: Date }[]> {
+    const follows = await this.follows.find({ follower: user })
+      .sort({ createdAt: -1, _id: -1 })
+      .toArray();
+    return follows.map((f) => ({
+      followeeId: f.followee,
+      followedAt: f.createdAt,
+    }));
+  }
+
+  /**
+   * Query: Counts given user's followers and the users they follow.
+   * @effects returns the number of follows with given user as the followee, and as the follower.
+   */
+  async _getCounts(
+    { user }: { user: User },
+  ): Promise<{ followers: number; following: number }[]> {
+    const [followers, following] = await Promise.all([
+      this.follows.countDocuments({ followee: user }),
+      this.follows.countDocuments({ follower: user }),
+    ]);
+    return [{ followers, following }];
+  }
+
+  /**
+   * Query: Determines if a user follows another user.
+   * @effects returns True if follower follows followee, False otherwise.
+   */
+  async _isFollowing(
+    { follower, followee }: { follower: User; followee: User },
+  ): Promise<{ following: boolean }[]> {
+    const follow = await this.follows.findOne({ follower, followee });
+    return [{ following: follow !== null }];
+  }
+}
@@ -462,7 +462,7 @@ Deno.test("Test Case 7 - concurrecy", async () => {
   try {
     // --- Scenario 1: Concurrent Mutual Friend Requests (UserA requests UserB, UserB requests UserA) ---
     // Expect: Exactly one request succeeds. The other should fail because the reciprocal request
-    // is detected by the 'friendDoc.outgoingRequests.includes(user)' precondition within the transaction.
+    // is detected by the 'friendDoc.outgoingRequests.some((r) => r.to === user)' precondition within the transaction.
     const [reqAB, reqBA] = await Promise.all([
       friendingConcept.requestFriend({ user: userA, friend: userB }),
       friendingConcept.requestFriend({ user: userB, friend: userA }),
@@ -484,12 +484,12 @@ Deno.test("Test Case 7 - concurrecy", async () => {
 
     if (reqAB_succeeded) { // If A->B succeeded, then B->A should have failed.
       assertEquals(
-        docA_afterReq?.outgoingRequests.includes(userB),
+        docA_afterReq?.outgoingRequests.some((r) => r.to === userB),
         true,
         "UserA should have outgoing request to UserB.",
       );
       assertEquals(
-        docB_afterReq?.outgoingRequests.includes(userA),
+        docB_afterReq?.outgoingRequests.some((r) => r.to === userA),
         false,
         "UserB should NOT have outgoing request to UserA.",
       );
@@ -500,12 +500,12 @@ Deno.test("Test Case 7 - concurrecy", async () => {
       );
     } else { // If B->A succeeded, then A->B should have failed.
       assertEquals(
-        docB_afterReq?.outgoingRequests.includes(userA),
+        docB_afterReq?.outgoingRequests.some((r) => r.to === userA),
         true,
         "UserB should have outgoing request to UserA.",
       );
       assertEquals(
-        docA_afterReq?.outgoingRequests.includes(userB),
+        docA_afterReq?.outgoingRequests.some((r) => r.to === userB),
         false,
         "UserA should NOT have outgoing request to UserB.",
       );
@@ -582,12 +582,12 @@ Deno.test("Test Case 7 - concurrecy", async () => {
       "UserB should be friends with UserA.",
     );
     assertEquals(
-      docA_afterAccept?.outgoingRequests.includes(userB),
+      docA_afterAccept?.outgoingRequests.some((r) => r.to === userB),
       false,
       "UserA should not have outgoing request to UserB.",
     );
     assertEquals(
-      docB_afterAccept?.outgoingRequests.includes(userA),
+      docB_afterAccept?.outgoingRequests.some((r) => r.to === userA),
       false,
       "UserB should not have any incoming request from UserA.",
     );
@@ -629,3 +629,378 @@ Deno.test("Test Case 7 - concurrecy", async () => {
     await client.close();
   }
 });
+
+/**
+ * Test Case 8
+ * Demonstrates removing a user removes their friendships and friend requests on both sides.
+ */
+Deno.test("Test Case 8 - remove user", async () => {
+  const [db, client] = await testDb();
+  const friendingConcept = new FriendingConcept(db, client);
+
+  try {
+    // A and B are friends; A requested C; C requested B
+    await friendingConcept.requestFriend({ user: userA, friend: userB });
+    await friendingConcept.acceptFriend({ user: userB, friend: userA });
+    await friendingConcept.requestFriend({ user: userA, friend: userC });
+    await friendingConcept.requestFriend({ user: userC, friend: userB });
+
+    // 1. user A is removed
+    const removeA = await friendingConcept.removeUser({ user: userA });
+    assertEquals(removeA, { friends: 1, requests: 1 });
+
+    // 2. no one refers to user A anymore
+    const friendsB = await friendingConcept._getFriends({ user: userB });
+    assertEquals(friendsB, [], "User B should have no friends.");
+    const incomingC = await friendingConcept._getIncomingRequests({
+      user: userC,
+    });
+    assertEquals(incomingC, [], "User C should have no incoming requests.");
+    const docA = await friendingConcept.users.findOne({ _id: userA });
+    assertEquals(docA, null, "User A should be removed.");
+
+    // 3. other users' requests are kept
+    const outgoingC = await friendingConcept._getOutgoingRequests({
+      user: userC,
+    });
+    assertEquals(outgoingC.map((r) => r.friendId), [userB]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 9
+ * Demonstrates blocking ends friendships and requests between the users and prevents new requests,
+ * until the user is unblocked.
+ */
+Deno.test("Test Case 9 - blocking", async () => {
+  const [db, client] = await testDb();
+  const friendingConcept = new FriendingConcept(db, client);
+
+  try {
+    // A and B are friends; C requested A
+    await friendingConcept.requestFriend({ user: userA, friend: userB });
+    await friendingConcept.acceptFriend({ user: userB, friend: userA });
+    await friendingConcept.requestFriend({ user: userC, friend: userA });
+
+    // 1. user A blocks B and C
+    const blockB = await friendingConcept.block({ user: userA, target: userB });
+    assertEquals(blockB, { user: userA });
+    const blockC = await friendingConcept.block({ user: userA, target: userC });
+    assertEquals(blockC, { user: userA });
+
+    assertEquals(await friendingConcept._getFriends({ user: userA }), []);
+    assertEquals(await friendingConcept._getFriends({ user: userB }), []);
+    assertEquals(
+      await friendingConcept._getIncomingRequests({ user: userA }),
+      [],
+      "User C's request should be cancelled.",
+    );
+    assertEquals(await friendingConcept._getBlocked({ user: userA }), [
+      { blockedId: userB },
+      { blockedId: userC },
+    ]);
+    assertEquals(await friendingConcept._getBlockers({ user: userB }), [
+      { blockerId: userA },
+    ]);
+
+    // 2. neither side can request the other
+    const requestByBlocked = await friendingConcept.requestFriend({
+      user: userB,
+      friend: userA,
+    });
+    assertEquals(
+      "error" in requestByBlocked,
+      true,
+      "Blocked user's request should fail.",
+    );
+    const requestByBlocker = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userC,
+    });
+    assertEquals(
+      "error" in requestByBlocker,
+      true,
+      "Blocker's request should fail.",
+    );
+
+    // 3. blocking twice, blocking oneself, and unblocking someone not blocked fail
+    const blockAgain = await friendingConcept.block({
+      user: userA,
+      target: userB,
+    });
+    assertEquals("error" in blockAgain, true, "Blocking twice should fail.");
+    const blockSelf = await friendingConcept.block({
+      user: userA,
+      target: userA,
+    });
+    assertEquals("error" in blockSelf, true, "Blocking oneself should fail.");
+    const unblockNone = await friendingConcept.unblock({
+      user: userB,
+      target: userA,
+    });
+    assertEquals(
+      "error" in unblockNone,
+      true,
+      "Unblocking someone not blocked should fail.",
+    );
+
+    // 4. once unblocked, user B can request user A again
+    const unblockB = await friendingConcept.unblock({
+      user: userA,
+      target: userB,
+    });
+    assertEquals(unblockB, { user: userA });
+    const reRequest = await friendingConcept.requestFriend({
+      user: userB,
+      friend: userA,
+    });
+    assertNotEquals("error" in reRequest, true, "Re-request should succeed.");
+
+    // 5. removing user A removes their blocks
+    await friendingConcept.removeUser({ user: userA });
+    assertEquals(await friendingConcept._getBlockers({ user: userC }), []);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 10
+ * Demonstrates friends of friends are found with their mutual friends,
+ * leaving out users already connected by friendship, requests, or blocks.
+ */
+Deno.test("Test Case 10 - friends of friends", async () => {
+  const [db, client] = await testDb();
+  const friendingConcept = new FriendingConcept(db, client);
+  const userD = "user:Dana" as ID;
+  const userE = "user:Eve" as ID;
+
+  try {
+    // A is friends with B and C; B and C are both friends with D; C is friends with E
+    for (
+      const [user, friend] of [
+        [userA, userB],
+        [userA, userC],
+        [userB, userD],
+        [userC, userD],
+        [userC, userE],
+      ]
+    ) {
+      await friendingConcept.requestFriend({ user, friend });
+      await friendingConcept.acceptFriend({ user: friend, friend: user });
+    }
+
+    // 1. D and E are suggested through A's friends, D first with two mutual friends
+    const friendsOfFriends = await friendingConcept._getFriendsOfFriends({
+      user: userA,
+    });
+    assertEquals(friendsOfFriends.length, 2);
+    assertEquals(friendsOfFriends[0].friendId, userD);
+    assertEquals(
+      new Set(friendsOfFriends[0].mutualFriends),
+      new Set([userB, userC]),
+    );
+    assertEquals(friendsOfFriends[1], {
+      friendId: userE,
+      mutualFriends: [userC],
+    });
+
+    // 2. users with pending requests or blocks aren't friends of friends
+    await friendingConcept.requestFriend({ user: userD, friend: userA });
+    await friendingConcept.block({ user: userE, target: userA });
+    assertEquals(
+      await friendingConcept._getFriendsOfFriends({ user: userA }),
+      [],
+    );
+
+    const [{ users: connections }] = await friendingConcept._getConnections({
+      user: userA,
+    });
+    assertEquals(
+      new Set(connections),
+      new Set([userA, userB, userC, userD, userE]),
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 11
+ * Demonstrates friend requests carry a message and dates, expire if unanswered,
+ * and can't be sent again to a user who rejected them until the cooldown passes.
+ */
+Deno.test("Test Case 11 - request messages, expiry, and cooldown", async () => {
+  const [db, client] = await testDb();
+  const friendingConcept = new FriendingConcept(db, client);
+
+  try {
+    // 1. user A requests B with a message
+    const tooLong = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+      message: "x".repeat(201),
+    });
+    assertEquals("error" in tooLong, true, "Long message should fail.");
+    await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+      message: "  We met in Lisbon! ",
+    });
+    const [incoming] = await friendingConcept._getIncomingRequests({
+      user: userB,
+    });
+    assertEquals(incoming.friendId, userA);
+    assertEquals(incoming.message, "We met in Lisbon!");
+    assertEquals(
+      incoming.expiresAt.getTime() - incoming.createdAt.getTime(),
+      30 * 24 * 60 * 60 * 1000,
+      "Request should expire after 30 days.",
+    );
+    assertEquals(
+      await friendingConcept._getOutgoingRequests({ user: userA }),
+      [{ ...incoming, friendId: userB }],
+      "User A should see the same request, for user B.",
+    );
+
+    // 2. once the request expires, it's hidden, can't be accepted, and can be sent again
+    await friendingConcept.users.updateOne(
+      { _id: userA },
+      { $set: { "outgoingRequests.0.expiresAt": new Date(Date.now() - 1000) } },
+    );
+    assertEquals(
+      await friendingConcept._getIncomingRequests({ user: userB }),
+      [],
+    );
+    assertEquals(
+      await friendingConcept._getOutgoingRequests({ user: userA }),
+      [],
+    );
+    const acceptExpired = await friendingConcept.acceptFriend({
+      user: userB,
+      friend: userA,
+    });
+    assertEquals(
+      "error" in acceptExpired,
+      true,
+      "Accepting an expired request should fail.",
+    );
+    const resend = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+    });
+    assertNotEquals("error" in resend, true, "Resending should not fail.");
+    const [resent] = await friendingConcept._getIncomingRequests({
+      user: userB,
+    });
+    assertEquals(resent.message, null);
+
+    // 3. user B rejects A, who can't request B again until the cooldown passes
+    await friendingConcept.rejectFriend({ user: userB, friend: userA });
+    const tooSoon = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+    });
+    assertEquals("error" in tooSoon, true, "Requesting too soon should fail.");
+    const reverse = await friendingConcept.requestFriend({
+      user: userB,
+      friend: userA,
+    });
+    assertNotEquals(
+      "error" in reverse,
+      true,
+      "The user who rejected can still send a request.",
+    );
+    await friendingConcept.unrequestFriend({ user: userB, friend: userA });
+
+    await friendingConcept.users.updateOne(
+      { _id: userA },
+      { $set: { "rejectedBy.0.until": new Date(Date.now() - 1000) } },
+    );
+    const afterCooldown = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+    });
+    assertNotEquals(
+      "error" in afterCooldown,
+      true,
+      "Requesting after the cooldown should not fail.",
+    );
+    const docA = await friendingConcept.users.findOne({ _id: userA });
+    assertEquals(docA?.rejectedBy, [], "Past rejection should be forgotten.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 12
+ * Demonstrates friend requests stored as bare user IDs, from before requests had dates,
+ * are still pending and can be answered, listed, and not sent twice.
+ */
+Deno.test("Test Case 12 - legacy friend requests", async () => {
+  const [db, client] = await testDb();
+
+  try {
+    await db.collection<{
+      _id: ID;
+      friends: ID[];
+      outgoingRequests: ID[];
+    }>("Friending.users").insertMany([
+      { _id: userA, friends: [], outgoingRequests: [userB, userC] },
+      { _id: userB, friends: [], outgoingRequests: [] },
+      { _id: userC, friends: [], outgoingRequests: [] },
+    ]);
+    const friendingConcept = new FriendingConcept(db, client);
+
+    // 1. legacy requests are listed with no message
+    const outgoing = await friendingConcept._getOutgoingRequests({
+      user: userA,
+    });
+    assertEquals(outgoing.map((r) => r.friendId), [userB, userC]);
+    assertEquals(outgoing.map((r) => r.message), [null, null]);
+    const [incoming] = await friendingConcept._getIncomingRequests({
+      user: userB,
+    });
+    assertEquals(incoming.friendId, userA);
+
+    // 2. a legacy request can't be sent again, and can be accepted or rejected
+    const requestTwice = await friendingConcept.requestFriend({
+      user: userA,
+      friend: userB,
+    });
+    assertEquals(
+      "error" in requestTwice,
+      true,
+      "Requesting twice should fail.",
+    );
+    assertNotEquals(
+      "error" in await friendingConcept.acceptFriend({
+        user: userB,
+        friend: userA,
+      }),
+      true,
+      "Accepting a legacy request should not fail.",
+    );
+    assertEquals(
+      await friendingConcept._isFriendsWith({ user: userA, friend: userB }),
+      [{ friendshipExists: true }],
+    );
+    assertNotEquals(
+      "error" in await friendingConcept.rejectFriend({
+        user: userC,
+        friend: userA,
+      }),
+      true,
+      "Rejecting a legacy request should not fail.",
+    );
+    assertEquals(
+      await friendingConcept._getOutgoingRequests({ user: userA }),
+      [],
+    );
+  } finally {
+    await client.close();
+  }
+});
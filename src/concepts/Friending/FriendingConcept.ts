@@ -7,14 +7,90 @@ const PREFIX = "Friending" + ".";
 // Generic types for the concept's external dependencies
 type User = ID;
 
+// --- Request Constants ---
+// How long a friend request waits for an answer before it expires, in seconds (default 30 days).
+const FRIEND_REQUEST_TTL = parseInt(
+  Deno.env.get("FRIEND_REQUEST_TTL") ?? `${30 * 24 * 60 * 60}`,
+  10,
+);
+// How long a user must wait to request someone who rejected them again, in seconds (default 7 days).
+const FRIEND_REQUEST_COOLDOWN = parseInt(
+  Deno.env.get("FRIEND_REQUEST_COOLDOWN") ?? `${7 * 24 * 60 * 60}`,
+  10,
+);
+// Longest friend request message, in characters.
+const FRIEND_REQUEST_MESSAGE_MAX_LENGTH = 200;
+// --- End Request Constants ---
+
+/**
+ * State: A friend request with the user it's for, the date it was sent, an optional message,
+ * and the date it expires if it isn't answered.
+ */
+export interface FriendRequest {
+  to: User;
+  createdAt: Date;
+  message: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * State: A rejection with the user who rejected a friend request,
+ * and the date the sender can request them again.
+ */
+export interface Rejection {
+  by: User;
+  until: Date;
+}
+
 /**
  * State: A set of Users with a set of friends,
- * outgoingRequests friend requests, and incoming friend requests.
+ * outgoingRequests friend requests, a set of blocked users, and rejections of their requests.
  */
 export interface UsersDoc {
   _id: User;
   friends: User[];
-  outgoingRequests: User[];
+  outgoingRequests: FriendRequest[];
+  blocked?: User[]; // missing for users added before blocking existed
+  rejectedBy?: Rejection[]; // missing for users added before rejections were recorded
+}
+
+/**
+ * A pending friend request as shown to its sender or recipient.
+ */
+export interface FriendRequestView {
+  friendId: User;
+  message: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Matches an unexpired friend request for a given user in a user's outgoingRequests.
+ */
+function pendingRequestFor(user: User) {
+  return { $elemMatch: { to: user, expiresAt: { $gt: new Date() } } };
+}
+
+/**
+ * Whether a friend request hasn't expired.
+ */
+function isPending(request: FriendRequest): boolean {
+  return request.expiresAt > new Date();
+}
+
+/**
+ * A friend request as shown to its sender or recipient, with the other user as friendId.
+ */
+function requestView(
+  friendId: User,
+  request: FriendRequest,
+): FriendRequestView {
+  return {
+    friendId,
+    message: request.message,
+    createdAt: request.createdAt,
+    expiresAt: request.expiresAt,
+  };
 }
 
 /**
@@ -24,6 +100,7 @@ export interface UsersDoc {
 export default class FriendingConcept {
   users: Collection<UsersDoc>;
   private readonly client: MongoClient; // store the MongoClient instance
+  private legacyRequestsMigration?: Promise<unknown>;
 
   constructor(private readonly db: Db, client: MongoClient) {
     this.client = client;
@@ -58,33 +135,105 @@ export default class FriendingConcept {
   }
 
   /**
-   * Action: Requests a new friend.
-   * @requires friend is not already in user's set of outgoingRequests
-   * or friends; user is not already in friend's set of outgoingRequests
-   * (if user and/or friend exist in  users); friend does not equal user
-   * @effects adds user and friend to users if not in users already;
-   * adds friend to user's set of outgoingRequests
+   * Converts friend requests stored as bare user IDs, from before requests had dates, into requests
+   * sent when they're converted, so they expire after the request TTL like new requests.
+   * Runs once, before the first action or query that reads requests.
+   */
+  private migrateLegacyRequests(): Promise<unknown> {
+    const now = new Date();
+    this.legacyRequestsMigration ??= this.users.updateMany(
+      { outgoingRequests: { $type: "string" } },
+      [{
+        $set: {
+          outgoingRequests: {
+            $map: {
+              input: "$outgoingRequests",
+              as: "request",
+              in: {
+                $cond: [
+                  { $eq: [{ $type: "$$request" }, "string"] },
+                  {
+                    to: "$$request",
+                    createdAt: now,
+                    message: null,
+                    expiresAt: new Date(
+                      now.getTime() + FRIEND_REQUEST_TTL * 1000,
+                    ),
+                  },
+                  "$$request",
+                ],
+              },
+            },
+          },
+        },
+      }],
+    );
+    return this.legacyRequestsMigration;
+  }
+
+  /**
+   * Action: Requests a new friend, optionally with a message.
+   * @requires friend is not already in user's unexpired outgoingRequests
+   * or friends; user is not already in friend's unexpired outgoingRequests
+   * (if user and/or friend exist in  users); friend does not equal user;
+   * neither user has blocked the other; friend hasn't rejected a request from user within the cooldown;
+   * message is no longer than the maximum length
+   * @effects adds user and friend to users if not in users already; removes their expired requests;
+   * adds a request for friend to user's outgoingRequests, with the current date, trimmed message (if not empty),
+   * and an expiry date the request TTL from now
    */
   async requestFriend(
-    { user, friend }: { user: User; friend: User },
+    { user, friend, message }: { user: User; friend: User; message?: string },
   ): Promise<Empty | { error: string }> {
+    await this.migrateLegacyRequests();
     if (user === friend) {
       return { error: `User cannot send friend request to theirself.` };
     }
+    const trimmed = String(message ?? "").trim();
+    if (trimmed.length > FRIEND_REQUEST_MESSAGE_MAX_LENGTH) {
+      return {
+        error:
+          `Friend request message can't be longer than ${FRIEND_REQUEST_MESSAGE_MAX_LENGTH} characters.`,
+      };
+    }
 
     return await this._runInTransaction(async (session) => {
       // add user & friend
       await this.users.updateOne(
         { _id: user },
-        { $setOnInsert: { _id: user, friends: [], outgoingRequests: [] } },
+        {
+          $setOnInsert: {
+            _id: user,
+            friends: [],
+            outgoingRequests: [],
+            blocked: [],
+            rejectedBy: [],
+          },
+        },
         { upsert: true, session },
       );
       await this.users.updateOne(
         { _id: friend },
-        { $setOnInsert: { _id: friend, friends: [], outgoingRequests: [] } },
+        {
+          $setOnInsert: {
+            _id: friend,
+            friends: [],
+            outgoingRequests: [],
+            blocked: [],
+            rejectedBy: [],
+          },
+        },
         { upsert: true, session },
       );
 
+      // forget both users' expired requests
+      const now = new Date();
+      await this.users.updateMany(
+        { _id: { $in: [user, friend] } },
+        { $pull: { outgoingRequests: { expiresAt: { $lte: now } } } },
+        { session },
+      );
+
       const userDoc = await this.users.findOne({ _id: user }, { session });
       const friendDoc = await this.users.findOne({ _id: friend }, { session });
 
@@ -94,25 +243,50 @@ export default class FriendingConcept {
         );
       }
 
-      // check friend logic
-      if (userDoc.friends.includes(friend)) {
+      // check friend logic; the same error whichever user blocked the other,
+      // so users can't tell they've been blocked
+      if (
+        userDoc.blocked?.includes(friend) || friendDoc.blocked?.includes(user)
+      ) {
+        throw new Error(
+          `User with ID ${user} can't send a friend request to ${friend}.`,
+        );
+      } else if (userDoc.friends.includes(friend)) {
         throw new Error(
           `User with ID ${user} is already friends with ${friend}.`,
         );
-      } else if (userDoc.outgoingRequests.includes(friend)) {
+      } else if (userDoc.outgoingRequests.some((r) => r.to === friend)) {
         throw new Error(
           `User with ID ${user} has already sent a friend request to ${friend}.`,
         );
-      } else if (friendDoc.outgoingRequests.includes(user)) {
+      } else if (friendDoc.outgoingRequests.some((r) => r.to === user)) {
         throw new Error(
           `User with ID ${friend} has already sent a friend request to ${user}.`,
         );
       }
+      const rejection = userDoc.rejectedBy?.find((r) =>
+        r.by === friend && r.until > now
+      );
+      if (rejection) {
+        throw new Error(
+          `User with ID ${user} can't send another friend request to ${friend} until ${rejection.until.toISOString()}.`,
+        );
+      }
 
-      // request friend; atomic update within transaction
+      // request friend, forgetting any past rejection; atomic update within transaction
       await this.users.updateOne(
         { _id: user },
-        { $push: { outgoingRequests: friend } },
+        {
+          $push: {
+            outgoingRequests: {
+              to: friend,
+              createdAt: now,
+              message: trimmed === "" ? null : trimmed,
+              expiresAt: new Date(now.getTime() + FRIEND_REQUEST_TTL * 1000),
+            },
+          },
+          $pull: { rejectedBy: { by: friend } },
+        },
         { session },
       );
 
@@ -122,17 +296,18 @@ export default class FriendingConcept {
 
   /**
    * Action: Cancels an outgoing friend request.
-   * @requires friend exists  in user's set of outgoingRequests
-   * @effects removes friend from user's set of outgoingRequests
+   * @requires a request for friend exists in user's unexpired outgoingRequests
+   * @effects removes the request for friend from user's outgoingRequests
    */
   async unrequestFriend(
     { user, friend }: { user: User; friend: User },
   ): Promise<Empty | { error: string }> {
+    await this.migrateLegacyRequests();
     // check and remove request atomically
     const result = await this.users
       .findOneAndUpdate(
-        { _id: user, outgoingRequests: friend },
-        { $pull: { outgoingRequests: friend } },
+        { _id: user, outgoingRequests: pendingRequestFor(friend) },
+        { $pull: { outgoingRequests: { to: friend } } },
         { returnDocument: "before" },
       );
 
@@ -149,19 +324,20 @@ export default class FriendingConcept {
 
   /**
    * Action: Accepts an incoming friend request.
-   * @requires user exists in friend's set of outgoingRequests
-   * @effects removes user from friend's set of outgoingRequests;
+   * @requires a request for user exists in friend's unexpired outgoingRequests
+   * @effects removes the request for user from friend's outgoingRequests;
    * adds friend to user's set of friends and adds user to friend's set of friends
    */
   async acceptFriend(
     { user, friend }: { user: User; friend: User },
   ): Promise<Empty | { error: string }> {
+    await this.migrateLegacyRequests();
     return await this._runInTransaction(async (session) => {
       // find user, ensure user has outgoing request from friend,
       // and atomically remove request
       const friendRequestPulled = await this.users.findOneAndUpdate(
-        { _id: friend, outgoingRequests: user },
-        { $pull: { outgoingRequests: user } },
+        { _id: friend, outgoingRequests: pendingRequestFor(user) },
+        { $pull: { outgoingRequests: { to: user } } },
         { returnDocument: "before", session },
       );
 
@@ -192,18 +368,24 @@ export default class FriendingConcept {
 
   /**
    * Action: Rejects an incoming friend request.
-   * @requires user exists in friend's set of outgoingRequests
-   * @effects removes user from friend's set of outgoingRequests
+   * @requires a request for user exists in friend's unexpired outgoingRequests
+   * @effects removes the request for user from friend's outgoingRequests;
+   * records that user rejected friend, who can't request user again until the cooldown passes
    */
   async rejectFriend(
     { user, friend }: { user: User; friend: User },
   ): Promise<Empty | { error: string }> {
+    await this.migrateLegacyRequests();
     // find user, ensure user has outgoing request from friend,
-    // and atomically remove request
+    // and atomically remove request and record the rejection
+    const until = new Date(Date.now() + FRIEND_REQUEST_COOLDOWN * 1000);
     const result = await this.users
       .findOneAndUpdate(
-        { _id: friend, outgoingRequests: user },
-        { $pull: { outgoingRequests: user } },
+        { _id: friend, outgoingRequests: pendingRequestFor(user) },
+        {
+          $pull: { outgoingRequests: { to: user } },
+          $push: { rejectedBy: { by: user, until } },
+        },
         { returnDocument: "before" },
       );
 
@@ -259,31 +441,171 @@ export default class FriendingConcept {
     });
   }
 
+  /**
+   * Action: Blocks another user.
+   * @requires target does not equal user, and is not already in user's set of blocked users
+   * @effects adds user and target to users if not in users already;
+   * ends any friendship between them and removes any friend requests between them in either direction;
+   * adds target to user's set of blocked users; returns the user
+   */
+  async block(
+    { user, target }: { user: User; target: User },
+  ): Promise<{ user: User } | { error: string }> {
+    await this.migrateLegacyRequests();
+    if (user === target) {
+      return { error: `User cannot block theirself.` };
+    }
+
+    return await this._runInTransaction(async (session) => {
+      // add user & target
+      for (const _id of [user, target]) {
+        await this.users.updateOne(
+          { _id },
+          {
+            $setOnInsert: {
+              _id,
+              friends: [],
+              outgoingRequests: [],
+              blocked: [],
+              rejectedBy: [],
+            },
+          },
+          { upsert: true, session },
+        );
+      }
+
+      // atomically block target, unless already blocked
+      const blocked = await this.users.updateOne(
+        { _id: user, blocked: { $ne: target } },
+        {
+          $push: { blocked: target },
+          $pull: { friends: target, outgoingRequests: { to: target } },
+        },
+        { session },
+      );
+      if (blocked.modifiedCount === 0) {
+        throw new Error(`User with ID ${user} has already blocked ${target}.`);
+      }
+
+      // atomically remove user from target's friends and outgoingRequests
+      await this.users.updateOne(
+        { _id: target },
+        { $pull: { friends: user, outgoingRequests: { to: user } } },
+        { session },
+      );
+
+      return { user };
+    });
+  }
+
+  /**
+   * Action: Unblocks a blocked user.
+   * @requires target exists in user's set of blocked users
+   * @effects removes target from user's set of blocked users; returns the user
+   */
+  async unblock(
+    { user, target }: { user: User; target: User },
+  ): Promise<{ user: User } | { error: string }> {
+    const result = await this.users.findOneAndUpdate(
+      { _id: user, blocked: target },
+      { $pull: { blocked: target } },
+    );
+
+    if (!result) {
+      return {
+        error: `User with ID ${user} hasn't blocked user with ID ${target}.`,
+      };
+    }
+
+    return { user };
+  }
+
+  /**
+   * Action: Removes a user from friending altogether.
+   * @effects removes user from every other user's friends, outgoingRequests, blocked users, and rejections,
+   * and removes user from users; returns how many friendships and unexpired friend requests
+   * (outgoing and incoming) were removed
+   */
+  async removeUser(
+    { user }: { user: User },
+  ): Promise<{ friends: number; requests: number } | { error: string }> {
+    await this.migrateLegacyRequests();
+    return await this._runInTransaction(async (session) => {
+      const userDoc = await this.users.findOne({ _id: user }, { session });
+
+      // atomically remove user from others' friends and outgoingRequests
+      const incoming = await this.users.countDocuments(
+        { outgoingRequests: pendingRequestFor(user) },
+        { session },
+      );
+      await this.users.updateMany(
+        {
+          $or: [
+            { friends: user },
+            { "outgoingRequests.to": user },
+            { blocked: user },
+            { "rejectedBy.by": user },
+          ],
+        },
+        {
+          $pull: {
+            friends: user,
+            outgoingRequests: { to: user },
+            blocked: user,
+            rejectedBy: { by: user },
+          },
+        },
+        { session },
+      );
+
+      // remove user
+      await this.users.deleteOne({ _id: user }, { session });
+
+      return {
+        friends: userDoc?.friends.length ?? 0,
+        requests: (userDoc?.outgoingRequests.filter(isPending).length ?? 0) +
+          incoming,
+      };
+    });
+  }
+
   /**
    * Query: Retrieves all users who have requested given user as a friend.
-   * @effects returns all users with given user in their outgoingRequests.
+   * @effects returns all users with an unexpired request for given user in their outgoingRequests,
+   * with the request's message, date, and expiry, oldest first.
    */
   async _getIncomingRequests(
     { user }: { user: User },
-  ): Promise<{ friendId: ID }[]> {
-    const friendDocs = await this.users.find({ outgoingRequests: user })
-      .toArray();
-    const friends = friendDocs.map((f) => ({ friendId: f._id }));
-    return friends;
+  ): Promise<FriendRequestView[]> {
+    await this.migrateLegacyRequests();
+    const friendDocs = await this.users.find({
+      outgoingRequests: pendingRequestFor(user),
+    }).toArray();
+    return friendDocs
+      .flatMap((f) =>
+        f.outgoingRequests
+          .filter((r) => r.to === user && isPending(r))
+          .map((r) => requestView(f._id, r))
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
   }
 
   /**
    * Query: Retrieves all friends that given user has an outgoing request for.
-   * @effects returns all friends in given user's outgoingRequests.
+   * @effects returns all friends with an unexpired request in given user's outgoingRequests,
+   * with the request's message, date, and expiry, oldest first.
    */
   async _getOutgoingRequests(
     { user }: { user: User },
-  ): Promise<{ friendId: ID }[]> {
+  ): Promise<FriendRequestView[]> {
+    await this.migrateLegacyRequests();
     const currUser = await this.users.findOne({ _id: user });
     if (currUser == null) {
       return [];
     }
-    return currUser.outgoingRequests.map((f) => ({ friendId: f }));
+    return currUser.outgoingRequests
+      .filter(isPending)
+      .map((r) => requestView(r.to, r));
   }
 
   /**
@@ -311,9 +633,81 @@ export default class FriendingConcept {
     if (currUser == null) {
       return [{ friendshipExists: false }];
     }
-    return [{
-      friendshipExists: friend in
-        currUser.friends.map((f) => ({ friendId: f })),
-    }];
+    return [{ friendshipExists: currUser.friends.includes(friend) }];
+  }
+
+  /**
+   * Query: Retrieves all users given user has blocked.
+   * @effects returns all users in given user's blocked users.
+   */
+  async _getBlocked(
+    { user }: { user: User },
+  ): Promise<{ blockedId: ID }[]> {
+    const currUser = await this.users.findOne({ _id: user });
+    return (currUser?.blocked ?? []).map((b) => ({ blockedId: b }));
+  }
+
+  /**
+   * Query: Retrieves all users who have blocked given user.
+   * @effects returns all users with given user in their blocked users.
+   */
+  async _getBlockers(
+    { user }: { user: User },
+  ): Promise<{ blockerId: ID }[]> {
+    const blockerDocs = await this.users.find({ blocked: user }).toArray();
+    return blockerDocs.map((b) => ({ blockerId: b._id }));
+  }
+
+  /**
+   * Query: Retrieves everyone given user already has a relationship with.
+   * @effects returns given user, their friends, users they have unexpired outgoing or incoming requests with,
+   * and users they've blocked or been blocked by.
+   */
+  async _getConnections(
+    { user }: { user: User },
+  ): Promise<{ users: User[] }[]> {
+    await this.migrateLegacyRequests();
+    const currUser = await this.users.findOne({ _id: user });
+    const others = await this.users.find({
+      $or: [{ outgoingRequests: pendingRequestFor(user) }, { blocked: user }],
+    }).toArray();
+    const connections = new Set<User>([
+      user,
+      ...currUser?.friends ?? [],
+      ...currUser?.outgoingRequests.filter(isPending).map((r) => r.to) ?? [],
+      ...currUser?.blocked ?? [],
+      ...others.map((o) => o._id),
+    ]);
+    return [{ users: [...connections] }];
+  }
+
+  /**
+   * Query: Retrieves the friends of given user's friends, with the friends they have in common.
+   * @effects returns each friend of one of given user's friends who isn't one of given user's
+   * connections, with given user's friends who are also their friends, most mutual friends first.
+   */
+  async _getFriendsOfFriends(
+    { user }: { user: User },
+  ): Promise<{ friendId: ID; mutualFriends: User[] }[]> {
+    const [{ users: connections }] = await this._getConnections({ user });
+    const friendDocs = await this.users.find({ friends: user }).toArray();
+
+    // walk each friend's friends, collecting who they're reached through
+    const mutualFriends = new Map<User, User[]>();
+    for (const friendDoc of friendDocs) {
+      for (const candidate of friendDoc.friends) {
+        if (connections.includes(candidate)) {
+          continue;
+        }
+        mutualFriends.set(candidate, [
+          ...mutualFriends.get(candidate) ?? [],
+          friendDoc._id,
+        ]);
+      }
+    }
+
+    return [...mutualFriends]
+      .map(([friendId, mutual]) => ({ friendId, mutualFriends: mutual }))
+      .sort((a, b) => b.mutualFriends.length - a.mutualFriends.length);
   }
 }
@@ -0,0 +1,151 @@
+import { assertEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import GazetteerConcept from "./GazetteerConcept.ts";
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: differently spelled places are converted to one canonical spelling.
+ */
+Deno.test("Test Case 1 - operational principle: differently spelled places are canonicalized identically", async () => {
+  const [db, client] = await testDb();
+  const gazetteerConcept = new GazetteerConcept(db);
+
+  try {
+    // 1. user enters abbreviations
+    const abbreviated = gazetteerConcept._canonicalize({
+      city: "NYC",
+      region: "NY",
+      country: "USA",
+    });
+
+    // 2. user enters full names with different case
+    const spelledOut = gazetteerConcept._canonicalize({
+      city: "new york",
+      region: "New York",
+      country: "united states",
+    });
+
+    assertEquals(abbreviated, [{
+      city: "New York City",
+      region: "New York",
+      country: "United States",
+    }]);
+    assertEquals(
+      spelledOut,
+      abbreviated,
+      "Both spellings should canonicalize to the same place.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates lookups by name, alias, ISO code, and accent-insensitive spelling.
+ */
+Deno.test("Test Case 2 - lookup countries and cities", async () => {
+  const [db, client] = await testDb();
+  const gazetteerConcept = new GazetteerConcept(db);
+
+  try {
+    // 1. look up country by alpha-2, alpha-3, and alias
+    for (const country of ["JP", "jpn", "Nippon"]) {
+      const [{ countryData }] = gazetteerConcept._lookupCountry({ country });
+      assertEquals(countryData.name, "Japan", `${country} should be Japan.`);
+    }
+
+    // 2. look up city without its accent
+    const [{ cityData }] = gazetteerConcept._lookupCity({
+      city: "Sao Paulo",
+      country: "Brazil",
+    });
+    assertEquals(cityData.name, "São Paulo");
+
+    // 3. look up unknown country and city in the wrong country
+    assertEquals(
+      gazetteerConcept._lookupCountry({ country: "Atlantis" }).length,
+      0,
+      "Unknown country should not be found.",
+    );
+    assertEquals(
+      gazetteerConcept._lookupCity({ city: "Tokyo", country: "France" })
+        .length,
+      0,
+      "City should not be found in another country.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates autocomplete with a prefix, a typo, and a limit.
+ */
+Deno.test("Test Case 3 - autocomplete prefix, typo, and limit", async () => {
+  const [db, client] = await testDb();
+  const gazetteerConcept = new GazetteerConcept(db);
+
+  try {
+    // 1. user types a prefix
+    const prefix = gazetteerConcept._autocomplete({ query: "Kyo" });
+    assertEquals(prefix[0].suggestion.city, "Kyoto");
+    assertEquals(prefix[0].suggestion.country, "Japan");
+    assertEquals(prefix[0].suggestion.countryCode, "JP");
+
+    // 2. user makes a typo
+    const typo = gazetteerConcept._autocomplete({ query: "Lisbn" });
+    assertEquals(
+      typo.some(({ suggestion }) => suggestion.city === "Lisbon"),
+      true,
+      "Lisbon should be suggested despite the typo.",
+    );
+
+    // 3. user limits suggestions
+    const limited = gazetteerConcept._autocomplete({ query: "San", limit: 2 });
+    assertEquals(limited.length, 2, "Suggestions should be limited.");
+
+    // 4. user types nothing
+    assertEquals(gazetteerConcept._autocomplete({ query: "  " }).length, 0);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 4
+ * Demonstrates canonicalizing an unknown city and an unknown country.
+ */
+Deno.test("Test Case 4 - canonicalize unknown city, unknown country", async () => {
+  const [db, client] = await testDb();
+  const gazetteerConcept = new GazetteerConcept(db);
+
+  try {
+    // 1. unknown city in a known country keeps its spelling
+    const unknownCity = gazetteerConcept._canonicalize({
+      city: " Small Town ",
+      region: "Vermont ",
+      country: "us",
+    });
+    assertEquals(unknownCity, [{
+      city: "Small Town",
+      region: "Vermont",
+      country: "United States",
+    }]);
+
+    // 2. place in an unknown country keeps its spelling
+    const unknownCountry = gazetteerConcept._canonicalize({
+      city: " Kathmandu",
+      region: "Bagmati ",
+      country: " Nepal ",
+    });
+    assertEquals(unknownCountry, [{
+      city: "Kathmandu",
+      region: "Bagmati",
+      country: "Nepal",
+    }]);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,281 @@
+import { Db } from "npm:mongodb";
+import bundledDataset from "./gazetteer.json" with { type: "json" };
+
+// --- Matching Constants ---
+// Number of suggestions returned by autocomplete when no limit is given.
+const DEFAULT_AUTOCOMPLETE_LIMIT = 10;
+// Shortest query for which a typo is tolerated in autocomplete.
+const MIN_FUZZY_QUERY_LENGTH = 4;
+// --- End Matching Constants ---
+
+/**
+ * A country in the gazetteer, with its ISO 3166 codes and approximate center.
+ */
+export interface CountryEntry {
+  code: string; // ISO 3166-1 alpha-2
+  code3: string; // ISO 3166-1 alpha-3
+  name: string;
+  aliases: string[];
+  lat: number;
+  lon: number;
+}
+
+/**
+ * A city in the gazetteer, with its region, country code, and coordinates.
+ */
+export interface CityEntry {
+  name: string;
+  region: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  aliases: string[];
+}
+
+/**
+ * State: A read-only set of Countries with a code, alpha-3 code, name, aliases, and coordinates,
+ * and a set of Cities with a name, region, country, coordinates, and aliases,
+ * loaded from a bundled offline dataset.
+ */
+export interface GazetteerDataset {
+  countries: CountryEntry[];
+  cities: CityEntry[];
+}
+
+/**
+ * A city suggested by autocomplete, with its country's canonical name.
+ */
+export interface PlaceSuggestion {
+  city: string;
+  region: string;
+  country: string;
+  countryCode: string;
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Normalizes a name for comparison: case, accents, punctuation,
+ * and repeated whitespace are ignored.
+ */
+function normalize(name: string): string {
+  return String(name ?? "")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * @concept Gazetteer
+ * @purpose To recognize places consistently, however users spell them.
+ */
+export default class GazetteerConcept {
+  private readonly countries: CountryEntry[];
+  private readonly cities: CityEntry[];
+  private readonly countriesByName: Map<string, CountryEntry> = new Map();
+
+  constructor(
+    _db: Db,
+    dataset: GazetteerDataset = bundledDataset as GazetteerDataset,
+  ) {
+    this.countries = dataset.countries;
+    this.cities = dataset.cities;
+    for (const country of this.countries) {
+      for (
+        const name of [
+          country.name,
+          country.code,
+          country.code3,
+          ...country.aliases,
+        ]
+      ) {
+        this.countriesByName.set(normalize(name), country);
+      }
+    }
+  }
+
+  /**
+   * Helper: Finds the country with a given name, alias, or ISO code.
+   */
+  private findCountry(country: string): CountryEntry | undefined {
+    return this.countriesByName.get(normalize(country));
+  }
+
+  /**
+   * Helper: Finds the city with a given name or alias in a country,
+   * preferring one in the given region if there are several.
+   */
+  private findCity(
+    city: string,
+    country: CountryEntry,
+    region?: string,
+  ): CityEntry | undefined {
+    const cityName = normalize(city);
+    const matches = this.cities.filter((c) =>
+      c.country === country.code &&
+      [c.name, ...c.aliases].some((name) => normalize(name) === cityName)
+    );
+    if (region !== undefined) {
+      const inRegion = matches.find((c) =>
+        normalize(c.region) === normalize(region)
+      );
+      if (inRegion) {
+        return inRegion;
+      }
+    }
+    return matches[0];
+  }
+
+  /**
+   * Helper: Scores how well a query matches a name (lower is better).
+   * @returns the score, or undefined if the name doesn't match
+   */
+  private matchScore(query: string, name: string): number | undefined {
+    const candidate = normalize(name);
+    if (candidate === query) {
+      return 0;
+    }
+    if (candidate.startsWith(query)) {
+      return 1;
+    }
+    if (candidate.split(" ").some((word) => word.startsWith(query))) {
+      return 2;
+    }
+    if (query.length >= MIN_FUZZY_QUERY_LENGTH) {
+      const distance = editDistance(
+        query,
+        candidate.slice(0, query.length),
+      );
+      const tolerance = query.length >= 8 ? 2 : 1;
+      if (distance <= tolerance) {
+        return 2 + distance;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Query: Looks up a country by name, alias, or ISO code.
+   * @effects returns the matching country, if any
+   */
+  _lookupCountry(
+    { country }: { country: string },
+  ): { countryData: CountryEntry }[] {
+    const found = this.findCountry(country);
+    return found ? [{ countryData: found }] : [];
+  }
+
+  /**
+   * Query: Looks up a city by name or alias within a country.
+   * @effects returns the matching city, if any
+   */
+  _lookupCity(
+    { city, country }: { city: string; country: string },
+  ): { cityData: CityEntry }[] {
+    const countryEntry = this.findCountry(country);
+    if (!countryEntry) {
+      return [];
+    }
+    const found = this.findCity(city, countryEntry);
+    return found ? [{ cityData: found }] : [];
+  }
+
+  /**
+   * Query: Suggests cities for a partially typed name, tolerating small typos.
+   * @effects returns up to limit cities whose name or alias matches the query,
+   * best matches first
+   */
+  _autocomplete(
+    { query, limit = DEFAULT_AUTOCOMPLETE_LIMIT }: {
+      query: string;
+      limit?: number;
+    },
+  ): { suggestion: PlaceSuggestion }[] {
+    const normalizedQuery = normalize(query);
+    if (normalizedQuery.length === 0) {
+      return [];
+    }
+
+    const scored: { city: CityEntry; score: number }[] = [];
+    for (const city of this.cities) {
+      const scores = [city.name, ...city.aliases]
+        .map((name) => this.matchScore(normalizedQuery, name))
+        .filter((score): score is number => score !== undefined);
+      if (scores.length > 0) {
+        scored.push({ city, score: Math.min(...scores) });
+      }
+    }
+
+    // stable sort keeps dataset order among equally good matches
+    scored.sort((a, b) => a.score - b.score);
+    return scored.slice(0, limit).map(({ city }) => ({
+      suggestion: {
+        city: city.name,
+        region: city.region,
+        country: this.findCountry(city.country)!.name,
+        countryCode: city.country,
+        lat: city.lat,
+        lon: city.lon,
+      },
+    }));
+  }
+
+  /**
+   * Query: Converts a place to its canonical spelling.
+   * @effects if the country is known, returns its canonical name, and if the city is known,
+   * returns its canonical name and region; otherwise returns the place as given
+   * (with surrounding whitespace removed)
+   */
+  _canonicalize(
+    { city, region, country }: {
+      city: string;
+      region: string;
+      country: string;
+    },
+  ): { city: string; region: string; country: string }[] {
+    const countryEntry = this.findCountry(country);
+    if (!countryEntry) {
+      return [{
+        city: String(city ?? "").trim(),
+        region: String(region ?? "").trim(),
+        country: String(country ?? "").trim(),
+      }];
+    }
+
+    const cityEntry = this.findCity(city, countryEntry, region);
+    if (!cityEntry) {
+      return [{
+        city: String(city ?? "").trim(),
+        region: String(region ?? "").trim(),
+        country: countryEntry.name,
+      }];
+    }
+    return [{
+      city: cityEntry.name,
+      region: cityEntry.region,
+      country: countryEntry.name,
+    }];
+  }
+}
@@ -0,0 +1,163 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import MediaStorageConcept, {
+  LocalDiskBlobStore,
+} from "./MediaStorageConcept.ts";
+
+const ownerA = "owner:Alice" as ID;
+const ownerB = "owner:Bob" as ID;
+const nonMedia = "media:nonMedia" as ID;
+
+const photo = {
+  filename: "beach.png",
+  contentType: "image/png",
+  data: new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+};
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user uploads an image, views it, and then deletes it.
+ */
+Deno.test("Test Case 1 - operational principle: user uploads, views, and then deletes an image", async () => {
+  const [db, client] = await testDb();
+  const dir = await Deno.makeTempDir();
+  const mediaConcept = new MediaStorageConcept(db, new LocalDiskBlobStore(dir));
+
+  try {
+    // 1. user uploads image
+    const upload = await mediaConcept.upload({ owner: ownerA, file: photo });
+    assertNotEquals("error" in upload, true, "Upload should not fail.");
+    const { media } = upload as { media: ID };
+    assertExists(media);
+
+    const [{ mediaData }] = await mediaConcept._getMediaById({ _id: media });
+    assertEquals(mediaData.owner, ownerA, "Owner not recorded.");
+    assertEquals(mediaData.size, photo.data.length, "Size not recorded.");
+
+    // 2. user views image
+    const content = await mediaConcept._getContent({ media });
+    assertEquals(content.length, 1, "Content should be found.");
+    assertEquals(content[0].contentType, "image/png");
+    assertEquals(content[0].content, btoa(String.fromCharCode(...photo.data)));
+
+    // 3. user deletes image
+    const deleteMedia = await mediaConcept.delete({ owner: ownerA, media });
+    assertEquals("error" in deleteMedia, false, "Delete should not fail.");
+
+    const after = await mediaConcept._getContent({ media });
+    assertEquals(after.length, 0, "Content should be gone.");
+  } finally {
+    await client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates invalid uploads: unsupported type and empty file.
+ */
+Deno.test("Test Case 2 - invalid uploads", async () => {
+  const [db, client] = await testDb();
+  const dir = await Deno.makeTempDir();
+  const mediaConcept = new MediaStorageConcept(db, new LocalDiskBlobStore(dir));
+
+  try {
+    // 1. user uploads non-image
+    const uploadText = await mediaConcept.upload({
+      owner: ownerA,
+      file: { ...photo, filename: "notes.txt", contentType: "text/plain" },
+    });
+    assertEquals(
+      "error" in uploadText,
+      true,
+      "Uploading a non-image should fail.",
+    );
+
+    // 2. user uploads empty image
+    const uploadEmpty = await mediaConcept.upload({
+      owner: ownerA,
+      file: { ...photo, data: new Uint8Array() },
+    });
+    assertEquals(
+      "error" in uploadEmpty,
+      true,
+      "Uploading an empty file should fail.",
+    );
+  } finally {
+    await client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates user tries to delete another user's media and nonexistent media.
+ */
+Deno.test("Test Case 3 - delete another user's media, nonexistent media", async () => {
+  const [db, client] = await testDb();
+  const dir = await Deno.makeTempDir();
+  const mediaConcept = new MediaStorageConcept(db, new LocalDiskBlobStore(dir));
+
+  try {
+    // 1. user A uploads image
+    const upload = await mediaConcept.upload({ owner: ownerA, file: photo });
+    const { media } = upload as { media: ID };
+
+    // 2. user B tries to delete it
+    const deleteB = await mediaConcept.delete({ owner: ownerB, media });
+    assertEquals(
+      "error" in deleteB,
+      true,
+      "Deleting another user's media should fail.",
+    );
+
+    const content = await mediaConcept._getContent({ media });
+    assertEquals(content.length, 1, "Content should still exist.");
+
+    // 3. user A tries to delete nonexistent media
+    const deleteNon = await mediaConcept.delete({
+      owner: ownerA,
+      media: nonMedia,
+    });
+    assertEquals(
+      "error" in deleteNon,
+      true,
+      "Deleting nonexistent media should fail.",
+    );
+  } finally {
+    await client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+/**
+ * Test Case 4
+ * Demonstrates deleting all of a user's media leaves other users' media.
+ */
+Deno.test("Test Case 4 - delete media by owner", async () => {
+  const [db, client] = await testDb();
+  const dir = await Deno.makeTempDir();
+  const mediaConcept = new MediaStorageConcept(db, new LocalDiskBlobStore(dir));
+
+  try {
+    const uploadA = await mediaConcept.upload({ owner: ownerA, file: photo });
+    const { media: mediaA } = uploadA as { media: ID };
+    await mediaConcept.upload({ owner: ownerA, file: photo });
+    const uploadB = await mediaConcept.upload({ owner: ownerB, file: photo });
+    const { media: mediaB } = uploadB as { media: ID };
+
+    // 1. user A's media is deleted
+    const deleteA = await mediaConcept.deleteByOwner({ owner: ownerA });
+    assertEquals(deleteA, { media: 2 });
+
+    const contentA = await mediaConcept._getContent({ media: mediaA });
+    assertEquals(contentA.length, 0, "User A's content should be deleted.");
+
+    const contentB = await mediaConcept._getContent({ media: mediaB });
+    assertEquals(contentB.length, 1, "User B's content should remain.");
+  } finally {
+    await client.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
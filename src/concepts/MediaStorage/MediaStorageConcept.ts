@@ -0,0 +1,225 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { Buffer } from "node:buffer";
+import * as path from "node:path";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "MediaStorage" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type Media = ID;
+
+// --- Storage Constants ---
+// Directory on local disk where uploaded files are written.
+const MEDIA_STORAGE_DIR = Deno.env.get("MEDIA_STORAGE_DIR") ?? "./uploads";
+// Largest accepted upload in bytes (default 10MB).
+const MEDIA_MAX_BYTES = parseInt(
+  Deno.env.get("MEDIA_MAX_BYTES") ?? `${10 * 1024 * 1024}`,
+  10,
+);
+// Content types accepted for upload.
+const ALLOWED_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+];
+// --- End Storage Constants ---
+
+/**
+ * An uploaded file as delivered by the Requesting server.
+ */
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+/**
+ * Pluggable backend for the raw bytes of each media item.
+ * The concept state only keeps metadata; the bytes live wherever the store puts them.
+ */
+export interface BlobStore {
+  put(key: string, data: Uint8Array): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Default blob store that writes each blob to a file in a local directory.
+ */
+export class LocalDiskBlobStore implements BlobStore {
+  constructor(private readonly dir: string = MEDIA_STORAGE_DIR) {}
+
+  async put(key: string, data: Uint8Array): Promise<void> {
+    await Deno.mkdir(this.dir, { recursive: true });
+    await Deno.writeFile(path.join(this.dir, key), data);
+  }
+
+  async get(key: string): Promise<Uint8Array | null> {
+    try {
+      return await Deno.readFile(path.join(this.dir, key));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await Deno.remove(path.join(this.dir, key));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * State: A set of Media with an owner, filename, content type, size, and upload date.
+ */
+export interface MediaDoc {
+  _id: Media;
+  owner: User;
+  filename: string;
+  contentType: string;
+  size: number;
+  uploadedAt: Date;
+}
+
+/**
+ * @concept MediaStorage
+ * @purpose To store images uploaded by users so they can be shown alongside their content.
+ */
+export default class MediaStorageConcept {
+  media: Collection<MediaDoc>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly store: BlobStore = new LocalDiskBlobStore(),
+  ) {
+    this.media = this.db.collection(PREFIX + "media");
+  }
+
+  /**
+   * Action: Uploads a new media file.
+   * @requires file is a non-empty image of an accepted type and within the size limit
+   * @effects stores the file's bytes and creates and returns a media item
+   * owned by the given user with the file's name, content type, and size
+   */
+  async upload(
+    { owner, file }: { owner: User; file: UploadedFile },
+  ): Promise<{ media: Media } | { error: string }> {
+    // check file contents
+    if (!file || !(file.data instanceof Uint8Array)) {
+      return { error: "No file was uploaded." };
+    }
+    if (!ALLOWED_CONTENT_TYPES.includes(file.contentType)) {
+      return {
+        error: `Unsupported content type ${file.contentType}.`,
+      };
+    }
+    if (file.data.length === 0 || file.data.length > MEDIA_MAX_BYTES) {
+      return {
+        error:
+          `File size must be between 1 and ${MEDIA_MAX_BYTES} bytes; got ${file.data.length}.`,
+      };
+    }
+
+    // store bytes, then record metadata
+    const newMediaId = freshID() as Media;
+    await this.store.put(newMediaId, file.data);
+    await this.media.insertOne({
+      _id: newMediaId,
+      owner,
+      filename: file.filename,
+      contentType: file.contentType,
+      size: file.data.length,
+      uploadedAt: new Date(),
+    });
+
+    return { media: newMediaId };
+  }
+
+  /**
+   * Action: Deletes a media item.
+   * @requires media exists and owner is its owner
+   * @effects removes the media item and its stored bytes
+   */
+  async delete(
+    { owner, media }: { owner: User; media: Media },
+  ): Promise<Empty | { error: string }> {
+    // check media exists
+    const currMedia = await this.media.findOne({ _id: media });
+    if (!currMedia) {
+      return { error: `Media with ID ${media} not found.` };
+    }
+
+    // check user is owner
+    if (currMedia.owner !== owner) {
+      return { error: "Cannot delete another user's media." };
+    }
+
+    // delete media
+    await this.media.deleteOne({ _id: media });
+    await this.store.delete(media);
+    return {};
+  }
+
+  /**
+   * Action: Deletes all of a user's media.
+   * @effects removes every media item owned by owner and their stored bytes;
+   * returns how many were removed
+   */
+  async deleteByOwner(
+    { owner }: { owner: User },
+  ): Promise<{ media: number }> {
+    const media = await this.media.find({ owner }).toArray();
+    for (const m of media) {
+      await this.store.delete(m._id);
+    }
+    await this.media.deleteMany({ owner });
+    return { media: media.length };
+  }
+
+  /**
+   * Query: Retrieves the media metadata for a given ID.
+   * @requires exists media with the given ID
+   * @effects returns the media with the given ID
+   */
+  async _getMediaById(
+    { _id }: { _id: ID },
+  ): Promise<{ mediaData: MediaDoc }[]> {
+    const media = await this.media.find({ _id }).toArray();
+    return media.map((m) => ({ mediaData: m }));
+  }
+
+  /**
+   * Query: Retrieves the contents of a media item.
+   * @requires exists media with the given ID whose bytes are stored
+   * @effects returns the base64-encoded contents and content type of the media
+   */
+  async _getContent(
+    { media }: { media: Media },
+  ): Promise<{ content: string; contentType: string }[]> {
+    const mediaDoc = await this.media.findOne({ _id: media });
+    if (!mediaDoc) {
+      return [];
+    }
+    const data = await this.store.get(media);
+    if (!data) {
+      return [];
+    }
+    return [{
+      content: Buffer.from(data).toString("base64"),
+      contentType: mediaDoc.contentType,
+    }];
+  }
+}
@@ -0,0 +1,120 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import OutboxConcept, {
+  MailTransport,
+  OutgoingMessage,
+} from "./OutboxConcept.ts";
+
+const alice = "alice@example.com";
+const bob = "bob@example.com";
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: messages are sent and kept in the outbox.
+ */
+Deno.test("Test Case 1 - operational principle: messages are sent and can be read back", async () => {
+  const [db, client] = await testDb();
+  const outboxConcept = new OutboxConcept(db);
+
+  try {
+    // 1. messages are sent to two addresses
+    const sendA = await outboxConcept.send({
+      to: alice,
+      subject: "Welcome",
+      body: "Welcome to Away!",
+    });
+    assertNotEquals("error" in sendA, true, "Sending should not fail.");
+    const { message } = sendA as { message: ID };
+    assertExists(message);
+    await outboxConcept.send({ to: bob, subject: "Hi", body: "Hi Bob." });
+
+    // 2. each address's messages can be read back
+    const messages = await outboxConcept._getMessages({ to: alice });
+    assertEquals(messages.length, 1, "Alice should have 1 message.");
+    const { messageData } = messages[0];
+    assertEquals(messageData._id, message);
+    assertEquals(messageData.body, "Welcome to Away!");
+    assertExists(messageData.deliveredAt, "Message should be delivered.");
+
+    // 3. messages without a recipient or subject are rejected
+    const noRecipient = await outboxConcept.send({
+      to: " ",
+      subject: "Hi",
+      body: "",
+    });
+    assertEquals("error" in noRecipient, true, "No recipient should fail.");
+
+    const noSubject = await outboxConcept.send({
+      to: alice,
+      subject: "",
+      body: "",
+    });
+    assertEquals("error" in noSubject, true, "No subject should fail.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates messages are handed to the transport, and failed deliveries are recorded.
+ */
+Deno.test("Test Case 2 - pluggable transport", async () => {
+  const [db, client] = await testDb();
+  const delivered: OutgoingMessage[] = [];
+  const transport: MailTransport = {
+    deliver(message) {
+      if (message.to === bob) {
+        return Promise.reject(new Error("Mailbox unavailable"));
+      }
+      delivered.push(message);
+      return Promise.resolve();
+    },
+  };
+  const outboxConcept = new OutboxConcept(db, transport);
+
+  try {
+    // 1. message is delivered by the transport
+    await outboxConcept.send({ to: alice, subject: "Hi", body: "Hi Alice." });
+    assertEquals(delivered, [{ to: alice, subject: "Hi", body: "Hi Alice." }]);
+
+    // 2. failed delivery is kept with its error
+    const sendB = await outboxConcept.send({
+      to: bob,
+      subject: "Hi",
+      body: "Hi Bob.",
+    });
+    const { message } = sendB as { message: ID };
+    const [{ messageData }] = await outboxConcept._getMessageById({
+      _id: message,
+    });
+    assertEquals(messageData.deliveredAt, null, "Should not be delivered.");
+    assertEquals(messageData.deliveryError, "Mailbox unavailable");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates removing the messages sent to an address leaves other addresses' messages.
+ */
+Deno.test("Test Case 3 - deleting messages by recipient", async () => {
+  const [db, client] = await testDb();
+  const outboxConcept = new OutboxConcept(db);
+
+  try {
+    await outboxConcept.send({ to: alice, subject: "Hi", body: "Hi Alice." });
+    await outboxConcept.send({ to: alice, subject: "Bye", body: "Bye Alice." });
+    await outboxConcept.send({ to: bob, subject: "Hi", body: "Hi Bob." });
+
+    assertEquals(await outboxConcept.deleteByRecipient({ to: alice }), {
+      messages: 2,
+    });
+    assertEquals(await outboxConcept._getMessages({ to: alice }), []);
+    assertEquals((await outboxConcept._getMessages({ to: bob })).length, 1);
+  } finally {
+    await client.close();
+  }
+});
@@ -0,0 +1,147 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Outbox" + ".";
+
+// Internal entity types, represented as IDs
+type Message = ID;
+
+/**
+ * An outgoing message as handed to a transport.
+ */
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Pluggable transport that delivers each message, e.g. over SMTP or a mail API.
+ * The concept state keeps a copy of every message regardless of the transport.
+ */
+export interface MailTransport {
+  deliver(message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * Default transport that delivers nothing; messages are only kept in the outbox,
+ * where they can be read back without a mail server.
+ */
+export class LocalMailTransport implements MailTransport {
+  async deliver(_message: OutgoingMessage): Promise<void> {}
+}
+
+/**
+ * State: A set of Messages with a recipient address, a subject, a body, the date it was queued,
+ * the date it was delivered (if it was), and the delivery error (if delivery failed).
+ */
+export interface MessageDoc {
+  _id: Message;
+  to: string;
+  subject: string;
+  body: string;
+  queuedAt: Date;
+  deliveredAt: Date | null;
+  deliveryError: string | null;
+}
+
+/**
+ * @concept Outbox
+ * @purpose To send messages to users outside of the app, keeping a record of each one.
+ */
+export default class OutboxConcept {
+  messages: Collection<MessageDoc>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly transport: MailTransport = new LocalMailTransport(),
+  ) {
+    this.messages = this.db.collection(PREFIX + "messages");
+  }
+
+  /**
+   * Action: Sends a message.
+   * @requires to is a non-empty address; subject is non-empty
+   * @effects records the message and hands it to the transport, recording when it was delivered
+   * or why delivery failed; returns the message
+   */
+  async send(
+    { to, subject, body }: { to: string; subject: string; body: string },
+  ): Promise<{ message: Message } | { error: string }> {
+    // check message fields
+    if (!String(to ?? "").trim()) {
+      return { error: "Message must have a recipient." };
+    }
+    if (!String(subject ?? "").trim()) {
+      return { error: "Message must have a subject." };
+    }
+
+    // record message before delivering it
+    const newMessageId = freshID() as Message;
+    await this.messages.insertOne({
+      _id: newMessageId,
+      to: to.trim(),
+      subject,
+      body,
+      queuedAt: new Date(),
+      deliveredAt: null,
+      deliveryError: null,
+    });
+
+    try {
+      await this.transport.deliver({ to: to.trim(), subject, body });
+      await this.messages.updateOne({ _id: newMessageId }, {
+        $set: { deliveredAt: new Date() },
+      });
+    } catch (error) {
+      await this.messages.updateOne({ _id: newMessageId }, {
+        $set: {
+          deliveryError: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+
+    return { message: newMessageId };
+  }
+
+  /**
+   * Action: Removes the messages sent to an address, such as when its user deletes their account.
+   * @effects removes all messages with the given recipient; returns how many were removed
+   */
+  async deleteByRecipient(
+    { to }: { to: string },
+  ): Promise<{ messages: number }> {
+    if (!to) {
+      return { messages: 0 };
+    }
+    const result = await this.messages.deleteMany({ to });
+    return { messages: result.deletedCount };
+  }
+
+  /**
+   * Query: Retrieves the messages sent to an address, most recent first.
+   * @effects returns all messages with the given recipient in order of queued date, most recent first
+   */
+  async _getMessages(
+    { to }: { to: string },
+  ): Promise<{ messageData: MessageDoc }[]> {
+    const messages = await this.messages.find({ to })
+      .sort({ queuedAt: -1 })
+      .toArray();
+    return messages.map((m) => ({ messageData: m }));
+  }
+
+  /**
+   * Query: Retrieves the message for a given ID.
+   * @requires exists message with the given ID
+   * @effects returns the message with the given ID
+   */
+  async _getMessageById(
+    { _id }: { _id: ID },
+  ): Promise<{ messageData: MessageDoc }[]> {
+    const message = await this.messages.find({ _id }).toArray();
+    return message.map((m) => ({ messageData: m }));
+  }
+}
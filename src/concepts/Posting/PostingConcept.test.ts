@@ -1,7 +1,7 @@
 import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
 import { testDb } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
-import PostingConcept from "./PostingConcept.ts";
+import PostingConcept, { Visibility } from "./PostingConcept.ts";
 
 const creatorA = "creator:Alice" as ID;
 const creatorB = "creator:Bob" as ID;
@@ -437,3 +437,880 @@ Deno.test("Test Case 6 - posts invalid dates", async () => {
     await client.close();
   }
 });
+
+/**
+ * Test Case 7
+ * Demonstrates user attaches, captions, reorders, and detaches gallery images;
+ * another user tries to edit the gallery.
+ */
+Deno.test("Test Case 7 - post gallery", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+  const photo1 = "media:photo1" as ID;
+  const photo2 = "media:photo2" as ID;
+
+  try {
+    const makePost = await postingConcept.create({
+      creator: creatorA,
+      title: "Newport Trip",
+      city: "Newport",
+      region: "Rhode Island",
+      country: "United States",
+      start: new Date(2025, 9, 14),
+      end: new Date(2025, 9, 14),
+      description: "Class of 2027 trip to Newport, RI!",
+    });
+    const { post } = makePost as { post: ID };
+
+    // 1. creator attaches images
+    await postingConcept.attachMedia({ user: creatorA, post, media: photo1 });
+    const attach2 = await postingConcept.attachMedia({
+      user: creatorA,
+      post,
+      media: photo2,
+    });
+    assertNotEquals("error" in attach2, true, "Attaching should not fail.");
+
+    const attachAgain = await postingConcept.attachMedia({
+      user: creatorA,
+      post,
+      media: photo1,
+    });
+    assertEquals(
+      "error" in attachAgain,
+      true,
+      "Attaching the same image twice should fail.",
+    );
+
+    // 2. creator captions image
+    const caption = await postingConcept.captionMedia({
+      user: creatorA,
+      post,
+      media: photo2,
+      caption: "Cliff Walk",
+    });
+    assertNotEquals("error" in caption, true, "Captioning should not fail.");
+
+    // 3. creator reorders images
+    const reorder = await postingConcept.reorderMedia({
+      user: creatorA,
+      post,
+      order: [photo2, photo1],
+    });
+    assertNotEquals("error" in reorder, true, "Reordering should not fail.");
+
+    let [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(postData.gallery, [
+      { media: photo2, caption: "Cliff Walk" },
+      { media: photo1, caption: "" },
+    ]);
+
+    const badReorder = await postingConcept.reorderMedia({
+      user: creatorA,
+      post,
+      order: [photo2],
+    });
+    assertEquals(
+      "error" in badReorder,
+      true,
+      "Reordering with missing images should fail.",
+    );
+
+    // 4. another user tries to edit the gallery
+    const detachB = await postingConcept.detachMedia({
+      user: creatorB,
+      post,
+      media: photo1,
+    });
+    assertEquals(
+      "error" in detachB,
+      true,
+      "Detaching from another user's post should fail.",
+    );
+
+    // 5. creator detaches image
+    const detach = await postingConcept.detachMedia({
+      user: creatorA,
+      post,
+      media: photo1,
+    });
+    assertNotEquals("error" in detach, true, "Detaching should not fail.");
+
+    [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(postData.gallery, [{ media: photo2, caption: "Cliff Walk" }]);
+
+    const withPhoto1 = await postingConcept._getPostsWithMedia({
+      media: photo1,
+    });
+    assertEquals(withPhoto1.length, 0, "No post should contain the image.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 8
+ * Demonstrates user changes post visibility; posts are retrieved by visibility;
+ * invalid visibility and another user's post are rejected.
+ */
+Deno.test("Test Case 8 - post visibility", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+
+  try {
+    const makePost1 = await postingConcept.create({
+      creator: creatorA,
+      title: "Newport Trip",
+      city: "Newport",
+      region: "Rhode Island",
+      country: "United States",
+      start: new Date(2025, 9, 14),
+      end: new Date(2025, 9, 14),
+      description: "Class of 2027 trip to Newport, RI!",
+    });
+    const { post: post1 } = makePost1 as { post: ID };
+
+    const makePost2 = await postingConcept.create({
+      creator: creatorA,
+      title: "Weekend Vacation",
+      city: "New York",
+      region: "New York",
+      country: "United States",
+      start: new Date(2025, 5, 12),
+      end: new Date(2025, 5, 14),
+      description: "Fun escape to NYC!",
+    });
+    const { post: post2 } = makePost2 as { post: ID };
+
+    // 1. new posts are visible to friends
+    const [{ postData }] = await postingConcept._getPostById({ _id: post1 });
+    assertEquals(postData.visibility, "friends", "Default should be friends.");
+
+    // 2. creator makes one post public and the other private
+    const makePublic = await postingConcept.setVisibility({
+      user: creatorA,
+      post: post1,
+      visibility: "public",
+    });
+    assertNotEquals(
+      "error" in makePublic,
+      true,
+      "Setting visibility should not fail.",
+    );
+    await postingConcept.setVisibility({
+      user: creatorA,
+      post: post2,
+      visibility: "private",
+    });
+
+    const publicPosts = await postingConcept._getPostsWithVisibility({
+      user: creatorA,
+      visibility: ["public"],
+    });
+    assertEquals(publicPosts, [{ post: post1 }], "Only post 1 is public.");
+
+    const friendPosts = await postingConcept._getPostsWithVisibility({
+      user: creatorA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(friendPosts, [{ post: post1 }], "Post 2 is private.");
+
+    // 3. invalid visibility and another user's post are rejected
+    const invalid = await postingConcept.setVisibility({
+      user: creatorA,
+      post: post1,
+      visibility: "everyone" as "public",
+    });
+    assertEquals("error" in invalid, true, "Invalid visibility should fail.");
+
+    const otherUser = await postingConcept.setVisibility({
+      user: creatorB,
+      post: post1,
+      visibility: "private",
+    });
+    assertEquals(
+      "error" in otherUser,
+      true,
+      "Changing another user's post visibility should fail.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 9
+ * Demonstrates user builds a multi-stop itinerary: adds, edits, reorders, and removes stops;
+ * stops outside the trip or overlapping each other are rejected; editPlace only works on single-stop posts.
+ */
+Deno.test("Test Case 9 - multi-stop itineraries", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+
+  try {
+    const makePost = await postingConcept.create({
+      creator: creatorA,
+      title: "Italy Trip",
+      city: "Rome",
+      region: "Lazio",
+      country: "Italy",
+      start: new Date(2025, 5, 1),
+      end: new Date(2025, 5, 10),
+      description: "Two weeks in Italy!",
+    });
+    const { post } = makePost as { post: ID };
+
+    let [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(postData.stops.length, 1, "Post should have 1 stop.");
+    const rome = postData.stops[0]._id;
+
+    // 1. single-stop post: editPlace and editDates update the stop
+    await postingConcept.editDates({
+      user: creatorA,
+      post,
+      start: new Date(2025, 5, 1),
+      end: new Date(2025, 5, 14),
+    });
+    [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(postData.stops[0].end, new Date(2025, 5, 14));
+
+    // 2. creator narrows Rome and adds Florence and Venice
+    const editRome = await postingConcept.editStop({
+      user: creatorA,
+      post,
+      stop: rome,
+      city: "Rome",
+      region: "Lazio",
+      country: "Italy",
+      start: new Date(2025, 5, 1),
+      end: new Date(2025, 5, 5),
+    });
+    assertNotEquals("error" in editRome, true, "Editing stop should not fail.");
+
+    const addFlorence = await postingConcept.addStop({
+      user: creatorA,
+      post,
+      city: "Florence",
+      region: "Tuscany",
+      country: "Italy",
+      start: new Date(2025, 5, 5),
+      end: new Date(2025, 5, 9),
+    });
+    assertNotEquals(
+      "error" in addFlorence,
+      true,
+      "Adding stop should not fail.",
+    );
+    const { stop: florence } = addFlorence as { stop: ID };
+
+    const addVenice = await postingConcept.addStop({
+      user: creatorA,
+      post,
+      city: "Venice",
+      region: "Veneto",
+      country: "Italy",
+      start: new Date(2025, 5, 10),
+      end: new Date(2025, 5, 14),
+    });
+    const { stop: venice } = addVenice as { stop: ID };
+
+    // 3. overlapping and out-of-trip stops are rejected
+    const overlapping = await postingConcept.addStop({
+      user: creatorA,
+      post,
+      city: "Pisa",
+      region: "Tuscany",
+      country: "Italy",
+      start: new Date(2025, 5, 7),
+      end: new Date(2025, 5, 8),
+    });
+    assertEquals(
+      "error" in overlapping,
+      true,
+      "Overlapping stop should fail.",
+    );
+
+    const outside = await postingConcept.addStop({
+      user: creatorA,
+      post,
+      city: "Milan",
+      region: "Lombardy",
+      country: "Italy",
+      start: new Date(2025, 5, 14),
+      end: new Date(2025, 5, 16),
+    });
+    assertEquals(
+      "error" in outside,
+      true,
+      "Stop outside the trip's dates should fail.",
+    );
+
+    // 4. editPlace no longer applies to a multi-stop post
+    const editPlace = await postingConcept.editPlace({
+      user: creatorA,
+      post,
+      city: "Naples",
+      region: "Campania",
+      country: "Italy",
+    });
+    assertEquals(
+      "error" in editPlace,
+      true,
+      "Editing place of multi-stop post should fail.",
+    );
+
+    // 5. creator reorders and removes stops
+    await postingConcept.reorderStops({
+      user: creatorA,
+      post,
+      order: [venice, florence, rome],
+    });
+    [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(
+      postData.stops.map((s) => s.city),
+      ["Venice", "Florence", "Rome"],
+    );
+    assertEquals(postData.city, "Venice", "Post place follows first stop.");
+
+    await postingConcept.removeStop({ user: creatorA, post, stop: venice });
+    await postingConcept.removeStop({ user: creatorA, post, stop: florence });
+    const removeLast = await postingConcept.removeStop({
+      user: creatorA,
+      post,
+      stop: rome,
+    });
+    assertEquals(
+      "error" in removeLast,
+      true,
+      "Removing a post's only stop should fail.",
+    );
+
+    [{ postData }] = await postingConcept._getPostById({ _id: post });
+    assertEquals(postData.city, "Rome", "Post place follows remaining stop.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 10
+ * Demonstrates travel statistics: places visited, days travelled with overlapping trips,
+ * and trip highlights, limited by visibility.
+ */
+Deno.test("Test Case 10 - travel statistics", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+  const allVisibilities: Visibility[] = ["private", "friends", "public"];
+
+  try {
+    // 1. user with no posts has empty statistics
+    const [emptyPlaces] = await postingConcept._getPlacesVisited({
+      user: creatorB,
+      visibility: allVisibilities,
+    });
+    assertEquals(emptyPlaces.countries.length, 0, "No countries visited.");
+    const [emptyDays] = await postingConcept._getDaysTravelled({
+      user: creatorB,
+      visibility: allVisibilities,
+    });
+    assertEquals(emptyDays.totalDays, 0, "No days travelled.");
+    const [emptyHighlights] = await postingConcept._getTripHighlights({
+      user: creatorB,
+      visibility: allVisibilities,
+    });
+    assertEquals(emptyHighlights.longestTrip, null, "No longest trip.");
+
+    // 2. creator makes overlapping trips across new year and a private trip
+    const makeRome = await postingConcept.create({
+      creator: creatorA,
+      title: "New Year in Rome",
+      city: "Rome",
+      region: "Lazio",
+      country: "Italy",
+      start: new Date(Date.UTC(2024, 11, 30)),
+      end: new Date(Date.UTC(2025, 0, 2)),
+      description: "Fireworks over the Colosseum!",
+    });
+    const { post: rome } = makeRome as { post: ID };
+
+    const makeFlorence = await postingConcept.create({
+      creator: creatorA,
+      title: "Florence",
+      city: "Florence",
+      region: "Tuscany",
+      country: "Italy",
+      start: new Date(Date.UTC(2025, 0, 2)),
+      end: new Date(Date.UTC(2025, 0, 5)),
+      description: "Train up from Rome.",
+    });
+    const { post: florence } = makeFlorence as { post: ID };
+
+    const makeBoston = await postingConcept.create({
+      creator: creatorA,
+      title: "Boston Internship Hunt",
+      city: "Boston",
+      region: "Massachusetts",
+      country: "United States",
+      start: new Date(Date.UTC(2025, 5, 1)),
+      end: new Date(Date.UTC(2025, 5, 10)),
+      description: "Lots of coffee chats.",
+    });
+    const { post: boston } = makeBoston as { post: ID };
+    await postingConcept.setVisibility({
+      user: creatorA,
+      post: boston,
+      visibility: "private",
+    });
+
+    // 3. creator sees statistics over all posts
+    const [places] = await postingConcept._getPlacesVisited({
+      user: creatorA,
+      visibility: allVisibilities,
+    });
+    assertEquals(places.countries, ["Italy", "United States"]);
+    assertEquals(places.regions.length, 3, "Three regions visited.");
+    assertEquals(
+      places.cities.map((c) => c.city),
+      ["Rome", "Florence", "Boston"],
+    );
+
+    const [days] = await postingConcept._getDaysTravelled({
+      user: creatorA,
+      visibility: allVisibilities,
+    });
+    assertEquals(days.totalDays, 17, "Shared day should be counted once.");
+    assertEquals(days.daysByYear, [
+      { year: 2024, days: 2 },
+      { year: 2025, days: 15 },
+    ]);
+
+    const [highlights] = await postingConcept._getTripHighlights({
+      user: creatorA,
+      visibility: allVisibilities,
+    });
+    assertEquals(highlights.longestTrip?.post, boston);
+    assertEquals(highlights.longestTrip?.days, 10);
+    assertEquals(highlights.firstTrip?.post, rome);
+    assertEquals(highlights.mostRecentTrip?.post, boston);
+
+    // 4. friends' view leaves out the private post
+    const [friendPlaces] = await postingConcept._getPlacesVisited({
+      user: creatorA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(friendPlaces.countries, ["Italy"]);
+
+    const [friendDays] = await postingConcept._getDaysTravelled({
+      user: creatorA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(friendDays.totalDays, 7);
+
+    const [friendHighlights] = await postingConcept._getTripHighlights({
+      user: creatorA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(
+      friendHighlights.longestTrip?.post,
+      rome,
+      "Earliest of equally long trips should be longest.",
+    );
+    assertEquals(friendHighlights.mostRecentTrip?.post, florence);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 11
+ * Demonstrates trip statuses: user plans an upcoming trip and records an ongoing one,
+ * dates are validated per status, and a planned trip is completed once its dates pass.
+ */
+Deno.test("Test Case 11 - trip statuses", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+  const day = 24 * 60 * 60 * 1000;
+  const fromNow = (days: number) => new Date(Date.now() + days * day);
+
+  try {
+    // 1. user plans an upcoming trip
+    const makePlanned = await postingConcept.create({
+      creator: creatorA,
+      title: "Spring Break",
+      city: "Lisbon",
+      region: "Lisbon",
+      country: "Portugal",
+      start: fromNow(10),
+      end: fromNow(14),
+      description: "Pastéis de nata!",
+      status: "planned",
+    });
+    assertNotEquals(
+      "error" in makePlanned,
+      true,
+      "Planning a future trip should not fail.",
+    );
+    const { post: planned } = makePlanned as { post: ID };
+
+    const upcoming = await postingConcept._getUpcomingPosts({ user: creatorA });
+    assertEquals(upcoming, [{ post: planned }]);
+    const past = await postingConcept._getPosts({ user: creatorA });
+    assertEquals(past.length, 0, "Planned trips shouldn't be in past trips.");
+
+    // 2. planned trips must start in the future
+    const plannedInPast = await postingConcept.create({
+      creator: creatorA,
+      title: "Last Summer",
+      city: "Boston",
+      region: "Massachusetts",
+      country: "United States",
+      start: fromNow(-30),
+      end: fromNow(-25),
+      description: "",
+      status: "planned",
+    });
+    assertEquals(
+      "error" in plannedInPast,
+      true,
+      "Planning a trip in the past should fail.",
+    );
+
+    const editIntoPast = await postingConcept.editDates({
+      user: creatorA,
+      post: planned,
+      start: fromNow(-3),
+      end: fromNow(-1),
+    });
+    assertEquals(
+      "error" in editIntoPast,
+      true,
+      "Moving a planned trip into the past should fail.",
+    );
+
+    // 3. user records an ongoing trip
+    const makeOngoing = await postingConcept.create({
+      creator: creatorA,
+      title: "Semester Abroad",
+      city: "London",
+      region: "England",
+      country: "United Kingdom",
+      start: fromNow(-20),
+      end: fromNow(60),
+      description: "Studying at UCL.",
+      status: "ongoing",
+    });
+    assertNotEquals(
+      "error" in makeOngoing,
+      true,
+      "Recording an ongoing trip should not fail.",
+    );
+
+    const ongoingInFuture = await postingConcept.create({
+      creator: creatorA,
+      title: "Semester Abroad",
+      city: "London",
+      region: "England",
+      country: "United Kingdom",
+      start: fromNow(20),
+      end: fromNow(60),
+      description: "Studying at UCL.",
+      status: "ongoing",
+    });
+    assertEquals(
+      "error" in ongoingInFuture,
+      true,
+      "Ongoing trip that hasn't started should fail.",
+    );
+
+    // 4. status must fit the trip's dates
+    const completePlanned = await postingConcept.setStatus({
+      user: creatorA,
+      post: planned,
+      status: "completed",
+    });
+    assertEquals(
+      "error" in completePlanned,
+      true,
+      "Completing a trip that hasn't happened should fail.",
+    );
+
+    // 5. planned trip is completed once its dates pass
+    await postingConcept.posts.updateOne({ _id: planned }, {
+      $set: { start: fromNow(-14), end: fromNow(-10) },
+    });
+    const upcomingAfter = await postingConcept._getUpcomingPosts({
+      user: creatorA,
+    });
+    assertEquals(upcomingAfter.length, 0, "Trip should no longer be upcoming.");
+
+    const [{ postData }] = await postingConcept._getPostById({ _id: planned });
+    assertEquals(postData.status, "completed", "Trip should be completed.");
+    const pastAfter = await postingConcept._getPosts({ user: creatorA });
+    assertEquals(pastAfter.length, 2, "Ongoing and completed trips listed.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 12
+ * Demonstrates activity across users: created and edited posts are listed newest first,
+ * private posts are left out, a cursor continues where the previous page ended,
+ * and posts from before posts were timestamped are still listed.
+ */
+Deno.test("Test Case 12 - post activity", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  try {
+    const makePost1 = await postingConcept.create({
+      creator: creatorA,
+      title: "Spring Break",
+      city: "Newport",
+      region: "Rhode Island",
+      country: "United States",
+      start: new Date("2024-03-16"),
+      end: new Date("2024-03-20"),
+      description: "Cliff Walk!",
+    });
+    const { post: post1 } = makePost1 as { post: ID };
+    await tick();
+
+    const makePost2 = await postingConcept.create({
+      creator: creatorB,
+      title: "Summer Vacation",
+      city: "Kyoto",
+      region: "Kyoto",
+      country: "Japan",
+      start: new Date("2024-07-01"),
+      end: new Date("2024-07-10"),
+      description: "Temples.",
+    });
+    const { post: post2 } = makePost2 as { post: ID };
+    await tick();
+
+    const makePost3 = await postingConcept.create({
+      creator: creatorB,
+      title: "Diary",
+      city: "Boston",
+      region: "Massachusetts",
+      country: "United States",
+      start: new Date("2024-09-01"),
+      end: new Date("2024-09-02"),
+      description: "Just for me.",
+    });
+    const { post: post3 } = makePost3 as { post: ID };
+    await postingConcept.setVisibility({
+      user: creatorB,
+      post: post3,
+      visibility: "private",
+    });
+    await tick();
+
+    // 1. user A edits their post, bringing it to the top
+    await postingConcept.editTitle({
+      user: creatorA,
+      post: post1,
+      title: "Spring Break 2024",
+    });
+
+    const activity = await postingConcept._getActivity({
+      users: [creatorA, creatorB],
+      visibility: ["friends", "public"],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(
+      activity.map(({ post, activity }) => ({ post, activity })),
+      [
+        { post: post1, activity: "edited" },
+        { post: post2, activity: "created" },
+      ],
+      "Private post should be left out.",
+    );
+
+    // 2. a cursor picks up after the last post of the previous page
+    const [first] = await postingConcept._getActivity({
+      users: [creatorA, creatorB],
+      visibility: ["friends", "public"],
+      before: null,
+      limit: 1,
+    });
+    assertEquals(first.post, post1);
+    const next = await postingConcept._getActivity({
+      users: [creatorA, creatorB],
+      visibility: ["friends", "public"],
+      before: { at: first.at, id: first.post },
+      limit: 1,
+    });
+    assertEquals(next.map((a) => a.post), [post2]);
+
+    // 3. only the given users' posts are listed
+    const onlyA = await postingConcept._getActivity({
+      users: [creatorA],
+      visibility: ["friends", "public"],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(onlyA.map((a) => a.post), [post1]);
+
+    // 4. making a post visible brings it to the top
+    await tick();
+    await postingConcept.setVisibility({
+      user: creatorB,
+      post: post3,
+      visibility: "friends",
+    });
+    const [latest] = await postingConcept._getActivity({
+      users: [creatorA, creatorB],
+      visibility: ["friends", "public"],
+      before: null,
+      limit: 1,
+    });
+    assertEquals(latest.post, post3);
+    assertEquals(latest.activity, "edited");
+
+    // 5. posts from before posts were timestamped are listed by when they were created
+    await postingConcept.posts.updateOne({ _id: post2 }, {
+      $unset: { createdAt: "", updatedAt: "" },
+    });
+    const legacy = await new PostingConcept(db)._getActivity({
+      users: [creatorB],
+      visibility: ["friends", "public"],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(legacy.map(({ post, activity }) => ({ post, activity })), [
+      { post: post3, activity: "edited" },
+      { post: post2, activity: "created" },
+    ]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 13
+ * Demonstrates deleting all of a user's posts leaves other users' posts.
+ */
+Deno.test("Test Case 13 - delete posts by creator", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+
+  try {
+    const makePost1 = await postingConcept.create({
+      creator: creatorA,
+      title: "Spring Break",
+      city: "Newport",
+      region: "Rhode Island",
+      country: "United States",
+      start: new Date("2024-03-16"),
+      end: new Date("2024-03-20"),
+      description: "Cliff Walk!",
+    });
+    const { post: post1 } = makePost1 as { post: ID };
+
+    await postingConcept.create({
+      creator: creatorB,
+      title: "Summer Vacation",
+      city: "Kyoto",
+      region: "Kyoto",
+      country: "Japan",
+      start: new Date("2024-07-01"),
+      end: new Date("2024-07-10"),
+      description: "Temples.",
+    });
+
+    // 1. user A's posts are deleted
+    const deleteA = await postingConcept.deleteByCreator({ creator: creatorA });
+    assertEquals(deleteA, { posts: [post1] });
+
+    const postsA = await postingConcept._getPosts({ user: creatorA });
+    assertEquals(postsA.length, 0, "User A's posts should be deleted.");
+
+    const postsB = await postingConcept._getPosts({ user: creatorB });
+    assertEquals(postsB.length, 1, "User B's posts should remain.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 14
+ * Demonstrates finding the creators who have visited given countries on visible trips.
+ */
+Deno.test("Test Case 14 - visitors of countries", async () => {
+  const [db, client] = await testDb();
+  const postingConcept = new PostingConcept(db);
+
+  try {
+    const makeKyoto = await postingConcept.create({
+      creator: creatorA,
+      title: "Temples",
+      city: "Kyoto",
+      region: "Kansai",
+      country: "Japan",
+      start: new Date(Date.UTC(2024, 3, 1)),
+      end: new Date(Date.UTC(2024, 3, 8)),
+      description: "Cherry blossom season.",
+    });
+    const { post: kyoto } = makeKyoto as { post: ID };
+    await postingConcept.setVisibility({
+      user: creatorA,
+      post: kyoto,
+      visibility: "public",
+    });
+
+    const makeCusco = await postingConcept.create({
+      creator: creatorB,
+      title: "Inca Trail",
+      city: "Cusco",
+      region: "Cusco",
+      country: "Peru",
+      start: new Date(Date.UTC(2024, 6, 1)),
+      end: new Date(Date.UTC(2024, 6, 10)),
+      description: "Four days of hiking.",
+    });
+    const { post: cusco } = makeCusco as { post: ID };
+
+    // 1. public trips are found, with the given countries visited
+    const publicVisitors = await postingConcept._getVisitorsOfCountries({
+      countries: ["Japan", "Peru", "Chile"],
+      visibility: ["public"],
+    });
+    assertEquals(publicVisitors, [{ user: creatorA, countries: ["Japan"] }]);
+
+    // 2. trips with other visibilities are left out unless asked for
+    const allVisitors = await postingConcept._getVisitorsOfCountries({
+      countries: ["Japan", "Peru"],
+      visibility: ["friends", "public"],
+    });
+    assertEquals(allVisitors.length, 2, "Both creators should be found.");
+    assertEquals(
+      allVisitors.find((v) => v.user === creatorB)?.countries,
+      ["Peru"],
+    );
+
+    // 3. planned trips don't count as visits
+    await postingConcept.delete({ user: creatorB, post: cusco });
+    await postingConcept.create({
+      creator: creatorB,
+      title: "Machu Picchu",
+      city: "Cusco",
+      region: "Cusco",
+      country: "Peru",
+      start: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+      end: new Date(Date.now() + 40 * 24 * 60 * 60 * 1000),
+      description: "Someday.",
+      status: "planned",
+    });
+    const plannedVisitors = await postingConcept._getVisitorsOfCountries({
+      countries: ["Peru"],
+      visibility: ["friends", "public"],
+    });
+    assertEquals(plannedVisitors, []);
+  } finally {
+    await client.close();
+  }
+});
@@ -1,18 +1,63 @@
-import { Collection, Db } from "npm:mongodb";
+import { Collection, Db, Filter } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { dateOfID, freshID } from "@utils/database.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "Posting" + ".";
 
 // Generic types for the concept's external dependencies
 type User = ID;
+type Media = ID;
 
 // Internal entity types, represented as IDs
 type Post = ID;
+type Stop = ID;
 
 /**
- * State: A set of Posts with a creator; title; city, region, and country; start and end date; and description.
+ * Who can see a post: only its creator, its creator's friends, or anyone.
+ */
+export type Visibility = "private" | "friends" | "public";
+
+const VISIBILITIES: Visibility[] = ["private", "friends", "public"];
+
+// Visibility given to new posts (and assumed for posts created before visibility existed)
+const DEFAULT_VISIBILITY: Visibility = "friends";
+
+/**
+ * Where a trip stands: not yet started, under way, or over.
+ */
+export type TripStatus = "planned" | "ongoing" | "completed";
+
+const TRIP_STATUSES: TripStatus[] = ["planned", "ongoing", "completed"];
+
+// Status given to new posts when none is chosen (and assumed for posts created before statuses existed)
+const DEFAULT_STATUS: TripStatus = "completed";
+
+/**
+ * An image in a post's gallery, with its caption.
+ */
+export interface GalleryItem {
+  media: Media;
+  caption: string;
+}
+
+/**
+ * A stop on a trip's itinerary: a place and the dates spent there.
+ */
+export interface ItineraryStop {
+  _id: Stop;
+  city: string;
+  region: string;
+  country: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * State: A set of Posts with a creator; title; city, region, and country; start and end date; description;
+ * an ordered itinerary of stops; an ordered gallery of images; a visibility; a trip status;
+ * and the dates it was created and its contents last updated.
+ * (The post's city, region, and country are those of its first stop.)
  */
 export interface PostDoc {
   _id: Post;
@@ -24,6 +69,83 @@ export interface PostDoc {
   start: Date;
   end: Date;
   description: string;
+  stops: ItineraryStop[];
+  gallery: GalleryItem[];
+  visibility: Visibility;
+  status: TripStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A position in a list of activity, ordered newest first: the time of the last item seen and its ID.
+ */
+export interface ActivityCursor {
+  at: Date;
+  id: ID;
+}
+
+/**
+ * A region visited on one of a user's trips.
+ */
+export interface VisitedRegion {
+  region: string;
+  country: string;
+}
+
+/**
+ * A city visited on one of a user's trips.
+ */
+export interface VisitedCity {
+  city: string;
+  region: string;
+  country: string;
+}
+
+/**
+ * The number of days a user spent travelling in a calendar year.
+ */
+export interface DaysInYear {
+  year: number;
+  days: number;
+}
+
+/**
+ * A trip singled out in a user's travel statistics, with its length in days.
+ */
+export interface TripSummary {
+  post: Post;
+  title: string;
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a date to the number of whole days since the epoch (in UTC),
+ * so that trip days can be compared and counted.
+ */
+function dayNumber(date: Date): number {
+  return Math.floor(new Date(date).getTime() / DAY_MS);
+}
+
+/**
+ * Merges ranges of days, given as [first day, last day] sorted by first day,
+ * so that days covered by overlapping trips are only counted once.
+ */
+function mergeDayRanges(ranges: [number, number][]): [number, number][] {
+  const merged: [number, number][] = [];
+  for (const [first, last] of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && first <= previous[1]) {
+      previous[1] = Math.max(previous[1], last);
+    } else {
+      merged.push([first, last]);
+    }
+  }
+  return merged;
 }
 
 /**
@@ -32,16 +154,186 @@ export interface PostDoc {
  */
 export default class PostingConcept {
   posts: Collection<PostDoc>;
+  private timestampsBackfill?: Promise<unknown>;
 
   constructor(private readonly db: Db) {
     this.posts = this.db.collection(PREFIX + "posts");
   }
 
+  /**
+   * Dates posts from before posts were timestamped as created when their ID was,
+   * so they appear in activity. Runs once, before the first activity query.
+   */
+  private backfillTimestamps(): Promise<unknown> {
+    this.timestampsBackfill ??= (async () => {
+      const posts = await this.posts.find({ updatedAt: { $exists: false } })
+        .toArray();
+      if (posts.length === 0) {
+        return;
+      }
+      await this.posts.bulkWrite(posts.map((p) => {
+        const createdAt = p.createdAt ?? dateOfID(p._id);
+        return {
+          updateOne: {
+            filter: { _id: p._id },
+            update: { $set: { createdAt, updatedAt: createdAt } },
+          },
+        };
+      }));
+    })();
+    return this.timestampsBackfill;
+  }
+
+  /**
+   * Helper: Retrieves a post's stops, treating posts created before itineraries
+   * existed as a single stop at the post's place and dates.
+   */
+  private stopsOf(post: PostDoc): ItineraryStop[] {
+    if (post.stops && post.stops.length > 0) {
+      return post.stops;
+    }
+    return [{
+      _id: post._id as Stop,
+      city: post.city,
+      region: post.region,
+      country: post.country,
+      start: post.start,
+      end: post.end,
+    }];
+  }
+
+  /**
+   * Helper: Checks that each stop's dates are in order, fall within the trip's
+   * dates, and don't overlap another stop's dates (stops may share a boundary day).
+   * @returns an error message, or undefined if the stops are valid
+   */
+  private checkStops(
+    stops: ItineraryStop[],
+    start: Date,
+    end: Date,
+  ): string | undefined {
+    const tripStart = new Date(start).getTime();
+    const tripEnd = new Date(end).getTime();
+    for (const stop of stops) {
+      const stopStart = new Date(stop.start).getTime();
+      const stopEnd = new Date(stop.end).getTime();
+      if (stopEnd < stopStart) {
+        return `Impossible dates detected for stop in ${stop.city}: cannot have start date ${stop.start} and end date ${stop.end}.`;
+      }
+      if (stopStart < tripStart || stopEnd > tripEnd) {
+        return `Stop in ${stop.city} must fall within the trip's dates.`;
+      }
+      for (const other of stops) {
+        if (
+          other._id !== stop._id &&
+          stopStart < new Date(other.end).getTime() &&
+          new Date(other.start).getTime() < stopEnd
+        ) {
+          return `Stops in ${stop.city} and ${other.city} have overlapping dates.`;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Helper: Saves a post's stops, keeping the post's place in line with its first stop.
+   */
+  private async saveStops(post: Post, stops: ItineraryStop[]): Promise<void> {
+    await this.posts.updateOne({ _id: post }, {
+      $set: {
+        stops: stops,
+        city: stops[0].city,
+        region: stops[0].region,
+        country: stops[0].country,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Helper: Builds a filter for the trips of a creator (or any of several creators, or anyone if null) that aren't planned
+   * and have one of the given visibilities, treating posts created before visibility existed as having the default visibility.
+   */
+  private postsFilter(
+    user: User | User[] | null,
+    visibility: Visibility[],
+  ): Filter<PostDoc> {
+    const creator = user === null
+      ? { $exists: true }
+      : Array.isArray(user)
+      ? { $in: user }
+      : user;
+    if (visibility.includes(DEFAULT_VISIBILITY)) {
+      return {
+        creator,
+        status: { $ne: "planned" },
+        $or: [
+          { visibility: { $in: visibility } },
+          { visibility: { $exists: false } },
+        ],
+      };
+    }
+    return {
+      creator,
+      status: { $ne: "planned" },
+      visibility: { $in: visibility },
+    };
+  }
+
+  /**
+   * Helper: Checks that a trip's dates are in order and fit its status: planned trips
+   * start in the future, ongoing trips have started but not ended, and completed trips have ended.
+   * @returns an error message, or undefined if the dates are valid
+   */
+  private checkDates(
+    status: TripStatus,
+    start: Date,
+    end: Date,
+  ): string | undefined {
+    const tripStart = new Date(start).getTime();
+    const tripEnd = new Date(end).getTime();
+    const now = Date.now();
+    if (tripEnd < tripStart) {
+      return `Impossible dates detected: cannot have start date ${start} and end date ${end}.`;
+    }
+    if (status === "planned" && tripStart <= now) {
+      return `Planned trips must start in the future; got start date ${start}.`;
+    }
+    if (status === "ongoing" && (tripStart > now || tripEnd < now)) {
+      return `Ongoing trips must have started and not yet ended; got start date ${start} and end date ${end}.`;
+    }
+    if (status === "completed" && tripEnd > now) {
+      return `Impossible dates detected: cannot have start date ${start} and end date ${end}.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Helper: Moves trips along as their dates arrive: planned trips that have started
+   * become ongoing, and planned or ongoing trips that have ended become completed.
+   */
+  private async promoteStatuses(filter: Filter<PostDoc>): Promise<void> {
+    const now = new Date();
+    await this.posts.updateMany({
+      ...filter,
+      status: { $in: ["planned", "ongoing"] },
+      $expr: { $lt: [{ $toDate: "$end" }, now] },
+    }, { $set: { status: "completed" } });
+    await this.posts.updateMany({
+      ...filter,
+      status: "planned",
+      $expr: { $lte: [{ $toDate: "$start" }, now] },
+    }, { $set: { status: "ongoing" } });
+  }
+
   /**
    * Action: Creates a new post.
-   * @requires end date is in the past and not before start date
+   * @requires status, if given, is planned, ongoing, or completed; end date is not before start date;
+   * dates fit the status (completed, if no status is given)
    * @effects creates and returns a post associated with the given user,
-   * title, city, region, country, start date, end date, and description
+   * title, city, region, country, start date, end date, description, and status,
+   * visible to the user's friends, with a single stop at the given place and dates
    */
   async create(
     {
@@ -53,6 +345,7 @@ export default class PostingConcept {
       start,
       end,
       description,
+      status = DEFAULT_STATUS,
     }: {
       creator: User;
       title: string;
@@ -62,20 +355,27 @@ export default class PostingConcept {
       start: Date;
       end: Date;
       description: string;
+      status?: TripStatus;
     },
   ): Promise<{ post: Post } | { error: string }> {
-    // check date logic
-    if (
-      end < start || end > new Date()
-    ) {
+    // check status is valid
+    if (!TRIP_STATUSES.includes(status)) {
       return {
-        error:
-          `Impossible dates detected: cannot have start date ${start} and end date ${end}.`,
+        error: `Status must be one of ${
+          TRIP_STATUSES.join(", ")
+        }; got ${status}.`,
       };
     }
 
+    // check date logic
+    const dateError = this.checkDates(status, start, end);
+    if (dateError) {
+      return { error: dateError };
+    }
+
     // create new post
     const newPostId = freshID() as Post;
+    const now = new Date();
     await this.posts.insertOne({
       _id: newPostId,
       creator,
@@ -86,6 +386,19 @@ export default class PostingConcept {
       start,
       end,
       description,
+      stops: [{
+        _id: freshID() as Stop,
+        city,
+        region,
+        country,
+        start,
+        end,
+      }],
+      gallery: [],
+      visibility: DEFAULT_VISIBILITY,
+      status,
+      createdAt: now,
+      updatedAt: now,
     });
 
     return { post: newPostId };
@@ -111,15 +424,17 @@ export default class PostingConcept {
     }
 
     // update post
-    await this.posts.updateOne({ _id: post }, { $set: { title: title } });
+    await this.posts.updateOne({ _id: post }, {
+      $set: { title: title, updatedAt: new Date() },
+    });
 
     return { post: post };
   }
 
   /**
    * Action: Edits a post's place.
-   * @requires post exists and user is its creator
-   * @effects updates post's city, region, and country, and returns post
+   * @requires post exists and user is its creator; post has a single stop
+   * @effects updates post's city, region, and country, and those of its stop, and returns post
    */
   async editPlace(
     { user, post, city, country, region }: {
@@ -141,18 +456,26 @@ export default class PostingConcept {
       return { error: "Cannot edit another user's post." };
     }
 
+    // check post has a single stop
+    const stops = this.stopsOf(currPost);
+    if (stops.length > 1) {
+      return {
+        error: "Post has multiple stops; edit each stop's place instead.",
+      };
+    }
+
     // update post
-    await this.posts.updateOne({ _id: post }, {
-      $set: { city: city, country: country, region: region },
-    });
+    await this.saveStops(post, [{ ...stops[0], city, region, country }]);
 
     return { post: post };
   }
 
   /**
    * Action: Edits a post's start and end dates.
-   * @requires post exists and user is its creator; end date is in the past and not before start date
-   * @effects updates post's start and end dates and returns post
+   * @requires post exists and user is its creator; end date is not before start date;
+   * the new dates fit the post's status; if post has multiple stops, they all fall within the new dates
+   * @effects updates post's start and end dates (and those of its stop, if it has a single stop)
+   * and returns post
    */
   async editDates(
     { user, post, start, end }: {
@@ -162,7 +485,8 @@ export default class PostingConcept {
       end: Date;
     },
   ): Promise<{ post: Post } | { error: string }> {
-    // check post exists
+    // check post exists (with an up-to-date status)
+    await this.promoteStatuses({ _id: post });
     const currPost = await this.posts.findOne({ _id: post });
     if (!currPost) {
       return { error: `Post with ID ${post} not found.` };
@@ -173,18 +497,32 @@ export default class PostingConcept {
       return { error: "Cannot edit another user's post." };
     }
 
-    // check date logic
-    if (end < start || end > new Date()) {
-      return {
-        error:
-          `Impossible dates detected: cannot have start date ${start} and end date ${end}.`,
-      };
+    // check date logic against the post's status
+    const dateError = this.checkDates(
+      currPost.status ?? DEFAULT_STATUS,
+      start,
+      end,
+    );
+    if (dateError) {
+      return { error: dateError };
+    }
+
+    // check stops still fit within the trip
+    let stops = this.stopsOf(currPost);
+    if (stops.length === 1) {
+      stops = [{ ...stops[0], start, end }];
+    } else {
+      const stopError = this.checkStops(stops, start, end);
+      if (stopError) {
+        return { error: stopError };
+      }
     }
 
     // updates post
     await this.posts.updateOne({ _id: post }, {
-      $set: { start: start, end: end },
+      $set: { start: start, end: end, updatedAt: new Date() },
     });
+    await this.saveStops(post, stops);
 
     return { post: post };
   }
@@ -214,12 +552,422 @@ export default class PostingConcept {
 
     // update post
     await this.posts.updateOne({ _id: post }, {
-      $set: { description: description },
+      $set: { description: description, updatedAt: new Date() },
+    });
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Adds a stop to the end of a post's itinerary.
+   * @requires post exists and user is its creator; stop's end date is not before its start date,
+   * and its dates fall within the post's dates without overlapping another stop's
+   * @effects adds a stop with the given city, region, country, start date, and end date
+   * to the end of post's stops and returns it
+   */
+  async addStop(
+    { user, post, city, region, country, start, end }: {
+      user: User;
+      post: Post;
+      city: string;
+      region: string;
+      country: string;
+      start: Date;
+      end: Date;
+    },
+  ): Promise<{ stop: Stop } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check stop dates
+    const newStop: ItineraryStop = {
+      _id: freshID() as Stop,
+      city,
+      region,
+      country,
+      start,
+      end,
+    };
+    const stops = [...this.stopsOf(currPost), newStop];
+    const stopError = this.checkStops(stops, currPost.start, currPost.end);
+    if (stopError) {
+      return { error: stopError };
+    }
+
+    // update post
+    await this.saveStops(post, stops);
+
+    return { stop: newStop._id };
+  }
+
+  /**
+   * Action: Edits a stop on a post's itinerary.
+   * @requires post exists and user is its creator; stop is in post's stops;
+   * stop's end date is not before its start date, and its dates fall within
+   * the post's dates without overlapping another stop's
+   * @effects updates stop's city, region, country, start date, and end date and returns post
+   */
+  async editStop(
+    { user, post, stop, city, region, country, start, end }: {
+      user: User;
+      post: Post;
+      stop: Stop;
+      city: string;
+      region: string;
+      country: string;
+      start: Date;
+      end: Date;
+    },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check stop exists
+    const currStops = this.stopsOf(currPost);
+    if (!currStops.some((s) => s._id === stop)) {
+      return { error: `Stop with ID ${stop} not found on post.` };
+    }
+
+    // check stop dates
+    const stops = currStops.map((s) =>
+      s._id === stop ? { ...s, city, region, country, start, end } : s
+    );
+    const stopError = this.checkStops(stops, currPost.start, currPost.end);
+    if (stopError) {
+      return { error: stopError };
+    }
+
+    // update post
+    await this.saveStops(post, stops);
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Removes a stop from a post's itinerary.
+   * @requires post exists and user is its creator; stop is in post's stops
+   * and is not its only stop
+   * @effects removes stop from post's stops and returns post
+   */
+  async removeStop(
+    { user, post, stop }: { user: User; post: Post; stop: Stop },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check stop exists and isn't the last one
+    const currStops = this.stopsOf(currPost);
+    if (!currStops.some((s) => s._id === stop)) {
+      return { error: `Stop with ID ${stop} not found on post.` };
+    }
+    if (currStops.length === 1) {
+      return { error: "Cannot remove a post's only stop." };
+    }
+
+    // update post
+    await this.saveStops(post, currStops.filter((s) => s._id !== stop));
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Reorders the stops on a post's itinerary.
+   * @requires post exists and user is its creator;
+   * order contains exactly the stops in post's stops
+   * @effects rearranges post's stops to match the given order and returns post
+   */
+  async reorderStops(
+    { user, post, order }: { user: User; post: Post; order: Stop[] },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check order is a permutation of the stops
+    const currStops = this.stopsOf(currPost);
+    if (
+      !Array.isArray(order) || order.length !== currStops.length ||
+      new Set(order).size !== order.length ||
+      !currStops.every((s) => order.includes(s._id))
+    ) {
+      return {
+        error: "New order must contain each of the post's stops exactly once.",
+      };
+    }
+
+    // update post
+    await this.saveStops(
+      post,
+      order.map((stop) => currStops.find((s) => s._id === stop)!),
+    );
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Changes who can see a post.
+   * @requires post exists and user is its creator; visibility is private, friends, or public
+   * @effects updates post's visibility and returns post
+   */
+  async setVisibility(
+    { user, post, visibility }: {
+      user: User;
+      post: Post;
+      visibility: Visibility;
+    },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check visibility is valid
+    if (!VISIBILITIES.includes(visibility)) {
+      return {
+        error: `Visibility must be one of ${
+          VISIBILITIES.join(", ")
+        }; got ${visibility}.`,
+      };
+    }
+
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // update post
+    await this.posts.updateOne({ _id: post }, {
+      $set: { visibility: visibility, updatedAt: new Date() },
     });
 
     return { post: post };
   }
 
+  /**
+   * Action: Changes a trip's status.
+   * @requires post exists and user is its creator; status is planned, ongoing, or completed;
+   * post's dates fit the new status
+   * @effects updates post's status and returns post
+   */
+  async setStatus(
+    { user, post, status }: {
+      user: User;
+      post: Post;
+      status: TripStatus;
+    },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check status is valid
+    if (!TRIP_STATUSES.includes(status)) {
+      return {
+        error: `Status must be one of ${
+          TRIP_STATUSES.join(", ")
+        }; got ${status}.`,
+      };
+    }
+
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check dates fit the new status
+    const dateError = this.checkDates(status, currPost.start, currPost.end);
+    if (dateError) {
+      return { error: dateError };
+    }
+
+    // update post
+    await this.posts.updateOne({ _id: post }, {
+      $set: { status: status, updatedAt: new Date() },
+    });
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Attaches an image to the end of a post's gallery.
+   * @requires post exists and user is its creator; media is not already in post's gallery
+   * @effects adds media with an empty caption to the end of post's gallery and returns post
+   */
+  async attachMedia(
+    { user, post, media }: { user: User; post: Post; media: Media },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check media isn't already attached
+    if ((currPost.gallery ?? []).some((item) => item.media === media)) {
+      return { error: `Media with ID ${media} is already attached to post.` };
+    }
+
+    // update post
+    await this.posts.updateOne({ _id: post }, {
+      $push: { gallery: { media: media, caption: "" } },
+      $set: { updatedAt: new Date() },
+    });
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Reorders the images in a post's gallery.
+   * @requires post exists and user is its creator;
+   * order contains exactly the media in post's gallery
+   * @effects rearranges post's gallery to match the given order and returns post
+   */
+  async reorderMedia(
+    { user, post, order }: { user: User; post: Post; order: Media[] },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // check order is a permutation of the gallery
+    const gallery = currPost.gallery ?? [];
+    if (
+      !Array.isArray(order) || order.length !== gallery.length ||
+      new Set(order).size !== order.length ||
+      !gallery.every((item) => order.includes(item.media))
+    ) {
+      return {
+        error: "New order must contain each of the post's media exactly once.",
+      };
+    }
+
+    // update post
+    const reordered = order.map((media) =>
+      gallery.find((item) => item.media === media)!
+    );
+    await this.posts.updateOne({ _id: post }, {
+      $set: { gallery: reordered, updatedAt: new Date() },
+    });
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Edits the caption of an image in a post's gallery.
+   * @requires post exists and user is its creator; media is in post's gallery
+   * @effects updates media's caption and returns post
+   */
+  async captionMedia(
+    { user, post, media, caption }: {
+      user: User;
+      post: Post;
+      media: Media;
+      caption: string;
+    },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // update caption of the matching gallery item
+    const result = await this.posts.updateOne(
+      { _id: post, "gallery.media": media },
+      { $set: { "gallery.$.caption": caption, updatedAt: new Date() } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Media with ID ${media} is not attached to post.` };
+    }
+
+    return { post: post };
+  }
+
+  /**
+   * Action: Detaches an image from a post's gallery.
+   * @requires post exists and user is its creator; media is in post's gallery
+   * @effects removes media from post's gallery and returns post
+   */
+  async detachMedia(
+    { user, post, media }: { user: User; post: Post; media: Media },
+  ): Promise<{ post: Post } | { error: string }> {
+    // check post exists
+    const currPost = await this.posts.findOne({ _id: post });
+    if (!currPost) {
+      return { error: `Post with ID ${post} not found.` };
+    }
+
+    // check user is creator
+    if (currPost!.creator !== user) {
+      return { error: "Cannot edit another user's post." };
+    }
+
+    // remove media from gallery
+    const result = await this.posts.updateOne(
+      { _id: post, "gallery.media": media },
+      {
+        $pull: { gallery: { media: media } },
+        $set: { updatedAt: new Date() },
+      },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `Media with ID ${media} is not attached to post.` };
+    }
+
+    return { post: post };
+  }
+
   /**
    * Action: Removes a user's post.
    * @requires
@@ -245,14 +993,62 @@ export default class PostingConcept {
   }
 
   /**
-   * Query: Retrieves all posts for a given creator in order of start date.
-   * @effects returns all posts with user as creator in order of start date,
-   * with the most recent post first
+   * Action: Removes all of a user's posts.
+   * @effects removes every post with creator as its creator; returns the removed posts
+   */
+  async deleteByCreator(
+    { creator }: { creator: User },
+  ): Promise<{ posts: Post[] }> {
+    const posts = await this.posts.find({ creator }).toArray();
+    await this.posts.deleteMany({ creator });
+    return { posts: posts.map((p) => p._id) };
+  }
+
+  /**
+   * Query: Retrieves all ongoing and completed trips for a given creator in order of start date.
+   * @effects promotes the creator's trips whose dates have arrived; returns all posts
+   * with user as creator that aren't planned, in order of start date, with the most recent post first
    */
   async _getPosts(
     { user }: { user: User },
   ): Promise<{ post: Post }[]> {
-    const posts = await this.posts.find({ creator: user }).sort({ start: -1 })
+    await this.promoteStatuses({ creator: user });
+    const posts = await this.posts.find({
+      creator: user,
+      status: { $ne: "planned" },
+    }).sort({ start: -1 })
+      .toArray();
+    return posts.map((p) => ({ post: p._id }));
+  }
+
+  /**
+   * Query: Retrieves all planned trips for a given creator in order of start date.
+   * @effects promotes the creator's trips whose dates have arrived; returns all planned
+   * posts with user as creator in order of start date, with the soonest post first
+   */
+  async _getUpcomingPosts(
+    { user }: { user: User },
+  ): Promise<{ post: Post }[]> {
+    await this.promoteStatuses({ creator: user });
+    const posts = await this.posts.find({ creator: user, status: "planned" })
+      .sort({ start: 1 })
+      .toArray();
+    return posts.map((p) => ({ post: p._id }));
+  }
+
+  /**
+   * Query: Retrieves a creator's ongoing and completed trips that have one of the given visibilities,
+   * in order of start date.
+   * @effects promotes the creator's trips whose dates have arrived; returns all posts with user
+   * as creator that aren't planned and whose visibility is in the given set,
+   * in order of start date with the most recent post first
+   */
+  async _getPostsWithVisibility(
+    { user, visibility }: { user: User; visibility: Visibility[] },
+  ): Promise<{ post: Post }[]> {
+    await this.promoteStatuses({ creator: user });
+    const posts = await this.posts.find(this.postsFilter(user, visibility))
+      .sort({ start: -1 })
       .toArray();
     return posts.map((p) => ({ post: p._id }));
   }
@@ -260,12 +1056,298 @@ export default class PostingConcept {
   /**
    * Query: Retrieves the post for a given ID.
    * @requires exists post with the given ID
-   * @effects returns the post with the given ID
+   * @effects promotes the post if its dates have arrived; returns the post with the given ID
    */
   async _getPostById(
     { _id }: { _id: ID },
   ): Promise<{ postData: PostDoc }[]> {
+    await this.promoteStatuses({ _id });
     const post = await this.posts.find({ _id }).toArray();
     return post.map((p) => ({ postData: p }));
   }
+
+  /**
+   * Query: Retrieves all posts whose gallery contains a given media item.
+   * @effects returns all posts with media in their gallery
+   */
+  async _getPostsWithMedia(
+    { media }: { media: Media },
+  ): Promise<{ post: Post }[]> {
+    const posts = await this.posts.find({ "gallery.media": media }).toArray();
+    return posts.map((p) => ({ post: p._id }));
+  }
+
+  /**
+   * Query: Retrieves the distinct places a creator has visited on posts with one of the given visibilities.
+   * @effects returns the distinct countries, regions, and cities of the stops of
+   * all posts with user as creator that aren't planned and whose visibility is in the given set, in alphabetical order
+   */
+  async _getPlacesVisited(
+    { user, visibility }: { user: User; visibility: Visibility[] },
+  ): Promise<
+    { countries: string[]; regions: VisitedRegion[]; cities: VisitedCity[] }[]
+  > {
+    await this.promoteStatuses({ creator: user });
+    const [places] = await this.posts.aggregate<{
+      countries: string[];
+      regions: VisitedRegion[];
+      cities: VisitedCity[];
+    }>([
+      { $match: this.postsFilter(user, visibility) },
+      // posts created before itineraries existed have a single stop at the post's place
+      {
+        $project: {
+          stops: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ["$stops", []] } }, 0] },
+              "$stops",
+              [{ city: "$city", region: "$region", country: "$country" }],
+            ],
+          },
+        },
+      },
+      { $unwind: "$stops" },
+      {
+        $group: {
+          _id: null,
+          countries: { $addToSet: "$stops.country" },
+          regions: {
+            $addToSet: { region: "$stops.region", country: "$stops.country" },
+          },
+          cities: {
+            $addToSet: {
+              city: "$stops.city",
+              region: "$stops.region",
+              country: "$stops.country",
+            },
+          },
+        },
+      },
+    ]).toArray();
+
+    if (!places) {
+      return [{ countries: [], regions: [], cities: [] }];
+    }
+    const byName = (a: string, b: string) => a.localeCompare(b);
+    return [{
+      countries: places.countries.sort(byName),
+      regions: places.regions.sort((a, b) =>
+        byName(a.country, b.country) || byName(a.region, b.region)
+      ),
+      cities: places.cities.sort((a, b) =>
+        byName(a.country, b.country) || byName(a.region, b.region) ||
+        byName(a.city, b.city)
+      ),
+    }];
+  }
+
+  /**
+   * Query: Retrieves the creators who have visited any of the given countries on posts with one of the given visibilities.
+   * @effects returns each creator with a stop in one of the given countries on a post that isn't planned
+   * and whose visibility is in the given set, with the distinct given countries they visited, in alphabetical order
+   */
+  async _getVisitorsOfCountries(
+    { countries, visibility }: {
+      countries: string[];
+      visibility: Visibility[];
+    },
+  ): Promise<{ user: User; countries: string[] }[]> {
+    if (countries.length === 0) {
+      return [];
+    }
+    const inCountries = {
+      $or: [{ country: { $in: countries } }, {
+        "stops.country": { $in: countries },
+      }],
+    };
+    await this.promoteStatuses(inCountries);
+    const visitors = await this.posts.aggregate<
+      { _id: User; countries: string[] }
+    >([
+      { $match: { $and: [this.postsFilter(null, visibility), inCountries] } },
+      // posts created before itineraries existed have a single stop at the post's place
+      {
+        $project: {
+          creator: 1,
+          stops: {
+            $cond: [
+              { $gt: [{ $size: { $ifNull: ["$stops", []] } }, 0] },
+              "$stops",
+              [{ country: "$country" }],
+            ],
+          },
+        },
+      },
+      { $unwind: "$stops" },
+      { $match: { "stops.country": { $in: countries } } },
+      {
+        $group: { _id: "$creator", countries: { $addToSet: "$stops.country" } },
+      },
+    ]).toArray();
+
+    return visitors.map((v) => ({
+      user: v._id,
+      countries: v.countries.sort((a, b) => a.localeCompare(b)),
+    }));
+  }
+
+  /**
+   * Query: Counts the days a creator spent travelling on posts with one of the given visibilities.
+   * @effects returns the total number of days, and the number of days in each year
+   * (in order of year), covered by the dates of all posts with user as creator that
+   * aren't planned and whose visibility is in the given set, counting days covered by overlapping posts once
+   */
+  async _getDaysTravelled(
+    { user, visibility }: { user: User; visibility: Visibility[] },
+  ): Promise<{ totalDays: number; daysByYear: DaysInYear[] }[]> {
+    await this.promoteStatuses({ creator: user });
+    const trips = await this.posts.aggregate<{ start: Date; end: Date }>([
+      { $match: this.postsFilter(user, visibility) },
+      {
+        $project: {
+          _id: 0,
+          start: { $toDate: "$start" },
+          end: { $toDate: "$end" },
+        },
+      },
+      { $sort: { start: 1 } },
+    ]).toArray();
+
+    const merged = mergeDayRanges(
+      trips.map((t) => [dayNumber(t.start), dayNumber(t.end)]),
+    );
+
+    // split each range of days at year boundaries
+    const daysByYear = new Map<number, number>();
+    for (const [first, last] of merged) {
+      let day = first;
+      while (day <= last) {
+        const year = new Date(day * DAY_MS).getUTCFullYear();
+        const lastInYear = Math.min(
+          last,
+          dayNumber(new Date(Date.UTC(year + 1, 0, 1))) - 1,
+        );
+        daysByYear.set(
+          year,
+          (daysByYear.get(year) ?? 0) + lastInYear - day + 1,
+        );
+        day = lastInYear + 1;
+      }
+    }
+
+    return [{
+      totalDays: merged.reduce(
+        (sum, [first, last]) => sum + last - first + 1,
+        0,
+      ),
+      daysByYear: [...daysByYear.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([year, days]) => ({ year, days })),
+    }];
+  }
+
+  /**
+   * Query: Finds a creator's longest, first, and most recent trips among posts with one of the given visibilities.
+   * @effects returns the longest post (the earliest, if several are equally long),
+   * the post with the earliest start date, and the post with the latest start date,
+   * among all posts with user as creator that aren't planned and whose visibility is in the given set;
+   * each is null if there are no such posts
+   */
+  async _getTripHighlights(
+    { user, visibility }: { user: User; visibility: Visibility[] },
+  ): Promise<
+    {
+      longestTrip: TripSummary | null;
+      firstTrip: TripSummary | null;
+      mostRecentTrip: TripSummary | null;
+    }[]
+  > {
+    await this.promoteStatuses({ creator: user });
+    const [highlights] = await this.posts.aggregate<{
+      longestTrip: TripSummary[];
+      firstTrip: TripSummary[];
+      mostRecentTrip: TripSummary[];
+    }>([
+      { $match: this.postsFilter(user, visibility) },
+      {
+        $project: {
+          _id: 0,
+          post: "$_id",
+          title: 1,
+          start: { $toDate: "$start" },
+          end: { $toDate: "$end" },
+        },
+      },
+      {
+        $addFields: {
+          days: {
+            $add: [
+              {
+                $dateDiff: {
+                  startDate: "$start",
+                  endDate: "$end",
+                  unit: "day",
+                },
+              },
+              1,
+            ],
+          },
+        },
+      },
+      {
+        $facet: {
+          longestTrip: [{ $sort: { days: -1, start: 1 } }, { $limit: 1 }],
+          firstTrip: [{ $sort: { start: 1 } }, { $limit: 1 }],
+          mostRecentTrip: [{ $sort: { start: -1 } }, { $limit: 1 }],
+        },
+      },
+    ]).toArray();
+
+    return [{
+      longestTrip: highlights?.longestTrip[0] ?? null,
+      firstTrip: highlights?.firstTrip[0] ?? null,
+      mostRecentTrip: highlights?.mostRecentTrip[0] ?? null,
+    }];
+  }
+
+  /**
+   * Query: Retrieves the most recently created or edited ongoing and completed trips of a set of creators
+   * that have one of the given visibilities.
+   * @effects returns up to limit posts with a creator in users that aren't planned and whose visibility
+   * is in the given set, each with whether it was created or last edited and when, newest first
+   * (ties broken by ID), starting after the before cursor if one is given
+   */
+  async _getActivity(
+    { users, visibility, before, limit }: {
+      users: User[];
+      visibility: Visibility[];
+      before: ActivityCursor | null;
+      limit: number;
+    },
+  ): Promise<
+    { post: Post; activity: "created" | "edited"; at: Date }[]
+  > {
+    await this.backfillTimestamps();
+    const cursorFilter: Filter<PostDoc> = before
+      ? {
+        $or: [
+          { updatedAt: { $lt: new Date(before.at) } },
+          { updatedAt: new Date(before.at), _id: { $lt: before.id } },
+        ],
+      }
+      : {};
+    const posts = await this.posts.find({
+      $and: [this.postsFilter(users, visibility), cursorFilter],
+    })
+      .sort({ updatedAt: -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+    return posts.map((p) => ({
+      post: p._id,
+      activity: p.updatedAt.getTime() > p.createdAt.getTime()
+        ? "edited"
+        : "created",
+      at: p.updatedAt,
+    }));
+  }
 }
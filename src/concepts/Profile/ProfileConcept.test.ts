@@ -0,0 +1,237 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import ProfileConcept, { TravelStyle } from "./ProfileConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const mediaA = "media:AliceAvatar" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user fills in their profile, and it is shown to others.
+ */
+Deno.test("Test Case 1 - operational principle: user fills in their profile", async () => {
+  const [db, client] = await testDb();
+  const profileConcept = new ProfileConcept(db);
+
+  try {
+    // 1. user without a profile has an empty one
+    const [{ profile: empty }] = await profileConcept._getProfile({
+      user: userA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(empty.displayName, "");
+    assertEquals(empty.avatar, null);
+    assertEquals(empty.travelStyles, []);
+
+    // 2. user fills in their profile
+    const setName = await profileConcept.setDisplayName({
+      user: userA,
+      displayName: "  Alice Liddell ",
+    });
+    assertNotEquals("error" in setName, true, "Setting name should not fail.");
+    await profileConcept.setBio({
+      user: userA,
+      bio: "Always chasing rabbits.",
+    });
+    await profileConcept.setAvatar({ user: userA, avatar: mediaA });
+    const setHome = await profileConcept.setHomeBase({
+      user: userA,
+      city: "Oxford",
+      country: "United Kingdom",
+    });
+    assertNotEquals("error" in setHome, true, "Setting home should not fail.");
+    const setStyles = await profileConcept.setTravelStyles({
+      user: userA,
+      travelStyles: ["culture", "food", "culture"],
+    });
+    assertNotEquals(
+      "error" in setStyles,
+      true,
+      "Setting styles should not fail.",
+    );
+
+    const [{ profile }] = await profileConcept._getProfile({
+      user: userA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(profile, {
+      user: userA,
+      displayName: "Alice Liddell",
+      bio: "Always chasing rabbits.",
+      avatar: mediaA,
+      homeCity: "Oxford",
+      homeCountry: "United Kingdom",
+      travelStyles: ["culture", "food"],
+    });
+
+    // 3. user clears their avatar and home base
+    await profileConcept.clearAvatar({ user: userA });
+    await profileConcept.clearHomeBase({ user: userA });
+    const [{ profile: cleared }] = await profileConcept._getProfile({
+      user: userA,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(cleared.avatar, null);
+    assertEquals(cleared.homeCity, null);
+    assertEquals(cleared.displayName, "Alice Liddell");
+
+    // 4. avatar users are found by media
+    await profileConcept.setAvatar({ user: userA, avatar: mediaA });
+    assertEquals(
+      await profileConcept._getUsersWithAvatar({ avatar: mediaA }),
+      [{ user: userA }],
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates invalid profile fields are rejected.
+ */
+Deno.test("Test Case 2 - invalid profile fields", async () => {
+  const [db, client] = await testDb();
+  const profileConcept = new ProfileConcept(db);
+
+  try {
+    const emptyName = await profileConcept.setDisplayName({
+      user: userA,
+      displayName: "   ",
+    });
+    assertEquals("error" in emptyName, true, "Empty name should fail.");
+
+    const longName = await profileConcept.setDisplayName({
+      user: userA,
+      displayName: "a".repeat(51),
+    });
+    assertEquals("error" in longName, true, "Long name should fail.");
+
+    const longBio = await profileConcept.setBio({
+      user: userA,
+      bio: "a".repeat(501),
+    });
+    assertEquals("error" in longBio, true, "Long bio should fail.");
+
+    const noCountry = await profileConcept.setHomeBase({
+      user: userA,
+      city: "Oxford",
+      country: "",
+    });
+    assertEquals(
+      "error" in noCountry,
+      true,
+      "Home without country should fail.",
+    );
+
+    const unknownStyle = await profileConcept.setTravelStyles({
+      user: userA,
+      travelStyles: ["spelunking" as TravelStyle],
+    });
+    assertEquals("error" in unknownStyle, true, "Unknown style should fail.");
+
+    const unknownField = await profileConcept.setFieldVisibility({
+      user: userA,
+      field: "displayName" as "bio",
+      visibility: "friends",
+    });
+    assertEquals("error" in unknownField, true, "Unknown field should fail.");
+
+    const clearAvatar = await profileConcept.clearAvatar({ user: userA });
+    assertEquals(
+      "error" in clearAvatar,
+      true,
+      "Clearing no avatar should fail.",
+    );
+
+    assertEquals(
+      await profileConcept.profiles.countDocuments({ _id: userA }),
+      0,
+      "Rejected edits shouldn't create a profile.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates friends-only fields are hidden from viewers who aren't friends,
+ * and the profile is deleted along with the user.
+ */
+Deno.test("Test Case 3 - field visibility", async () => {
+  const [db, client] = await testDb();
+  const profileConcept = new ProfileConcept(db);
+
+  try {
+    await profileConcept.setDisplayName({ user: userB, displayName: "Bob" });
+    await profileConcept.setBio({ user: userB, bio: "Road tripper." });
+    await profileConcept.setHomeBase({
+      user: userB,
+      city: "Lisbon",
+      country: "Portugal",
+    });
+
+    // 1. home base is friends-only by default
+    const [{ profile: publicView }] = await profileConcept._getProfile({
+      user: userB,
+      visibility: ["public"],
+    });
+    assertEquals(publicView.displayName, "Bob");
+    assertEquals(publicView.bio, "Road tripper.");
+    assertEquals(publicView.homeCity, null);
+    assertEquals(publicView.homeCountry, null);
+
+    // 2. user makes their bio friends-only and their home base public
+    await profileConcept.setFieldVisibility({
+      user: userB,
+      field: "bio",
+      visibility: "friends",
+    });
+    await profileConcept.setFieldVisibility({
+      user: userB,
+      field: "homeBase",
+      visibility: "public",
+    });
+    assertEquals(
+      (await profileConcept._getFieldVisibility({ user: userB }))[0]
+        .fieldVisibility,
+      {
+        bio: "friends",
+        avatar: "public",
+        homeBase: "public",
+        travelStyles: "public",
+      },
+    );
+
+    const [{ profile: publicAfter }] = await profileConcept._getProfile({
+      user: userB,
+      visibility: ["public"],
+    });
+    assertEquals(publicAfter.bio, null);
+    assertEquals(publicAfter.homeCity, "Lisbon");
+
+    const [{ profile: friendView }] = await profileConcept._getProfile({
+      user: userB,
+      visibility: ["friends", "public"],
+    });
+    assertEquals(friendView.bio, "Road tripper.");
+
+    // 3. user's profile is deleted
+    assertEquals(await profileConcept.deleteByUser({ user: userB }), {
+      profile: true,
+    });
+    assertEquals(await profileConcept.deleteByUser({ user: userB }), {
+      profile: false,
+    });
+    const [{ profile: deleted }] = await profileConcept._getProfile({
+      user: userB,
+      visibility: ["public"],
+    });
+    assertEquals(deleted.displayName, "");
+  } finally {
+    await client.close();
+  }
+});
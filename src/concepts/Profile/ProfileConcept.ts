@@ -0,0 +1,380 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Profile" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Media = ID;
+
+// Longest accepted display name, in characters
+const DISPLAY_NAME_MAX_LENGTH = 50;
+
+// Longest accepted bio, in characters
+const BIO_MAX_LENGTH = 500;
+
+export type TravelStyle =
+  | "adventure"
+  | "backpacking"
+  | "beach"
+  | "city"
+  | "culture"
+  | "food"
+  | "luxury"
+  | "nature"
+  | "road trip"
+  | "solo";
+
+const TRAVEL_STYLES: TravelStyle[] = [
+  "adventure",
+  "backpacking",
+  "beach",
+  "city",
+  "culture",
+  "food",
+  "luxury",
+  "nature",
+  "road trip",
+  "solo",
+];
+
+/**
+ * Who can see a profile field: everyone, or only the user's friends.
+ * The user can always see their own profile.
+ */
+export type FieldVisibility = "friends" | "public";
+
+const FIELD_VISIBILITIES: FieldVisibility[] = ["friends", "public"];
+
+/**
+ * The profile fields whose visibility can be set. The display name is always public,
+ * so that the user can be recognized by people who aren't their friends yet.
+ */
+export type ProfileField = "bio" | "avatar" | "homeBase" | "travelStyles";
+
+const PROFILE_FIELDS: ProfileField[] = [
+  "bio",
+  "avatar",
+  "homeBase",
+  "travelStyles",
+];
+
+// Visibility of each field on new profiles
+const DEFAULT_FIELD_VISIBILITY: Record<ProfileField, FieldVisibility> = {
+  bio: "public",
+  avatar: "public",
+  homeBase: "friends",
+  travelStyles: "public",
+};
+
+/**
+ * State: A set of Profiles, one per user, with a display name, a bio, an avatar (if set),
+ * a home city and country (if set), a set of travel styles, the visibility of each field,
+ * and the date it was last updated.
+ */
+export interface ProfileDoc {
+  _id: User;
+  displayName: string;
+  bio: string;
+  avatar: Media | null;
+  homeCity: string | null;
+  homeCountry: string | null;
+  travelStyles: TravelStyle[];
+  fieldVisibility: Record<ProfileField, FieldVisibility>;
+  updatedAt: Date;
+}
+
+/**
+ * A profile as shown to a viewer; fields the viewer can't see are null.
+ */
+export interface ProfileView {
+  user: User;
+  displayName: string;
+  bio: string | null;
+  avatar: Media | null;
+  homeCity: string | null;
+  homeCountry: string | null;
+  travelStyles: TravelStyle[] | null;
+}
+
+/**
+ * @concept Profile
+ * @purpose To let users present themselves to other travelers.
+ */
+export default class ProfileConcept {
+  profiles: Collection<ProfileDoc>;
+
+  constructor(private readonly db: Db) {
+    this.profiles = this.db.collection(PREFIX + "profiles");
+  }
+
+  /**
+   * Helper: Sets fields of a user's profile, creating the profile if the user doesn't have one yet.
+   */
+  private async update(
+    user: User,
+    fields: Partial<Omit<ProfileDoc, "_id" | "updatedAt">>,
+  ): Promise<void> {
+    const defaults: Omit<ProfileDoc, "_id" | "updatedAt"> = {
+      displayName: "",
+      bio: "",
+      avatar: null,
+      homeCity: null,
+      homeCountry: null,
+      travelStyles: [],
+      fieldVisibility: DEFAULT_FIELD_VISIBILITY,
+    };
+    const setOnInsert = Object.fromEntries(
+      Object.entries(defaults).filter(([key]) => !(key in fields)),
+    );
+
+    await this.profiles.updateOne({ _id: user }, {
+      $set: { ...fields, updatedAt: new Date() },
+      $setOnInsert: setOnInsert,
+    }, { upsert: true });
+  }
+
+  /**
+   * Action: Sets a user's display name.
+   * @requires displayName is non-empty and at most DISPLAY_NAME_MAX_LENGTH characters
+   * @effects sets the display name of the user's profile, creating the profile if needed; returns user
+   */
+  async setDisplayName(
+    { user, displayName }: { user: User; displayName: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const trimmed = String(displayName ?? "").trim();
+    if (!trimmed) {
+      return { error: "Display name cannot be empty." };
+    }
+    if (trimmed.length > DISPLAY_NAME_MAX_LENGTH) {
+      return {
+        error:
+          `Display name cannot be longer than ${DISPLAY_NAME_MAX_LENGTH} characters.`,
+      };
+    }
+
+    await this.update(user, { displayName: trimmed });
+    return { user };
+  }
+
+  /**
+   * Action: Sets a user's bio.
+   * @requires bio is at most BIO_MAX_LENGTH characters
+   * @effects sets the bio of the user's profile (an empty bio clears it),
+   * creating the profile if needed; returns user
+   */
+  async setBio(
+    { user, bio }: { user: User; bio: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const trimmed = String(bio ?? "").trim();
+    if (trimmed.length > BIO_MAX_LENGTH) {
+      return {
+        error: `Bio cannot be longer than ${BIO_MAX_LENGTH} characters.`,
+      };
+    }
+
+    await this.update(user, { bio: trimmed });
+    return { user };
+  }
+
+  /**
+   * Action: Sets a user's avatar.
+   * @effects sets the avatar of the user's profile to the given media,
+   * creating the profile if needed; returns user
+   */
+  async setAvatar(
+    { user, avatar }: { user: User; avatar: Media },
+  ): Promise<{ user: User }> {
+    await this.update(user, { avatar });
+    return { user };
+  }
+
+  /**
+   * Action: Clears a user's avatar.
+   * @requires the user's profile has an avatar
+   * @effects removes the avatar from the user's profile; returns user
+   */
+  async clearAvatar(
+    { user }: { user: User },
+  ): Promise<{ user: User } | { error: string }> {
+    const result = await this.profiles.updateOne(
+      { _id: user, avatar: { $ne: null } },
+      { $set: { avatar: null, updatedAt: new Date() } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `User with ID ${user} has no avatar.` };
+    }
+    return { user };
+  }
+
+  /**
+   * Action: Sets a user's home base.
+   * @requires city and country are non-empty
+   * @effects sets the home city and country of the user's profile,
+   * creating the profile if needed; returns user
+   */
+  async setHomeBase(
+    { user, city, country }: { user: User; city: string; country: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const trimmedCity = String(city ?? "").trim();
+    const trimmedCountry = String(country ?? "").trim();
+    if (!trimmedCity || !trimmedCountry) {
+      return { error: "Home base must have both a city and a country." };
+    }
+
+    await this.update(user, {
+      homeCity: trimmedCity,
+      homeCountry: trimmedCountry,
+    });
+    return { user };
+  }
+
+  /**
+   * Action: Clears a user's home base.
+   * @requires the user's profile has a home base
+   * @effects removes the home city and country from the user's profile; returns user
+   */
+  async clearHomeBase(
+    { user }: { user: User },
+  ): Promise<{ user: User } | { error: string }> {
+    const result = await this.profiles.updateOne(
+      { _id: user, homeCity: { $ne: null } },
+      { $set: { homeCity: null, homeCountry: null, updatedAt: new Date() } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `User with ID ${user} has no home base.` };
+    }
+    return { user };
+  }
+
+  /**
+   * Action: Sets a user's travel styles.
+   * @requires every travel style is one of TRAVEL_STYLES
+   * @effects sets the travel styles of the user's profile, ignoring duplicates,
+   * creating the profile if needed; returns user
+   */
+  async setTravelStyles(
+    { user, travelStyles }: { user: User; travelStyles: TravelStyle[] },
+  ): Promise<{ user: User } | { error: string }> {
+    if (!Array.isArray(travelStyles)) {
+      return { error: "Travel styles must be a list." };
+    }
+    const unknown = travelStyles.find((s) => !TRAVEL_STYLES.includes(s));
+    if (unknown !== undefined) {
+      return {
+        error: `Travel styles must be among ${
+          TRAVEL_STYLES.join(", ")
+        }; got ${unknown}.`,
+      };
+    }
+
+    await this.update(user, { travelStyles: [...new Set(travelStyles)] });
+    return { user };
+  }
+
+  /**
+   * Action: Sets who can see a field of a user's profile.
+   * @requires field is one of PROFILE_FIELDS and visibility is one of FIELD_VISIBILITIES
+   * @effects sets the visibility of the field on the user's profile,
+   * creating the profile if needed; returns user
+   */
+  async setFieldVisibility(
+    { user, field, visibility }: {
+      user: User;
+      field: ProfileField;
+      visibility: FieldVisibility;
+    },
+  ): Promise<{ user: User } | { error: string }> {
+    if (!PROFILE_FIELDS.includes(field)) {
+      return {
+        error: `Field must be one of ${
+          PROFILE_FIELDS.join(", ")
+        }; got ${field}.`,
+      };
+    }
+    if (!FIELD_VISIBILITIES.includes(visibility)) {
+      return {
+        error: `Visibility must be one of ${
+          FIELD_VISIBILITIES.join(", ")
+        }; got ${visibility}.`,
+      };
+    }
+
+    const existing = await this.profiles.findOne({ _id: user });
+    await this.update(user, {
+      fieldVisibility: {
+        ...(existing?.fieldVisibility ?? DEFAULT_FIELD_VISIBILITY),
+        [field]: visibility,
+      },
+    });
+    return { user };
+  }
+
+  /**
+   * Action: Deletes a user's profile.
+   * @effects removes the user's profile, if they have one; returns whether one was removed
+   */
+  async deleteByUser(
+    { user }: { user: User },
+  ): Promise<{ profile: boolean }> {
+    const result = await this.profiles.deleteOne({ _id: user });
+    return { profile: result.deletedCount > 0 };
+  }
+
+  /**
+   * Query: Retrieves a user's profile as seen by a viewer.
+   * @effects returns the user's profile with every field whose visibility isn't among the given
+   * visibilities set to null; a user without a profile has an empty one
+   */
+  async _getProfile(
+    { user, visibility }: { user: User; visibility: FieldVisibility[] },
+  ): Promise<{ profile: ProfileView }[]> {
+    const doc = await this.profiles.findOne({ _id: user });
+    const fieldVisibility = {
+      ...DEFAULT_FIELD_VISIBILITY,
+      ...doc?.fieldVisibility,
+    };
+    const visible = (field: ProfileField) =>
+      visibility.includes(fieldVisibility[field]);
+
+    return [{
+      profile: {
+        user,
+        displayName: doc?.displayName ?? "",
+        bio: visible("bio") ? doc?.bio ?? "" : null,
+        avatar: visible("avatar") ? doc?.avatar ?? null : null,
+        homeCity: visible("homeBase") ? doc?.homeCity ?? null : null,
+        homeCountry: visible("homeBase") ? doc?.homeCountry ?? null : null,
+        travelStyles: visible("travelStyles") ? doc?.travelStyles ?? [] : null,
+      },
+    }];
+  }
+
+  /**
+   * Query: Retrieves a user's field visibility settings.
+   * @effects returns the visibility of each field of the user's profile
+   */
+  async _getFieldVisibility(
+    { user }: { user: User },
+  ): Promise<{ fieldVisibility: Record<ProfileField, FieldVisibility> }[]> {
+    const doc = await this.profiles.findOne({ _id: user });
+    return [{
+      fieldVisibility: {
+        ...DEFAULT_FIELD_VISIBILITY,
+        ...doc?.fieldVisibility,
+      },
+    }];
+  }
+
+  /**
+   * Query: Retrieves the users whose avatar is the given media.
+   * @effects returns every user whose profile's avatar is the given media
+   */
+  async _getUsersWithAvatar(
+    { avatar }: { avatar: Media },
+  ): Promise<{ user: User }[]> {
+    const profiles = await this.profiles.find({ avatar }).toArray();
+    return profiles.map((p) => ({ user: p._id }));
+  }
+}
@@ -0,0 +1,169 @@
+import { assertEquals, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import ReactingConcept, { Reaction } from "./ReactingConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const userC = "user:Charlie" as ID;
+const post = "post:Newport" as ID;
+const place = "place:Kyoto" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: users react to a target, one changes their reaction, and one removes it.
+ */
+Deno.test("Test Case 1 - operational principle: users react, change, and remove reactions", async () => {
+  const [db, client] = await testDb();
+  const reactingConcept = new ReactingConcept(db);
+
+  try {
+    // 1. users react to post
+    const reactA = await reactingConcept.react({
+      user: userA,
+      target: post,
+      reaction: "love",
+    });
+    assertNotEquals("error" in reactA, true, "Reacting should not fail.");
+    await reactingConcept.react({ user: userB, target: post, reaction: "wow" });
+    await reactingConcept.react({
+      user: userC,
+      target: post,
+      reaction: "love",
+    });
+
+    let [{ counts }] = await reactingConcept._getCounts({ target: post });
+    assertEquals(counts, { like: 0, love: 2, laugh: 0, wow: 1, sad: 0 });
+
+    const reactors = await reactingConcept._getReactors({ target: post });
+    assertEquals(reactors, [
+      { user: userA, reaction: "love" },
+      { user: userB, reaction: "wow" },
+      { user: userC, reaction: "love" },
+    ]);
+
+    // 2. user B changes reaction
+    const change = await reactingConcept.changeReaction({
+      user: userB,
+      target: post,
+      reaction: "love",
+    });
+    assertNotEquals("error" in change, true, "Changing should not fail.");
+    assertEquals(
+      await reactingConcept._getReaction({ user: userB, target: post }),
+      [{ reaction: "love" }],
+    );
+
+    // 3. user C removes reaction
+    const unreact = await reactingConcept.unreact({
+      user: userC,
+      target: post,
+    });
+    assertEquals("error" in unreact, false, "Removing should not fail.");
+
+    [{ counts }] = await reactingConcept._getCounts({ target: post });
+    assertEquals(counts, { like: 0, love: 2, laugh: 0, wow: 0, sad: 0 });
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates invalid reactions: unknown reaction, reacting twice, and changing or removing a missing reaction.
+ */
+Deno.test("Test Case 2 - invalid reactions", async () => {
+  const [db, client] = await testDb();
+  const reactingConcept = new ReactingConcept(db);
+
+  try {
+    // 1. user reacts with unknown reaction
+    const unknown = await reactingConcept.react({
+      user: userA,
+      target: place,
+      reaction: "angry" as Reaction,
+    });
+    assertEquals("error" in unknown, true, "Unknown reaction should fail.");
+
+    // 2. user reacts twice
+    await reactingConcept.react({
+      user: userA,
+      target: place,
+      reaction: "wow",
+    });
+    const twice = await reactingConcept.react({
+      user: userA,
+      target: place,
+      reaction: "like",
+    });
+    assertEquals("error" in twice, true, "Reacting twice should fail.");
+
+    // 3. user changes and removes reaction they never left
+    const change = await reactingConcept.changeReaction({
+      user: userB,
+      target: place,
+      reaction: "like",
+    });
+    assertEquals("error" in change, true, "Changing missing should fail.");
+
+    const unreact = await reactingConcept.unreact({
+      user: userB,
+      target: place,
+    });
+    assertEquals("error" in unreact, true, "Removing missing should fail.");
+
+    assertEquals(
+      await reactingConcept._getReaction({ user: userB, target: place }),
+      [],
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates deleting all reactions to a target leaves other targets' reactions,
+ * and deleting all of a user's reactions leaves other users' reactions.
+ */
+Deno.test("Test Case 3 - delete reactions by target and by user", async () => {
+  const [db, client] = await testDb();
+  const reactingConcept = new ReactingConcept(db);
+
+  try {
+    await reactingConcept.react({
+      user: userA,
+      target: post,
+      reaction: "like",
+    });
+    await reactingConcept.react({ user: userB, target: post, reaction: "sad" });
+    await reactingConcept.react({
+      user: userA,
+      target: place,
+      reaction: "wow",
+    });
+
+    // 1. post's reactions are deleted
+    await reactingConcept.deleteByTarget({ target: post });
+
+    const postReactors = await reactingConcept._getReactors({ target: post });
+    assertEquals(postReactors.length, 0, "Post's reactions should be gone.");
+
+    const placeReactors = await reactingConcept._getReactors({ target: place });
+    assertEquals(placeReactors.length, 1, "Place's reactions should remain.");
+
+    // 2. user A's reactions are deleted
+    await reactingConcept.react({
+      user: userB,
+      target: place,
+      reaction: "sad",
+    });
+    const deleteA = await reactingConcept.deleteByUser({ user: userA });
+    assertEquals(deleteA, { reactions: 1 });
+
+    const reactors = await reactingConcept._getReactors({ target: place });
+    assertEquals(reactors, [{ user: userB, reaction: "sad" }]);
+  } finally {
+    await client.close();
+  }
+});
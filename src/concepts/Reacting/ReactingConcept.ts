@@ -0,0 +1,214 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Reacting" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+type Target = ID;
+
+// Internal entity types, represented as IDs
+type ReactionId = ID;
+
+/**
+ * The reactions a user can leave on a target.
+ */
+export type Reaction = "like" | "love" | "laugh" | "wow" | "sad";
+
+const REACTIONS: Reaction[] = ["like", "love", "laugh", "wow", "sad"];
+
+/**
+ * The number of each reaction left on a target.
+ */
+export type ReactionCounts = Record<Reaction, number>;
+
+/**
+ * State: A set of Reactions with a target, a user, a reaction, and the date it was left,
+ * with at most one reaction per user per target.
+ */
+export interface ReactionDoc {
+  _id: ReactionId;
+  target: Target;
+  user: User;
+  reaction: Reaction;
+  reactedAt: Date;
+}
+
+/**
+ * @concept Reacting
+ * @purpose To let users respond to content at a glance.
+ */
+export default class ReactingConcept {
+  reactions: Collection<ReactionDoc>;
+
+  constructor(private readonly db: Db) {
+    this.reactions = this.db.collection(PREFIX + "reactions");
+  }
+
+  /**
+   * Helper: Checks that a reaction is one of the fixed set of reactions.
+   * @returns an error message, or undefined if the reaction is valid
+   */
+  private checkReaction(reaction: Reaction): string | undefined {
+    if (!REACTIONS.includes(reaction)) {
+      return `Reaction must be one of ${
+        REACTIONS.join(", ")
+      }; got ${reaction}.`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Action: Reacts to a target.
+   * @requires reaction is one of the fixed set of reactions; user hasn't already reacted to target
+   * @effects records user's reaction to target
+   */
+  async react(
+    { user, target, reaction }: {
+      user: User;
+      target: Target;
+      reaction: Reaction;
+    },
+  ): Promise<{ target: Target } | { error: string }> {
+    // check reaction is valid
+    const reactionError = this.checkReaction(reaction);
+    if (reactionError) {
+      return { error: reactionError };
+    }
+
+    // check user hasn't reacted yet
+    const existing = await this.reactions.findOne({ user, target });
+    if (existing) {
+      return { error: "User has already reacted to this target." };
+    }
+
+    // record reaction
+    await this.reactions.insertOne({
+      _id: freshID() as ReactionId,
+      target,
+      user,
+      reaction,
+      reactedAt: new Date(),
+    });
+
+    return { target: target };
+  }
+
+  /**
+   * Action: Changes a user's reaction to a target.
+   * @requires reaction is one of the fixed set of reactions; user has reacted to target
+   * @effects updates user's reaction to target
+   */
+  async changeReaction(
+    { user, target, reaction }: {
+      user: User;
+      target: Target;
+      reaction: Reaction;
+    },
+  ): Promise<{ target: Target } | { error: string }> {
+    // check reaction is valid
+    const reactionError = this.checkReaction(reaction);
+    if (reactionError) {
+      return { error: reactionError };
+    }
+
+    // check user has reacted
+    const existing = await this.reactions.findOne({ user, target });
+    if (!existing) {
+      return { error: "User hasn't reacted to this target." };
+    }
+
+    // update reaction
+    await this.reactions.updateOne({ _id: existing._id }, {
+      $set: { reaction: reaction },
+    });
+
+    return { target: target };
+  }
+
+  /**
+   * Action: Removes a user's reaction to a target.
+   * @requires user has reacted to target
+   * @effects removes user's reaction to target
+   */
+  async unreact(
+    { user, target }: { user: User; target: Target },
+  ): Promise<Empty | { error: string }> {
+    const result = await this.reactions.deleteOne({ user, target });
+    if (result.deletedCount === 0) {
+      return { error: "User hasn't reacted to this target." };
+    }
+    return {};
+  }
+
+  /**
+   * Action: Removes all reactions to a target.
+   * @effects removes every user's reaction to target
+   */
+  async deleteByTarget(
+    { target }: { target: Target },
+  ): Promise<Empty> {
+    await this.reactions.deleteMany({ target });
+    return {};
+  }
+
+  /**
+   * Action: Removes all of a user's reactions.
+   * @effects removes user's reaction to every target; returns how many were removed
+   */
+  async deleteByUser(
+    { user }: { user: User },
+  ): Promise<{ reactions: number }> {
+    const result = await this.reactions.deleteMany({ user });
+    return { reactions: result.deletedCount };
+  }
+
+  /**
+   * Query: Counts the reactions to a target.
+   * @effects returns the number of each reaction to target (zero for reactions nobody left)
+   */
+  async _getCounts(
+    { target }: { target: Target },
+  ): Promise<{ counts: ReactionCounts }[]> {
+    const grouped = await this.reactions.aggregate<
+      { _id: Reaction; count: number }
+    >([
+      { $match: { target } },
+      { $group: { _id: "$reaction", count: { $sum: 1 } } },
+    ]).toArray();
+
+    const counts = Object.fromEntries(
+      REACTIONS.map((reaction) => [reaction, 0]),
+    ) as ReactionCounts;
+    for (const { _id, count } of grouped) {
+      counts[_id] = count;
+    }
+    return [{ counts }];
+  }
+
+  /**
+   * Query: Retrieves the users who reacted to a target, in the order they reacted.
+   * @effects returns each user who reacted to target with their reaction, earliest first
+   */
+  async _getReactors(
+    { target }: { target: Target },
+  ): Promise<{ user: User; reaction: Reaction }[]> {
+    const reactions = await this.reactions.find({ target })
+      .sort({ reactedAt: 1 })
+      .toArray();
+    return reactions.map((r) => ({ user: r.user, reaction: r.reaction }));
+  }
+
+  /**
+   * Query: Retrieves a user's reaction to a target.
+   * @effects returns user's reaction to target, if they reacted
+   */
+  async _getReaction(
+    { user, target }: { user: User; target: Target },
+  ): Promise<{ reaction: Reaction }[]> {
+    const reaction = await this.reactions.findOne({ user, target });
+    return reaction ? [{ reaction: reaction.reaction }] : [];
+  }
+}
@@ -1,8 +1,11 @@
-import { Hono } from "jsr:@hono/hono";
+import { type Context, Hono, type HonoRequest } from "jsr:@hono/hono";
+import { bodyLimit } from "jsr:@hono/hono/body-limit";
 import { cors } from "jsr:@hono/hono/cors";
+import { getConnInfo } from "jsr:@hono/hono/deno";
 import { Collection, Db } from "npm:mongodb";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
+import { UploadedFile } from "@concepts/MediaStorage/MediaStorageConcept.ts";
 import { exclusions, inclusions } from "./passthrough.ts";
 import "jsr:@std/dotenv/load";
 
@@ -14,6 +17,9 @@ import "jsr:@std/dotenv/load";
  * - REQUESTING_BASE_URL: the base URL prefix for api requests, default "/api"
  * - REQUESTING_TIMEOUT: the timeout for requests, default 10000ms
  * - REQUESTING_SAVE_RESPONSES: whether to persist responses or not, default true
+ * - REQUESTING_MAX_UPLOAD_SIZE: the largest file accepted in a multipart request, default 10MB;
+ *   request bodies larger than this plus room for other fields are rejected while they're read
+ * - REQUESTING_TRUST_PROXY: whether to take the client's address from the X-Forwarded-For header, default false
  */
 const PORT = parseInt(Deno.env.get("PORT") ?? "8000", 10);
 const REQUESTING_BASE_URL = Deno.env.get("REQUESTING_BASE_URL") ?? "/api";
@@ -30,6 +36,19 @@ const REQUESTING_ALLOWED_DOMAIN = Deno.env.get("REQUESTING_ALLOWED_DOMAIN") ??
 const REQUESTING_SAVE_RESPONSES = Deno.env.get("REQUESTING_SAVE_RESPONSES") ??
   true;
 
+// Largest file (in bytes) accepted in a multipart request
+const REQUESTING_MAX_UPLOAD_SIZE = parseInt(
+  Deno.env.get("REQUESTING_MAX_UPLOAD_SIZE") ?? `${10 * 1024 * 1024}`,
+  10,
+);
+
+// Room (in bytes) in a request body for fields and multipart headers besides the upload
+const REQUESTING_BODY_OVERHEAD = 64 * 1024;
+
+// Whether the server sits behind a proxy that reports the client's address
+const REQUESTING_TRUST_PROXY =
+  Deno.env.get("REQUESTING_TRUST_PROXY") === "true";
+
 const PREFIX = "Requesting" + ".";
 
 // --- Type Definitions ---
@@ -47,6 +66,15 @@ interface RequestDoc {
   createdAt: Date;
 }
 
+/**
+ * The client that made a request, passed to synchronizations as the
+ * `client` input parameter. Either field is null if it isn't known.
+ */
+export interface ClientInfo {
+  userAgent: string | null;
+  remoteAddress: string | null;
+}
+
 /**
  * Represents an in-flight request waiting for a response.
  * This state is not persisted and lives only in memory.
@@ -88,7 +116,7 @@ export default class RequestingConcept {
     const requestId = freshID() as Request;
     const requestDoc: RequestDoc = {
       _id: requestId,
-      input: inputs,
+      input: withoutUploadData(inputs),
       createdAt: new Date(),
     };
 
@@ -132,6 +160,18 @@ export default class RequestingConcept {
     return { request };
   }
 
+  /**
+   * _getInput (request: Request): (input: unknown)
+   *
+   * **effects** returns the input of the given Request, so synchronizations can read optional parameters they can't match on.
+   */
+  async _getInput(
+    { request }: { request: Request },
+  ): Promise<{ input: RequestDoc["input"] }[]> {
+    const requestDoc = await this.requests.findOne({ _id: request });
+    return requestDoc ? [{ input: requestDoc.input }] : [];
+  }
+
   /**
    * _awaitResponse (request: Request): (response: unknown)
    *
@@ -176,6 +216,81 @@ export default class RequestingConcept {
   }
 }
 
+/**
+ * Returns a copy of request inputs with the bytes of any uploaded files
+ * replaced by their size, so that uploads aren't duplicated into the request log.
+ */
+function withoutUploadData(
+  inputs: { path: string; [key: string]: unknown },
+): { path: string; [key: string]: unknown } {
+  const entries = Object.entries(inputs).map(([key, value]) => {
+    if (isUploadedFile(value)) {
+      const { data, ...file } = value;
+      return [key, { ...file, size: data.length }];
+    }
+    return [key, value];
+  });
+  return Object.fromEntries(entries);
+}
+
+function isUploadedFile(value: unknown): value is UploadedFile {
+  return typeof value === "object" && value !== null &&
+    (value as UploadedFile).data instanceof Uint8Array;
+}
+
+/**
+ * Reads the body of an incoming request, which may either be a JSON object
+ * or multipart form data. Each file field in a multipart body is converted
+ * into an `UploadedFile`; all other fields are passed through as strings.
+ */
+async function parseRequestBody(req: HonoRequest): Promise<unknown> {
+  const contentType = req.header("content-type") ?? "";
+  if (!contentType.startsWith("multipart/form-data")) {
+    return await req.json();
+  }
+
+  const form = await req.parseBody();
+  const body: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (value instanceof File) {
+      if (value.size > REQUESTING_MAX_UPLOAD_SIZE) {
+        throw new Error(
+          `Upload too large: ${value.name} exceeds ${REQUESTING_MAX_UPLOAD_SIZE} bytes.`,
+        );
+      }
+      const file: UploadedFile = {
+        filename: value.name,
+        contentType: value.type,
+        data: new Uint8Array(await value.arrayBuffer()),
+      };
+      body[key] = file;
+    } else {
+      body[key] = value;
+    }
+  }
+  return body;
+}
+
+/**
+ * Describes the client that made an incoming request from its headers and connection.
+ * The address is taken from the first X-Forwarded-For entry only when the proxy is trusted.
+ */
+function clientInfo(c: Context): ClientInfo {
+  const forwardedFor = REQUESTING_TRUST_PROXY
+    ? c.req.header("x-forwarded-for")?.split(",")[0].trim()
+    : undefined;
+  let remoteAddress = forwardedFor || null;
+  if (!remoteAddress) {
+    try {
+      remoteAddress = getConnInfo(c).remote.address ?? null;
+    } catch {
+      // connection info is unavailable outside of Deno.serve
+      remoteAddress = null;
+    }
+  }
+  return { userAgent: c.req.header("user-agent") ?? null, remoteAddress };
+}
+
 /**
  * Starts the Hono web server that listens for incoming requests and pipes them
  * into the Requesting concept instance. Additionally, it allows passthrough
@@ -199,6 +314,22 @@ export function startRequestingServer(
       credentials: true,
     }),
   );
+  // reject oversized bodies from their Content-Length, or while streaming them,
+  // before they're buffered in memory
+  app.use(
+    `${REQUESTING_BASE_URL}/*`,
+    bodyLimit({
+      maxSize: REQUESTING_MAX_UPLOAD_SIZE + REQUESTING_BODY_OVERHEAD,
+      onError: (c) =>
+        c.json(
+          {
+            error:
+              `Upload too large: request exceeds ${REQUESTING_MAX_UPLOAD_SIZE} bytes.`,
+          },
+          413,
+        ),
+    }),
+  );
 
   /**
    * PASSTHROUGH ROUTES
@@ -255,10 +386,13 @@ export function startRequestingServer(
   const routePath = `${REQUESTING_BASE_URL}/*`;
   app.post(routePath, async (c) => {
     try {
-      const body = await c.req.json();
+      const body = await parseRequestBody(c.req);
       if (typeof body !== "object" || body === null) {
         return c.json(
-          { error: "Invalid request body. Must be a JSON object." },
+          {
+            error:
+              "Invalid request body. Must be a JSON object or multipart form data.",
+          },
           400,
         );
       }
@@ -267,10 +401,11 @@ export function startRequestingServer(
       // e.g., if base is /api and request is /api/users/create, path is /users/create
       const actionPath = c.req.path.substring(REQUESTING_BASE_URL.length);
 
-      // Combine the path from the URL with the JSON body to form the action's input.
+      // Combine the path from the URL and the requesting client with the request body to form the action's input.
       const inputs = {
         ...body,
         path: actionPath,
+        client: clientInfo(c),
       };
 
       console.log(`[Requesting] Received request for path: ${inputs.path}`);
@@ -291,6 +426,9 @@ export function startRequestingServer(
         if (e.message.includes("timed out")) {
           return c.json({ error: "Request timed out." }, 504); // Gateway Timeout
         }
+        if (e.message.includes("Upload too large")) {
+          return c.json({ error: e.message }, 413); // Payload Too Large
+        }
         return c.json({ error: "An internal server error occurred." }, 500);
       } else {
         return c.json({ error: "unknown error occurred." }, 418);
@@ -27,14 +27,15 @@
 export const inclusions: Record<string, string> = {
   // UserAuthentication - public authentication actions
   "/api/UserAuthentication/register": "public registration",
-  "/api/UserAuthentication/hashPassword": "public registration",
   "/api/UserAuthentication/_getUserByUsername":
     "can publicly lookup users by username",
   "/api/UserAuthentication/_getUsernameByUser":
     "can publicly lookup username by user",
-  "/api/UserAuthentication/_getUsernames": "can publicly lookup all usernames",
-  "/api/Posting/_getPostById": "can publicly lookup posts by ID",
-  "/api/Wishlist/_getPlaceById": "can publicly lookup places by ID",
+  // Gazetteer - public reference data
+  "/api/Gazetteer/_lookupCountry": "countries are public reference data",
+  "/api/Gazetteer/_lookupCity": "cities are public reference data",
+  "/api/Gazetteer/_autocomplete": "place suggestions while typing a place",
+  "/api/Gazetteer/_canonicalize": "preview how a place will be saved",
   // "/api/UserAuthentication/authenticate": "public login",
   // "/api/UserAuthentication/logout": "public logout",
   // "/api/UserAuthentication/_getSessionUser": "check current session",
@@ -53,13 +54,35 @@ export const inclusions: Record<string, string> = {
 export const exclusions: Array<string> = [
   // user authentication
   "/api/UserAuthentication/authenticate",
+  "/api/UserAuthentication/_getUsernames",
   "/api/UserAuthentication/logout",
   "/api/UserAuthentication/_getSessionUser",
+  "/api/UserAuthentication/changePassword",
+  "/api/UserAuthentication/setEmail",
+  "/api/UserAuthentication/requestPasswordReset",
+  "/api/UserAuthentication/resetPassword",
+  "/api/UserAuthentication/deleteAccount",
+  "/api/UserAuthentication/changeUsername",
+  "/api/UserAuthentication/_getUsernameHistory",
+  "/api/UserAuthentication/_getEmail",
+  "/api/UserAuthentication/passwordMatches",
+  "/api/UserAuthentication/setPassword",
+  "/api/UserAuthentication/hashToken",
+  "/api/UserAuthentication/reservedFor",
+  "/api/UserAuthentication/checkUsername",
+  "/api/UserAuthentication/checkPassword",
+  "/api/UserAuthentication/hashPassword",
 
   // sessioning
   "/api/Sessioning/create",
+  "/api/Sessioning/renew",
   "/api/Sessioning/delete",
+  "/api/Sessioning/revoke",
+  "/api/Sessioning/deleteAll",
+  "/api/Sessioning/deleteOthers",
   "/api/Sessioning/_getUser",
+  "/api/Sessioning/_getSessions",
+  "/api/Sessioning/ensureExpiryIndex",
 
   // posting
   "/api/Posting/create",
@@ -67,23 +90,170 @@ export const exclusions: Array<string> = [
   "/api/Posting/editPlace",
   "/api/Posting/editDates",
   "/api/Posting/editDescription",
+  "/api/Posting/addStop",
+  "/api/Posting/editStop",
+  "/api/Posting/removeStop",
+  "/api/Posting/reorderStops",
+  "/api/Posting/setVisibility",
+  "/api/Posting/setStatus",
   "/api/Posting/delete",
+  "/api/Posting/deleteByCreator",
+  "/api/Posting/attachMedia",
+  "/api/Posting/reorderMedia",
+  "/api/Posting/captionMedia",
+  "/api/Posting/detachMedia",
   "/api/Posting/_getPosts",
+  "/api/Posting/_getUpcomingPosts",
+  "/api/Posting/_getPostsWithVisibility",
+  "/api/Posting/_getPostById",
+  "/api/Posting/_getPostsWithMedia",
+  "/api/Posting/_getPlacesVisited",
+  "/api/Posting/_getVisitorsOfCountries",
+  "/api/Posting/_getDaysTravelled",
+  "/api/Posting/_getTripHighlights",
+  "/api/Posting/_getActivity",
+  "/api/Posting/stopsOf",
+  "/api/Posting/checkStops",
+  "/api/Posting/saveStops",
+  "/api/Posting/postsFilter",
+  "/api/Posting/checkDates",
+  "/api/Posting/promoteStatuses",
+  "/api/Posting/backfillTimestamps",
+
+  // outbox
+  "/api/Outbox/send",
+  "/api/Outbox/deleteByRecipient",
+  "/api/Outbox/_getMessages",
+  "/api/Outbox/_getMessageById",
+
+  // profile
+  "/api/Profile/setDisplayName",
+  "/api/Profile/setBio",
+  "/api/Profile/setAvatar",
+  "/api/Profile/clearAvatar",
+  "/api/Profile/setHomeBase",
+  "/api/Profile/clearHomeBase",
+  "/api/Profile/setTravelStyles",
+  "/api/Profile/setFieldVisibility",
+  "/api/Profile/deleteByUser",
+  "/api/Profile/_getProfile",
+  "/api/Profile/_getFieldVisibility",
+  "/api/Profile/_getUsersWithAvatar",
+  "/api/Profile/update",
+
+  // throttling
+  "/api/Throttling/recordFailure",
+  "/api/Throttling/reset",
+  "/api/Throttling/_getStatus",
+  "/api/Throttling/ensureExpiryIndex",
+
+  // circles
+  "/api/Circles/createCircle",
+  "/api/Circles/renameCircle",
+  "/api/Circles/deleteCircle",
+  "/api/Circles/addMember",
+  "/api/Circles/removeMember",
+  "/api/Circles/removeMemberFromAll",
+  "/api/Circles/shareWithCircles",
+  "/api/Circles/shareWithAllFriends",
+  "/api/Circles/deleteItem",
+  "/api/Circles/deleteByUser",
+  "/api/Circles/_getCircles",
+  "/api/Circles/_getSharing",
+  "/api/Circles/_isSharedWith",
+  "/api/Circles/checkName",
+
+  // following
+  "/api/Following/follow",
+  "/api/Following/unfollow",
+  "/api/Following/removeBetween",
+  "/api/Following/deleteByUser",
+  "/api/Following/_getFollowers",
+  "/api/Following/_getFollowing",
+  "/api/Following/_getCounts",
+  "/api/Following/_isFollowing",
+
+  // two-factor
+  "/api/TwoFactor/enroll",
+  "/api/TwoFactor/confirm",
+  "/api/TwoFactor/disable",
+  "/api/TwoFactor/regenerateRecoveryCodes",
+  "/api/TwoFactor/startChallenge",
+  "/api/TwoFactor/verifyChallenge",
+  "/api/TwoFactor/deleteByUser",
+  "/api/TwoFactor/_getStatus",
+  "/api/TwoFactor/_getChallengeUser",
+  "/api/TwoFactor/ensureExpiryIndex",
+  "/api/TwoFactor/acceptCode",
+  "/api/TwoFactor/useRecoveryCode",
+  "/api/TwoFactor/replaceRecoveryCodes",
+
+  // media storage
+  "/api/MediaStorage/upload",
+  "/api/MediaStorage/delete",
+  "/api/MediaStorage/deleteByOwner",
+  "/api/MediaStorage/_getMediaById",
+  "/api/MediaStorage/_getContent",
 
   // wishlist
   "/api/Wishlist/addPlace",
   "/api/Wishlist/removePlace",
+  "/api/Wishlist/removeByUser",
+  "/api/Wishlist/_getPlaceById",
+  "/api/Wishlist/_getUsersWishingFor",
+  "/api/Wishlist/markVisited",
+  "/api/Wishlist/unmarkVisited",
   "/api/Wishlist/_getPlaces",
+  "/api/Wishlist/_getArchivedPlaces",
+  "/api/Wishlist/_getPlacesVisitedOn",
+  "/api/Wishlist/_getRecentlyAdded",
+  "/api/Wishlist/backfillTimestamps",
 
   // friending
   "/api/Friending/_runInTransaction",
+  "/api/Friending/migrateLegacyRequests",
   "/api/Friending/requestFriend",
   "/api/Friending/unrequestFriend",
   "/api/Friending/acceptFriend",
   "/api/Friending/rejectFriend",
   "/api/Friending/endFriendship",
+  "/api/Friending/removeUser",
   "/api/Friending/_isFriendsWith",
   "/api/Friending/_getIncomingRequests",
   "/api/Friending/_getOutgoingRequests",
   "/api/Friending/_getFriends",
+  "/api/Friending/block",
+  "/api/Friending/unblock",
+  "/api/Friending/_getBlocked",
+  "/api/Friending/_getBlockers",
+  "/api/Friending/_getConnections",
+  "/api/Friending/_getFriendsOfFriends",
+
+  // commenting
+  "/api/Commenting/add",
+  "/api/Commenting/reply",
+  "/api/Commenting/edit",
+  "/api/Commenting/delete",
+  "/api/Commenting/deleteByTarget",
+  "/api/Commenting/anonymizeAuthor",
+  "/api/Commenting/_getComments",
+  "/api/Commenting/_getReplies",
+  "/api/Commenting/_getCommentById",
+  "/api/Commenting/checkBody",
+
+  // reacting
+  "/api/Reacting/react",
+  "/api/Reacting/changeReaction",
+  "/api/Reacting/unreact",
+  "/api/Reacting/deleteByTarget",
+  "/api/Reacting/deleteByUser",
+  "/api/Reacting/_getCounts",
+  "/api/Reacting/_getReactors",
+  "/api/Reacting/_getReaction",
+  "/api/Reacting/checkReaction",
+
+  // gazetteer
+  "/api/Gazetteer/findCountry",
+  "/api/Gazetteer/findCity",
+  "/api/Gazetteer/matchScore",
 ];
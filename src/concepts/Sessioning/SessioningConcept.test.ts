@@ -0,0 +1,197 @@
+import { assertEquals, assertExists, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import SessioningConcept from "./SessioningConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const nonSession = "session:nonSession" as ID;
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user logs in, the session is renewed as it's used, and then deleted.
+ */
+Deno.test("Test Case 1 - operational principle: user creates, renews, and deletes a session", async () => {
+  const [db, client] = await testDb();
+  const sessioningConcept = new SessioningConcept(db);
+
+  try {
+    // 1. user logs in
+    const { session } = await sessioningConcept.create({ user: userA });
+    assertExists(session);
+    assertEquals(await sessioningConcept._getUser({ session }), [
+      { user: userA },
+    ]);
+
+    const [{ sessionData: created }] = await sessioningConcept._getSessions({
+      user: userA,
+    });
+    assertEquals(created.createdAt, created.lastSeenAt);
+    assertEquals(
+      created.expiresAt > created.createdAt,
+      true,
+      "Session should expire after it's created.",
+    );
+
+    // 2. session is renewed
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const renew = await sessioningConcept.renew({ session });
+    assertNotEquals("error" in renew, true, "Renewing should not fail.");
+
+    const [{ sessionData: renewed }] = await sessioningConcept._getSessions({
+      user: userA,
+    });
+    assertEquals(
+      renewed.lastSeenAt > created.lastSeenAt,
+      true,
+      "Last seen date should move forward.",
+    );
+    assertEquals(
+      renewed.expiresAt >= created.expiresAt,
+      true,
+      "Expiry date shouldn't move back.",
+    );
+
+    // 3. user logs out
+    const deleteSession = await sessioningConcept.delete({ session });
+    assertEquals("error" in deleteSession, false, "Delete should not fail.");
+    const [lookup] = await sessioningConcept._getUser({ session });
+    assertEquals("error" in lookup, true, "Deleted session should not work.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates expired sessions are rejected, can't be renewed, and aren't listed.
+ */
+Deno.test("Test Case 2 - expired sessions", async () => {
+  const [db, client] = await testDb();
+  const sessioningConcept = new SessioningConcept(db);
+
+  try {
+    const { session: expired } = await sessioningConcept.create({
+      user: userA,
+    });
+    const { session: active } = await sessioningConcept.create({
+      user: userA,
+    });
+
+    // 1. session passes its expiry date
+    await sessioningConcept.sessions.updateOne({ _id: expired }, {
+      $set: { expiresAt: new Date(Date.now() - 1000) },
+    });
+
+    const [lookup] = await sessioningConcept._getUser({ session: expired });
+    assertEquals("error" in lookup, true, "Expired session should not work.");
+
+    const renew = await sessioningConcept.renew({ session: expired });
+    assertEquals("error" in renew, true, "Renewing expired should fail.");
+
+    const sessions = await sessioningConcept._getSessions({ user: userA });
+    assertEquals(
+      sessions.map((s) => s.sessionData.session),
+      [active],
+      "Only the active session should be listed.",
+    );
+
+    // 2. nonexistent session is rejected
+    const [missing] = await sessioningConcept._getUser({ session: nonSession });
+    assertEquals("error" in missing, true, "Nonexistent session should fail.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates user logs out of their other sessions and then everywhere, leaving other users' sessions.
+ */
+Deno.test("Test Case 3 - delete all of a user's sessions", async () => {
+  const [db, client] = await testDb();
+  const sessioningConcept = new SessioningConcept(db);
+
+  try {
+    const { session: sessionA } = await sessioningConcept.create({
+      user: userA,
+    });
+    await sessioningConcept.create({ user: userA });
+    const { session: sessionB } = await sessioningConcept.create({
+      user: userB,
+    });
+
+    // 1. user A logs out of their other sessions
+    await sessioningConcept.deleteOthers({ user: userA, session: sessionA });
+
+    const others = await sessioningConcept._getSessions({ user: userA });
+    assertEquals(others.map((s) => s.sessionData.session), [sessionA]);
+
+    // 2. user A logs out everywhere
+    await sessioningConcept.deleteAll({ user: userA });
+
+    const sessionsA = await sessioningConcept._getSessions({ user: userA });
+    assertEquals(sessionsA.length, 0, "User A's sessions should be deleted.");
+
+    assertEquals(await sessioningConcept._getUser({ session: sessionB }), [
+      { user: userB },
+    ]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 4
+ * Demonstrates sessions record the client they were created from,
+ * and a user can revoke one of their own sessions but not another user's.
+ */
+Deno.test("Test Case 4 - session devices", async () => {
+  const [db, client] = await testDb();
+  const sessioningConcept = new SessioningConcept(db);
+  const phone = {
+    userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)",
+    remoteAddress: "203.0.113.7",
+  };
+
+  try {
+    // 1. user logs in from their phone and from an unknown client
+    const { session: phoneSession } = await sessioningConcept.create({
+      user: userA,
+      client: phone,
+    });
+    const { session: otherSession } = await sessioningConcept.create({
+      user: userA,
+    });
+
+    const sessions = await sessioningConcept._getSessions({ user: userA });
+    const listedPhone = sessions.find((s) =>
+      s.sessionData.session === phoneSession
+    );
+    assertEquals(listedPhone?.sessionData.userAgent, phone.userAgent);
+    assertEquals(listedPhone?.sessionData.remoteAddress, phone.remoteAddress);
+    const listedOther = sessions.find((s) =>
+      s.sessionData.session === otherSession
+    );
+    assertEquals(listedOther?.sessionData.userAgent, null);
+
+    // 2. another user can't revoke the phone's session
+    const revokeB = await sessioningConcept.revoke({
+      user: userB,
+      session: phoneSession,
+    });
+    assertEquals("error" in revokeB, true, "Revoking another's should fail.");
+
+    // 3. user revokes their phone's session
+    const revoke = await sessioningConcept.revoke({
+      user: userA,
+      session: phoneSession,
+    });
+    assertNotEquals("error" in revoke, true, "Revoking should not fail.");
+
+    const remaining = await sessioningConcept._getSessions({ user: userA });
+    assertEquals(remaining.map((s) => s.sessionData.session), [otherSession]);
+  } finally {
+    await client.close();
+  }
+});
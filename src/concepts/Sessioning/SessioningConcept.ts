@@ -6,46 +6,155 @@ import { Empty, ID } from "@utils/types.ts";
 type User = ID;
 type Session = ID;
 
+// --- Expiry Constants ---
+// Longest a session lasts after it is created, in seconds (default 30 days).
+const SESSION_ABSOLUTE_TTL = parseInt(
+  Deno.env.get("SESSION_ABSOLUTE_TTL") ?? `${30 * 24 * 60 * 60}`,
+  10,
+);
+// Longest a session lasts without being renewed, in seconds (default 7 days).
+const SESSION_IDLE_TTL = parseInt(
+  Deno.env.get("SESSION_IDLE_TTL") ?? `${7 * 24 * 60 * 60}`,
+  10,
+);
+// --- End Expiry Constants ---
+
 // Define the shape of the document in the 'sessions' collection
 /**
  * a set of `Session`s with
  *   a `user` User
+ *   a `createdAt` Date
+ *   a `lastSeenAt` Date
+ *   an `expiresAt` Date
+ *   a `userAgent` string or null
+ *   a `remoteAddress` string or null
  */
 interface SessionDoc {
   _id: Session;
   user: User;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  userAgent: string | null;
+  remoteAddress: string | null;
+}
+
+/**
+ * The client a session was created from, as reported by the Requesting server.
+ */
+export interface ClientInfo {
+  userAgent: string | null;
+  remoteAddress: string | null;
+}
+
+/**
+ * A session as listed to its user.
+ */
+export interface SessionInfo {
+  session: Session;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  userAgent: string | null;
+  remoteAddress: string | null;
 }
 
 const PREFIX = "Sessioning" + ".";
 
+/**
+ * The date a session expires: the idle TTL after it was last seen,
+ * but never later than the absolute TTL after it was created.
+ */
+function expiryDate(createdAt: Date, lastSeenAt: Date): Date {
+  return new Date(
+    Math.min(
+      createdAt.getTime() + SESSION_ABSOLUTE_TTL * 1000,
+      lastSeenAt.getTime() + SESSION_IDLE_TTL * 1000,
+    ),
+  );
+}
+
 /**
  * @concept Sessioning
  * @purpose To maintain a user's logged-in state across multiple requests without re-sending credentials.
  */
 export default class SessioningConcept {
   public readonly sessions: Collection<SessionDoc>;
+  private expiryIndex?: Promise<string>;
 
   constructor(private readonly db: Db) {
     this.sessions = this.db.collection<SessionDoc>(PREFIX + "sessions");
   }
 
   /**
-   * create (user: User): (session: Session)
+   * Ensures MongoDB removes sessions once their expiry date passes.
+   * Expired sessions are also rejected before then, since the TTL monitor only runs periodically.
+   */
+  private ensureExpiryIndex(): Promise<string> {
+    this.expiryIndex ??= this.sessions.createIndex({ expiresAt: 1 }, {
+      expireAfterSeconds: 0,
+    });
+    return this.expiryIndex;
+  }
+
+  /**
+   * create (user: User, client?: ClientInfo): (session: Session)
    *
    * **requires**: true.
    *
-   * **effects**: creates a new Session `s`; associates it with the given `user`; returns `s` as `session`.
+   * **effects**: creates a new Session `s`; associates it with the given `user` and the `client` it was created from, if known;
+   * sets its creation and last seen dates to now and its expiry date accordingly; returns `s` as `session`.
    */
-  async create({ user }: { user: User }): Promise<{ session: Session }> {
+  async create(
+    { user, client }: { user: User; client?: ClientInfo },
+  ): Promise<{ session: Session }> {
+    await this.ensureExpiryIndex();
+
     const newSessionId = freshID() as Session;
+    const now = new Date();
     const doc: SessionDoc = {
       _id: newSessionId,
       user: user,
+      createdAt: now,
+      lastSeenAt: now,
+      expiresAt: expiryDate(now, now),
+      userAgent: client?.userAgent ?? null,
+      remoteAddress: client?.remoteAddress ?? null,
     };
     await this.sessions.insertOne(doc);
     return { session: newSessionId };
   }
 
+  /**
+   * renew (session: Session): (session: Session)
+   *
+   * **requires**: the given `session` exists and hasn't expired.
+   *
+   * **effects**: sets the session's last seen date to now and pushes back its expiry date,
+   * up to the absolute TTL after it was created; returns `session`.
+   */
+  async renew(
+    { session }: { session: Session },
+  ): Promise<{ session: Session } | { error: string }> {
+    const now = new Date();
+    const sessionDoc = await this.sessions.findOne({
+      _id: session,
+      expiresAt: { $gt: now },
+    });
+
+    if (!sessionDoc) {
+      return { error: `Session with id ${session} not found or expired` };
+    }
+
+    await this.sessions.updateOne({ _id: session }, {
+      $set: {
+        lastSeenAt: now,
+        expiresAt: expiryDate(sessionDoc.createdAt, now),
+      },
+    });
+    return { session };
+  }
+
   /**
    * delete (session: Session): ()
    *
@@ -65,10 +174,55 @@ export default class SessioningConcept {
     return {};
   }
 
+  /**
+   * revoke (user: User, session: Session): (session: Session)
+   *
+   * **requires**: the given `session` exists and is associated with the given `user`.
+   *
+   * **effects**: removes the session `s`; returns `s` as `session`.
+   */
+  async revoke(
+    { user, session }: { user: User; session: Session },
+  ): Promise<{ session: Session } | { error: string }> {
+    const result = await this.sessions.deleteOne({ _id: session, user });
+
+    if (result.deletedCount === 0) {
+      return { error: `Session with id ${session} not found` };
+    }
+
+    return { session };
+  }
+
+  /**
+   * deleteAll (user: User): (sessions: number)
+   *
+   * **requires**: true.
+   *
+   * **effects**: removes every session associated with the given `user`; returns how many were removed as `sessions`.
+   */
+  async deleteAll({ user }: { user: User }): Promise<{ sessions: number }> {
+    const result = await this.sessions.deleteMany({ user });
+    return { sessions: result.deletedCount };
+  }
+
+  /**
+   * deleteOthers (user: User, session: Session): ()
+   *
+   * **requires**: true.
+   *
+   * **effects**: removes every session associated with the given `user` except `session`.
+   */
+  async deleteOthers(
+    { user, session }: { user: User; session: Session },
+  ): Promise<Empty> {
+    await this.sessions.deleteMany({ user, _id: { $ne: session } });
+    return {};
+  }
+
   /**
    * _getUser (session: Session): (user: User)
    *
-   * **requires**: the given `session` exists.
+   * **requires**: the given `session` exists and hasn't expired.
    *
    * **effects**: returns the user associated with the session.
    */
@@ -81,6 +235,40 @@ export default class SessioningConcept {
       return [{ error: `Session with id ${session} not found` }];
     }
 
+    // sessions from before expiry was tracked have no expiry date, and count as expired
+    if (!(sessionDoc.expiresAt > new Date())) {
+      return [{ error: `Session with id ${session} has expired` }];
+    }
+
     return [{ user: sessionDoc.user }];
   }
+
+  /**
+   * _getSessions (user: User): (sessionData: SessionInfo)
+   *
+   * **requires**: true.
+   *
+   * **effects**: returns the unexpired sessions associated with the given `user`, most recently seen first.
+   */
+  async _getSessions(
+    { user }: { user: User },
+  ): Promise<Array<{ sessionData: SessionInfo }>> {
+    const sessionDocs = await this.sessions.find({
+      user,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ lastSeenAt: -1 })
+      .toArray();
+
+    return sessionDocs.map((s) => ({
+      sessionData: {
+        session: s._id,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        expiresAt: s.expiresAt,
+        userAgent: s.userAgent ?? null,
+        remoteAddress: s.remoteAddress ?? null,
+      },
+    }));
+  }
 }
@@ -0,0 +1,111 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import ThrottlingConcept from "./ThrottlingConcept.ts";
+
+const keyA = "username:Alice";
+const keyB = "address:203.0.113.7";
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: repeated failures lock a key out for longer each time,
+ * until it's reset.
+ */
+Deno.test("Test Case 1 - operational principle: failures lock a key out until it's reset", async () => {
+  const [db, client] = await testDb();
+  const throttlingConcept = new ThrottlingConcept(db);
+
+  try {
+    // 1. the free attempts don't lock the key out
+    for (let i = 1; i < 5; i++) {
+      const failure = await throttlingConcept.recordFailure({ key: keyA });
+      assertEquals(failure.failures, i);
+      assertEquals(failure.lockedUntil, null);
+    }
+    const [{ status: free }] = await throttlingConcept._getStatus({
+      key: keyA,
+    });
+    assertEquals(free, { failures: 4, locked: false, lockedUntil: null });
+
+    // 2. further failures lock the key out, doubling each time
+    const fifth = await throttlingConcept.recordFailure({ key: keyA });
+    assertExists(fifth.lockedUntil);
+    const firstLockout = fifth.lockedUntil.getTime() - Date.now();
+    assertEquals(
+      firstLockout > 25 * 1000 && firstLockout <= 30 * 1000,
+      true,
+      "First lockout should last the base delay.",
+    );
+
+    const sixth = await throttlingConcept.recordFailure({ key: keyA });
+    assertExists(sixth.lockedUntil);
+    const secondLockout = sixth.lockedUntil.getTime() - Date.now();
+    assertEquals(
+      secondLockout > 55 * 1000 && secondLockout <= 60 * 1000,
+      true,
+      "Second lockout should last twice as long.",
+    );
+
+    const [{ status: locked }] = await throttlingConcept._getStatus({
+      key: keyA,
+    });
+    assertEquals(locked.locked, true);
+    assertEquals(locked.lockedUntil, sixth.lockedUntil);
+
+    // 3. other keys aren't affected
+    const [{ status: other }] = await throttlingConcept._getStatus({
+      key: keyB,
+    });
+    assertEquals(other.locked, false);
+
+    // 4. key is reset
+    assertEquals(await throttlingConcept.reset({ key: keyA }), {
+      key: keyA,
+      failures: 6,
+    });
+    const [{ status: reset }] = await throttlingConcept._getStatus({
+      key: keyA,
+    });
+    assertEquals(reset, { failures: 0, locked: false, lockedUntil: null });
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates lockouts pass, and failures are forgotten once they expire.
+ */
+Deno.test("Test Case 2 - lockouts and failures expire", async () => {
+  const [db, client] = await testDb();
+  const throttlingConcept = new ThrottlingConcept(db);
+
+  try {
+    for (let i = 0; i < 5; i++) {
+      await throttlingConcept.recordFailure({ key: keyB });
+    }
+
+    // 1. once the lockout passes, the key isn't locked but keeps its failures
+    await throttlingConcept.counters.updateOne({ _id: keyB }, {
+      $set: { lockedUntil: new Date(Date.now() - 1000) },
+    });
+    const [{ status: passed }] = await throttlingConcept._getStatus({
+      key: keyB,
+    });
+    assertEquals(passed, { failures: 5, locked: false, lockedUntil: null });
+
+    // 2. once the failures expire, they're forgotten
+    await throttlingConcept.counters.updateOne({ _id: keyB }, {
+      $set: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    const [{ status: expired }] = await throttlingConcept._getStatus({
+      key: keyB,
+    });
+    assertEquals(expired.failures, 0);
+
+    const failure = await throttlingConcept.recordFailure({ key: keyB });
+    assertEquals(failure.failures, 1, "Failures should start over.");
+    assertEquals(failure.lockedUntil, null);
+  } finally {
+    await client.close();
+  }
+});
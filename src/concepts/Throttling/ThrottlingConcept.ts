@@ -0,0 +1,158 @@
+import { Collection, Db } from "npm:mongodb";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "Throttling" + ".";
+
+// --- Backoff Constants ---
+// Failures allowed before a key is locked out.
+const THROTTLE_FREE_ATTEMPTS = parseInt(
+  Deno.env.get("THROTTLE_FREE_ATTEMPTS") ?? "5",
+  10,
+);
+// Lockout after the first failure past the free attempts, in seconds; doubles with each further failure.
+const THROTTLE_BASE_DELAY = parseInt(
+  Deno.env.get("THROTTLE_BASE_DELAY") ?? "30",
+  10,
+);
+// Longest lockout, in seconds (default 1 hour).
+const THROTTLE_MAX_DELAY = parseInt(
+  Deno.env.get("THROTTLE_MAX_DELAY") ?? `${60 * 60}`,
+  10,
+);
+// How long failures are remembered after the last one, in seconds (default 1 day).
+const THROTTLE_WINDOW = parseInt(
+  Deno.env.get("THROTTLE_WINDOW") ?? `${24 * 60 * 60}`,
+  10,
+);
+// --- End Backoff Constants ---
+
+/**
+ * State: A set of Counters with a key, the number of recent failures, the date of the last failure,
+ * the date the key is locked out until (if it is), and the date the failures are forgotten.
+ */
+export interface CounterDoc {
+  _id: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil: Date | null;
+  expiresAt: Date;
+}
+
+/**
+ * Whether a key is locked out, and until when.
+ */
+export interface ThrottleStatus {
+  failures: number;
+  locked: boolean;
+  lockedUntil: Date | null;
+}
+
+/**
+ * How long a key is locked out after a given number of failures, in seconds:
+ * nothing for the free attempts, then exponentially longer up to the longest lockout.
+ */
+function lockoutSeconds(failures: number): number {
+  if (failures < THROTTLE_FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(
+    THROTTLE_BASE_DELAY * 2 ** (failures - THROTTLE_FREE_ATTEMPTS),
+    THROTTLE_MAX_DELAY,
+  );
+}
+
+/**
+ * @concept Throttling
+ * @purpose To slow down repeated failed attempts, such as guessing a password.
+ */
+export default class ThrottlingConcept {
+  counters: Collection<CounterDoc>;
+  private expiryIndex?: Promise<string>;
+
+  constructor(private readonly db: Db) {
+    this.counters = this.db.collection(PREFIX + "counters");
+  }
+
+  /**
+   * Ensures MongoDB removes counters once their failures are forgotten.
+   * Forgotten counters are also ignored before then, since the TTL monitor only runs periodically.
+   */
+  private ensureExpiryIndex(): Promise<string> {
+    this.expiryIndex ??= this.counters.createIndex({ expiresAt: 1 }, {
+      expireAfterSeconds: 0,
+    });
+    return this.expiryIndex;
+  }
+
+  /**
+   * Action: Records a failed attempt for a key.
+   * @effects increments the key's failures (starting over if the previous ones were forgotten);
+   * locks the key out for longer the more failures it has past the free attempts;
+   * returns the key, its failures, and the date it's locked out until (null if it isn't)
+   */
+  async recordFailure(
+    { key }: { key: string },
+  ): Promise<{ key: string; failures: number; lockedUntil: Date | null }> {
+    await this.ensureExpiryIndex();
+
+    // forget failures from before the window
+    const now = new Date();
+    await this.counters.deleteOne({ _id: key, expiresAt: { $lte: now } });
+
+    const counter = await this.counters.findOneAndUpdate({ _id: key }, {
+      $inc: { failures: 1 },
+      $set: {
+        lastFailureAt: now,
+        expiresAt: new Date(now.getTime() + THROTTLE_WINDOW * 1000),
+      },
+      $setOnInsert: { lockedUntil: null },
+    }, { upsert: true, returnDocument: "after" });
+    const failures = counter?.failures ?? 1;
+
+    const seconds = lockoutSeconds(failures);
+    const lockedUntil = seconds > 0
+      ? new Date(now.getTime() + seconds * 1000)
+      : null;
+    await this.counters.updateOne({ _id: key }, { $set: { lockedUntil } });
+
+    return { key, failures, lockedUntil };
+  }
+
+  /**
+   * Action: Clears a key's failures, lifting any lockout.
+   * @effects removes the key's failures and lockout; returns the key and how many unforgotten failures it had
+   */
+  async reset(
+    { key }: { key: string },
+  ): Promise<{ key: string; failures: number }> {
+    const counter = await this.counters.findOneAndDelete({ _id: key });
+    const failures = counter && counter.expiresAt > new Date()
+      ? counter.failures
+      : 0;
+    return { key, failures };
+  }
+
+  /**
+   * Query: Retrieves whether a key is locked out.
+   * @effects returns the key's recent failures, whether it's locked out now, and until when
+   */
+  async _getStatus(
+    { key }: { key: string },
+  ): Promise<{ status: ThrottleStatus }[]> {
+    const now = new Date();
+    const counter = await this.counters.findOne({
+      _id: key,
+      expiresAt: { $gt: now },
+    });
+    const lockedUntil = counter?.lockedUntil && counter.lockedUntil > now
+      ? counter.lockedUntil
+      : null;
+    return [{
+      status: {
+        failures: counter?.failures ?? 0,
+        locked: lockedUntil !== null,
+        lockedUntil,
+      },
+    }];
+  }
+}
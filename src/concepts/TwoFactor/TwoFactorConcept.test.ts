@@ -0,0 +1,261 @@
+import { assertEquals, assertMatch, assertNotEquals } from "jsr:@std/assert";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+import TwoFactorConcept, { totpCode } from "./TwoFactorConcept.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+
+/**
+ * The current TOTP time step, offset by some number of steps.
+ */
+function step(offset = 0): number {
+  return Math.floor(Date.now() / 1000 / 30) + offset;
+}
+
+/**
+ * Test Case 1
+ * Demonstrates operational principle: user enrolls with an authenticator app,
+ * then logs in with a code from it.
+ */
+Deno.test("Test Case 1 - operational principle: user logs in with a second factor", async () => {
+  const [db, client] = await testDb();
+  const twoFactorConcept = new TwoFactorConcept(db);
+
+  try {
+    // 1. user enrolls, getting a secret and URI for their authenticator app
+    const enrollment = await twoFactorConcept.enroll({
+      user: userA,
+      accountName: "Alice",
+    });
+    if ("error" in enrollment) {
+      throw new Error("Enrolling should not fail.");
+    }
+    const { secret, uri } = enrollment;
+    assertMatch(secret, /^[A-Z2-7]{32}$/);
+    assertEquals(
+      uri,
+      `otpauth://totp/Away%3AAlice?secret=${secret}&issuer=Away&algorithm=SHA1&digits=6&period=30`,
+    );
+
+    // 2. two-factor authentication isn't enabled until the user confirms a code
+    assertEquals((await twoFactorConcept._getStatus({ user: userA }))[0], {
+      enabled: false,
+      recoveryCodesRemaining: 0,
+    });
+    const confirmed = await twoFactorConcept.confirm({
+      user: userA,
+      code: totpCode(secret, step()),
+    });
+    if ("error" in confirmed) {
+      throw new Error("Confirming should not fail.");
+    }
+    assertEquals(confirmed.recoveryCodes.length, 10);
+    assertEquals((await twoFactorConcept._getStatus({ user: userA }))[0], {
+      enabled: true,
+      recoveryCodesRemaining: 10,
+    });
+
+    // 3. user enters their password, starting a challenge
+    const started = await twoFactorConcept.startChallenge({ user: userA });
+    if ("error" in started) {
+      throw new Error("Starting a challenge should not fail.");
+    }
+    assertEquals(
+      await twoFactorConcept._getChallengeUser({
+        challenge: started.challenge,
+      }),
+      [{ user: userA }],
+    );
+
+    // 4. user enters the next code from their app, a little ahead of the server's clock
+    const verified = await twoFactorConcept.verifyChallenge({
+      challenge: started.challenge,
+      code: totpCode(secret, step(1)),
+    });
+    assertEquals(verified, { user: userA });
+
+    // 5. challenge can't be used again
+    const reused = await twoFactorConcept.verifyChallenge({
+      challenge: started.challenge,
+      code: totpCode(secret, step(1)),
+    });
+    assertEquals("error" in reused, true, "Reusing a challenge should fail.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 2
+ * Demonstrates wrong, replayed, and out-of-window codes are rejected,
+ * and challenges stop accepting codes after too many wrong ones.
+ */
+Deno.test("Test Case 2 - rejected codes", async () => {
+  const [db, client] = await testDb();
+  const twoFactorConcept = new TwoFactorConcept(db);
+
+  try {
+    const enrollment = await twoFactorConcept.enroll({
+      user: userB,
+      accountName: "Bob",
+    });
+    if ("error" in enrollment) {
+      throw new Error("Enrolling should not fail.");
+    }
+    const { secret } = enrollment;
+
+    // 1. challenges and wrong codes are rejected before confirming
+    const early = await twoFactorConcept.startChallenge({ user: userB });
+    assertEquals("error" in early, true, "Unconfirmed challenge should fail.");
+    const wrong = await twoFactorConcept.confirm({
+      user: userB,
+      code: "abc123",
+    });
+    assertEquals("error" in wrong, true, "Malformed code should fail.");
+
+    const confirmed = await twoFactorConcept.confirm({
+      user: userB,
+      code: totpCode(secret, step()),
+    });
+    assertNotEquals("error" in confirmed, true, "Confirming should not fail.");
+
+    // 2. enrolling again is rejected once confirmed
+    const again = await twoFactorConcept.enroll({
+      user: userB,
+      accountName: "Bob",
+    });
+    assertEquals("error" in again, true, "Enrolling twice should fail.");
+
+    // 3. the code used to confirm can't be replayed, and codes far from now aren't accepted
+    const started = await twoFactorConcept.startChallenge({ user: userB });
+    if ("error" in started) {
+      throw new Error("Starting a challenge should not fail.");
+    }
+    const { challenge } = started;
+    const replayed = await twoFactorConcept.verifyChallenge({
+      challenge,
+      code: totpCode(secret, step()),
+    });
+    assertEquals("error" in replayed, true, "Replayed code should fail.");
+    const stale = await twoFactorConcept.verifyChallenge({
+      challenge,
+      code: totpCode(secret, step(-5)),
+    });
+    assertEquals("error" in stale, true, "Stale code should fail.");
+
+    // 4. after five wrong codes, even a right one is rejected
+    for (let i = 0; i < 3; i++) {
+      await twoFactorConcept.verifyChallenge({ challenge, code: "000000" });
+    }
+    const exhausted = await twoFactorConcept.verifyChallenge({
+      challenge,
+      code: totpCode(secret, step(1)),
+    });
+    assertEquals(
+      "error" in exhausted,
+      true,
+      "Exhausted challenge should fail.",
+    );
+    assertEquals(
+      await twoFactorConcept._getChallengeUser({ challenge }),
+      [{ user: userB }],
+      "Exhausted challenge should still be traceable to its user.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 3
+ * Demonstrates recovery codes work once each, can be regenerated,
+ * and disabling removes the user's two-factor state.
+ */
+Deno.test("Test Case 3 - recovery codes and disabling", async () => {
+  const [db, client] = await testDb();
+  const twoFactorConcept = new TwoFactorConcept(db);
+
+  try {
+    const enrollment = await twoFactorConcept.enroll({
+      user: userA,
+      accountName: "Alice",
+    });
+    if ("error" in enrollment) {
+      throw new Error("Enrolling should not fail.");
+    }
+    const { secret } = enrollment;
+    const confirmed = await twoFactorConcept.confirm({
+      user: userA,
+      code: totpCode(secret, step()),
+    });
+    if ("error" in confirmed) {
+      throw new Error("Confirming should not fail.");
+    }
+    const [recoveryCode] = confirmed.recoveryCodes;
+    assertMatch(recoveryCode, /^[a-z2-9]{5}-[a-z2-9]{5}$/);
+
+    // 1. user logs in with a recovery code, ignoring case and dashes
+    const first = await twoFactorConcept.startChallenge({ user: userA });
+    if ("error" in first) {
+      throw new Error("Starting a challenge should not fail.");
+    }
+    assertEquals(
+      await twoFactorConcept.verifyChallenge({
+        challenge: first.challenge,
+        code: recoveryCode.toUpperCase().replace("-", ""),
+      }),
+      { user: userA },
+    );
+    assertEquals(
+      (await twoFactorConcept._getStatus({ user: userA }))[0]
+        .recoveryCodesRemaining,
+      9,
+    );
+
+    // 2. the recovery code can't be used again
+    const second = await twoFactorConcept.startChallenge({ user: userA });
+    if ("error" in second) {
+      throw new Error("Starting a challenge should not fail.");
+    }
+    const reused = await twoFactorConcept.verifyChallenge({
+      challenge: second.challenge,
+      code: recoveryCode,
+    });
+    assertEquals("error" in reused, true, "Used recovery code should fail.");
+
+    // 3. regenerating replaces the old codes
+    const regenerated = await twoFactorConcept.regenerateRecoveryCodes({
+      user: userA,
+      code: totpCode(secret, step(1)),
+    });
+    if ("error" in regenerated) {
+      throw new Error("Regenerating should not fail.");
+    }
+    const old = await twoFactorConcept.verifyChallenge({
+      challenge: second.challenge,
+      code: confirmed.recoveryCodes[1],
+    });
+    assertEquals("error" in old, true, "Replaced recovery code should fail.");
+
+    // 4. user disables two-factor authentication with a recovery code
+    const disabled = await twoFactorConcept.disable({
+      user: userA,
+      code: regenerated.recoveryCodes[0],
+    });
+    assertEquals(disabled, { user: userA });
+    assertEquals((await twoFactorConcept._getStatus({ user: userA }))[0], {
+      enabled: false,
+      recoveryCodesRemaining: 0,
+    });
+    assertEquals(
+      await twoFactorConcept._getChallengeUser({
+        challenge: second.challenge,
+      }),
+      [],
+      "Disabling should remove pending challenges.",
+    );
+  } finally {
+    await client.close();
+  }
+});
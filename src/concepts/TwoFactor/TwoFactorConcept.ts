@@ -0,0 +1,462 @@
+import { Collection, Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { Buffer } from "node:buffer";
+import * as crypto from "node:crypto";
+
+// Collection prefix to ensure namespace separation
+const PREFIX = "TwoFactor" + ".";
+
+// Generic types for the concept's external dependencies
+type User = ID;
+
+// Internal entity types, represented as IDs
+type Challenge = ID;
+
+// --- TOTP Constants ---
+// Name shown for the account in authenticator apps.
+const TOTP_ISSUER = Deno.env.get("TOTP_ISSUER") ?? "Away";
+// Length of a TOTP secret in bytes; RFC 4226 recommends 160 bits.
+const TOTP_SECRET_BYTES = 20;
+// Seconds each code is valid for, and digits in each code, as most authenticator apps expect.
+const TOTP_PERIOD = 30;
+const TOTP_DIGITS = 6;
+// Periods before or after the current one whose codes are accepted, to tolerate clock skew.
+const TOTP_SKEW_STEPS = 1;
+// --- End TOTP Constants ---
+
+// --- Recovery Code Constants ---
+// Number of recovery codes given to a user at a time.
+const RECOVERY_CODE_COUNT = 10;
+// Characters recovery codes are made of; easily confused ones are left out.
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+// --- End Recovery Code Constants ---
+
+// --- Challenge Constants ---
+// How long a user has to enter their second factor after their password, in seconds (default 5 minutes).
+const CHALLENGE_TTL = parseInt(
+  Deno.env.get("TWO_FACTOR_CHALLENGE_TTL") ?? `${5 * 60}`,
+  10,
+);
+// Wrong codes allowed per challenge before it can't be used anymore.
+const CHALLENGE_MAX_ATTEMPTS = 5;
+// --- End Challenge Constants ---
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * State: A set of Enrollments, one per user, with a TOTP secret, whether it's been confirmed,
+ * the last time step a code was accepted for (so codes can't be replayed), and the date it was created.
+ */
+export interface EnrollmentDoc {
+  _id: User;
+  secret: string; // base32, as shown to authenticator apps
+  confirmed: boolean;
+  lastUsedStep: number | null;
+  createdAt: Date;
+}
+
+/**
+ * State: A set of RecoveryCodes with a user, a hashed code, and the date it was used (if it was).
+ */
+export interface RecoveryCodeDoc {
+  _id: ID;
+  user: User;
+  hashedCode: string; // stores the SHA-256 hash of the code; the code itself is only ever returned once
+  usedAt: Date | null;
+}
+
+/**
+ * State: A set of Challenges with a user, the number of wrong codes entered, and an expiry date.
+ */
+export interface ChallengeDoc {
+  _id: Challenge;
+  user: User;
+  failedAttempts: number;
+  expiresAt: Date;
+}
+
+/**
+ * Encodes bytes as unpadded base32 (RFC 4648), as used for TOTP secrets.
+ */
+function base32Encode(bytes: Buffer): string {
+  let bits = "";
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, "0");
+  }
+  let encoded = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded +=
+      BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return encoded;
+}
+
+/**
+ * Decodes unpadded base32 (RFC 4648) into bytes.
+ */
+function base32Decode(encoded: string): Buffer {
+  let bits = "";
+  for (const char of encoded.toUpperCase()) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, "0");
+  }
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Computes the TOTP code for a secret at a time step (RFC 6238, with HMAC-SHA1).
+ */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret))
+    .update(counter)
+    .digest();
+  // dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Finds the time step, within the tolerated clock skew of now, that a code is valid for.
+ * @returns the time step, or null if the code isn't valid near now
+ */
+function matchingStep(secret: string, code: string): number | null {
+  const normalized = String(code ?? "").replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+  const now = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+  for (
+    let step = now - TOTP_SKEW_STEPS;
+    step <= now + TOTP_SKEW_STEPS;
+    step++
+  ) {
+    const expected = totpCode(secret, step);
+    if (
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))
+    ) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generates a random recovery code of the form "xxxxx-xxxxx".
+ */
+function generateRecoveryCode(): string {
+  const chars = Array.from(
+    crypto.randomBytes(10),
+    (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length],
+  ).join("");
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+/**
+ * Hashes a recovery code for storage, ignoring case, whitespace, and dashes.
+ * Codes are random, so a fast unsalted hash is enough to keep them unusable if the database leaks.
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = String(code ?? "").toLowerCase().replace(/[\s-]/g, "");
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * @concept TwoFactor
+ * @purpose To require a second proof of identity, from a device the user has, when logging in.
+ */
+export default class TwoFactorConcept {
+  enrollments: Collection<EnrollmentDoc>;
+  recoveryCodes: Collection<RecoveryCodeDoc>;
+  challenges: Collection<ChallengeDoc>;
+  private expiryIndex?: Promise<string>;
+
+  constructor(private readonly db: Db) {
+    this.enrollments = this.db.collection(PREFIX + "enrollments");
+    this.recoveryCodes = this.db.collection(PREFIX + "recoveryCodes");
+    this.challenges = this.db.collection(PREFIX + "challenges");
+  }
+
+  /**
+   * Ensures MongoDB removes challenges once they expire.
+   * Expired challenges are also rejected before then, since the TTL monitor only runs periodically.
+   */
+  private ensureExpiryIndex(): Promise<string> {
+    this.expiryIndex ??= this.challenges.createIndex({ expiresAt: 1 }, {
+      expireAfterSeconds: 0,
+    });
+    return this.expiryIndex;
+  }
+
+  /**
+   * Helper: Accepts a user's current TOTP code once, so it can't be replayed.
+   * @returns whether the code was valid and unused
+   */
+  private async acceptCode(
+    enrollment: EnrollmentDoc,
+    code: string,
+  ): Promise<boolean> {
+    const step = matchingStep(enrollment.secret, code);
+    if (step === null) {
+      return false;
+    }
+    // only one use of each step's code, and none of earlier steps' once a later one is used
+    const result = await this.enrollments.updateOne({
+      _id: enrollment._id,
+      $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+    }, { $set: { lastUsedStep: step } });
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Helper: Uses up one of a user's recovery codes.
+   * @returns whether the code was one of the user's unused recovery codes
+   */
+  private async useRecoveryCode(user: User, code: string): Promise<boolean> {
+    const result = await this.recoveryCodes.updateOne(
+      { user, hashedCode: hashRecoveryCode(code), usedAt: null },
+      { $set: { usedAt: new Date() } },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Helper: Replaces a user's recovery codes with new ones.
+   * @returns the new codes, which are only stored hashed
+   */
+  private async replaceRecoveryCodes(user: User): Promise<string[]> {
+    const codes = Array.from(
+      { length: RECOVERY_CODE_COUNT },
+      generateRecoveryCode,
+    );
+    await this.recoveryCodes.deleteMany({ user });
+    await this.recoveryCodes.insertMany(codes.map((code) => ({
+      _id: freshID(),
+      user,
+      hashedCode: hashRecoveryCode(code),
+      usedAt: null,
+    })));
+    return codes;
+  }
+
+  /**
+   * Action: Starts enrolling a user in two-factor authentication.
+   * @requires the user doesn't have confirmed two-factor authentication
+   * @effects creates an unconfirmed enrollment with a new secret, replacing any unconfirmed one;
+   * returns the secret and an otpauth URI for authenticator apps labelled with the account name
+   */
+  async enroll(
+    { user, accountName }: { user: User; accountName: string },
+  ): Promise<{ secret: string; uri: string } | { error: string }> {
+    const existing = await this.enrollments.findOne({ _id: user });
+    if (existing?.confirmed) {
+      return { error: "Two-factor authentication is already enabled." };
+    }
+
+    const secret = base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES));
+    await this.enrollments.replaceOne({ _id: user }, {
+      secret,
+      confirmed: false,
+      lastUsedStep: null,
+      createdAt: new Date(),
+    }, { upsert: true });
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_ISSUER,
+      algorithm: "SHA1",
+      digits: `${TOTP_DIGITS}`,
+      period: `${TOTP_PERIOD}`,
+    });
+    return { secret, uri: `otpauth://totp/${label}?${params}` };
+  }
+
+  /**
+   * Action: Confirms a user's enrollment with a code from their authenticator app.
+   * @requires the user has an unconfirmed enrollment, and code is its current TOTP code
+   * @effects confirms the enrollment, enabling two-factor authentication;
+   * replaces the user's recovery codes; returns the user and the new recovery codes
+   */
+  async confirm(
+    { user, code }: { user: User; code: string },
+  ): Promise<{ user: User; recoveryCodes: string[] } | { error: string }> {
+    const enrollment = await this.enrollments.findOne({ _id: user });
+    if (!enrollment || enrollment.confirmed) {
+      return { error: "No two-factor enrollment to confirm." };
+    }
+    if (!(await this.acceptCode(enrollment, code))) {
+      return { error: "Invalid code." };
+    }
+
+    await this.enrollments.updateOne({ _id: user }, {
+      $set: { confirmed: true },
+    });
+    return { user, recoveryCodes: await this.replaceRecoveryCodes(user) };
+  }
+
+  /**
+   * Action: Turns off a user's two-factor authentication.
+   * @requires the user has confirmed two-factor authentication, and code is its current TOTP code
+   * or one of the user's unused recovery codes
+   * @effects removes the user's enrollment and recovery codes; returns the user
+   */
+  async disable(
+    { user, code }: { user: User; code: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const enrollment = await this.enrollments.findOne({
+      _id: user,
+      confirmed: true,
+    });
+    if (!enrollment) {
+      return { error: "Two-factor authentication isn't enabled." };
+    }
+    if (
+      !(await this.acceptCode(enrollment, code)) &&
+      !(await this.useRecoveryCode(user, code))
+    ) {
+      return { error: "Invalid code." };
+    }
+
+    await this.deleteByUser({ user });
+    return { user };
+  }
+
+  /**
+   * Action: Replaces a user's recovery codes.
+   * @requires the user has confirmed two-factor authentication, and code is its current TOTP code
+   * @effects replaces the user's recovery codes; returns the user and the new codes
+   */
+  async regenerateRecoveryCodes(
+    { user, code }: { user: User; code: string },
+  ): Promise<{ user: User; recoveryCodes: string[] } | { error: string }> {
+    const enrollment = await this.enrollments.findOne({
+      _id: user,
+      confirmed: true,
+    });
+    if (!enrollment) {
+      return { error: "Two-factor authentication isn't enabled." };
+    }
+    if (!(await this.acceptCode(enrollment, code))) {
+      return { error: "Invalid code." };
+    }
+
+    return { user, recoveryCodes: await this.replaceRecoveryCodes(user) };
+  }
+
+  /**
+   * Action: Starts a challenge for a user's second factor, once they've entered their password.
+   * @requires the user has confirmed two-factor authentication
+   * @effects creates a challenge for the user that expires after the challenge TTL;
+   * returns the challenge and its expiry date
+   */
+  async startChallenge(
+    { user }: { user: User },
+  ): Promise<{ challenge: Challenge; expiresAt: Date } | { error: string }> {
+    await this.ensureExpiryIndex();
+
+    const enrollment = await this.enrollments.findOne({
+      _id: user,
+      confirmed: true,
+    });
+    if (!enrollment) {
+      return { error: "Two-factor authentication isn't enabled." };
+    }
+
+    const challenge = freshID() as Challenge;
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL * 1000);
+    await this.challenges.insertOne({
+      _id: challenge,
+      user,
+      failedAttempts: 0,
+      expiresAt,
+    });
+    return { challenge, expiresAt };
+  }
+
+  /**
+   * Action: Completes a challenge with the user's second factor.
+   * @requires challenge exists, hasn't expired, and has had fewer than the maximum wrong codes;
+   * code is the user's current TOTP code or one of their unused recovery codes
+   * @effects removes the challenge, using up the recovery code if one was given; returns the user.
+   * If the code is wrong, counts it against the challenge.
+   */
+  async verifyChallenge(
+    { challenge, code }: { challenge: Challenge; code: string },
+  ): Promise<{ user: User } | { error: string }> {
+    const challengeDoc = await this.challenges.findOne({
+      _id: challenge,
+      expiresAt: { $gt: new Date() },
+      failedAttempts: { $lt: CHALLENGE_MAX_ATTEMPTS },
+    });
+    const enrollment = challengeDoc &&
+      await this.enrollments.findOne({
+        _id: challengeDoc.user,
+        confirmed: true,
+      });
+    if (!challengeDoc || !enrollment) {
+      return { error: "Login challenge is invalid or has expired." };
+    }
+
+    if (
+      !(await this.acceptCode(enrollment, code)) &&
+      !(await this.useRecoveryCode(challengeDoc.user, code))
+    ) {
+      await this.challenges.updateOne({ _id: challenge }, {
+        $inc: { failedAttempts: 1 },
+      });
+      return { error: "Invalid code." };
+    }
+
+    await this.challenges.deleteOne({ _id: challenge });
+    return { user: challengeDoc.user };
+  }
+
+  /**
+   * Action: Removes all of a user's two-factor state.
+   * @effects removes the user's enrollment, recovery codes, and challenges;
+   * returns the user and whether an enrollment was removed
+   */
+  async deleteByUser(
+    { user }: { user: User },
+  ): Promise<{ user: User; enrollment: boolean }> {
+    const result = await this.enrollments.deleteOne({ _id: user });
+    await this.recoveryCodes.deleteMany({ user });
+    await this.challenges.deleteMany({ user });
+    return { user, enrollment: result.deletedCount > 0 };
+  }
+
+  /**
+   * Query: Retrieves whether a user has two-factor authentication enabled.
+   * @effects returns whether the user has a confirmed enrollment, and how many unused recovery codes they have
+   */
+  async _getStatus(
+    { user }: { user: User },
+  ): Promise<{ enabled: boolean; recoveryCodesRemaining: number }[]> {
+    const enrollment = await this.enrollments.findOne({
+      _id: user,
+      confirmed: true,
+    });
+    const recoveryCodesRemaining = enrollment
+      ? await this.recoveryCodes.countDocuments({ user, usedAt: null })
+      : 0;
+    return [{ enabled: !!enrollment, recoveryCodesRemaining }];
+  }
+
+  /**
+   * Query: Retrieves the user a challenge is for.
+   * @effects returns the user of the challenge, if it exists
+   */
+  async _getChallengeUser(
+    { challenge }: { challenge: Challenge },
+  ): Promise<{ user: User }[]> {
+    const challengeDoc = await this.challenges.findOne({ _id: challenge });
+    return challengeDoc ? [{ user: challengeDoc.user }] : [];
+  }
+}
@@ -13,7 +13,7 @@ Deno.test("Test Case 1 - operational principle: user registers and then authenti
 
   try {
     const username = "Alice";
-    const password = "1234";
+    const password = "harbor lights 1234";
 
     // 1. User registers
     const registerUser = await userAuthenticationConcept.register({
@@ -38,6 +38,7 @@ Deno.test("Test Case 1 - operational principle: user registers and then authenti
       true,
       "User authentication should not fail.",
     );
+    assertEquals(authenticateUser, { user });
   } finally {
     await client.close();
   }
@@ -55,13 +56,13 @@ Deno.test("Test Case 2 - incorrect password", async () => {
     // 1. User registers
     await userAuthenticationConcept.register({
       username: "Alice",
-      password: "1234",
+      password: "harbor lights 1234",
     });
 
     // 2. User tries to authenticate with incorrect password
     const authenticateUser = await userAuthenticationConcept.authenticate({
       username: "Alice",
-      password: "5678",
+      password: "mountain pass 5678",
     });
     assertEquals(
       "error" in authenticateUser,
@@ -85,13 +86,13 @@ Deno.test("Test Case 3 - duplicate username/password", async () => {
     // 1. First user registers
     await userAuthenticationConcept.register({
       username: "Alice",
-      password: "1234",
+      password: "harbor lights 1234",
     });
 
     // 2. Second user registers with same password
     const registerUser2 = await userAuthenticationConcept.register({
       username: "Bob",
-      password: "1234",
+      password: "harbor lights 1234",
     });
     assertNotEquals(
       "error" in registerUser2,
@@ -104,7 +105,7 @@ Deno.test("Test Case 3 - duplicate username/password", async () => {
     // 3. Third user registers with same username
     const registerUser3 = await userAuthenticationConcept.register({
       username: "Alice",
-      password: "5678",
+      password: "mountain pass 5678",
     });
     assertEquals(
       "error" in registerUser3,
@@ -127,7 +128,7 @@ Deno.test("Test Case 4 - authenticate without registering", async () => {
   try {
     const authenticateUser = await userAuthenticationConcept.authenticate({
       username: "Alice",
-      password: "1234",
+      password: "harbor lights 1234",
     });
     assertEquals(
       "error" in authenticateUser,
@@ -151,13 +152,13 @@ Deno.test("Test Case 5 - multiple users", async () => {
     // 1. First user registers
     await userAuthenticationConcept.register({
       username: "Alice",
-      password: "1234",
+      password: "harbor lights 1234",
     });
 
     // 2. First user authenticates
     const authenticateUser1 = await userAuthenticationConcept.authenticate({
       username: "Alice",
-      password: "1234",
+      password: "harbor lights 1234",
     });
     assertNotEquals(
       "error" in authenticateUser1,
@@ -168,13 +169,13 @@ Deno.test("Test Case 5 - multiple users", async () => {
     // 3. Second user registers
     await userAuthenticationConcept.register({
       username: "Bob",
-      password: "5678",
+      password: "mountain pass 5678",
     });
 
     // 4. Second user authenticates
     const authenticateUser2 = await userAuthenticationConcept.authenticate({
       username: "Bob",
-      password: "5678",
+      password: "mountain pass 5678",
     });
     assertNotEquals(
       "error" in authenticateUser2,
@@ -185,3 +186,467 @@ Deno.test("Test Case 5 - multiple users", async () => {
     await client.close();
   }
 });
+
+/**
+ * Test Case 6
+ * Demonstrates user changes their password, which requires the current password.
+ */
+Deno.test("Test Case 6 - change password", async () => {
+  const [db, client] = await testDb();
+  const userAuthenticationConcept = new UserAuthenticationConcept(db);
+
+  try {
+    const registerUser = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user } = registerUser as { user: ID };
+
+    // 1. user gives the wrong current password
+    const wrongCurrent = await userAuthenticationConcept.changePassword({
+      user,
+      currentPassword: "wrong guess 0000",
+      newPassword: "mountain pass 5678",
+    });
+    assertEquals(
+      "error" in wrongCurrent,
+      true,
+      "Wrong current password should fail.",
+    );
+
+    // 2. user changes their password
+    const changePassword = await userAuthenticationConcept.changePassword({
+      user,
+      currentPassword: "harbor lights 1234",
+      newPassword: "mountain pass 5678",
+    });
+    assertNotEquals(
+      "error" in changePassword,
+      true,
+      "Password change should not fail.",
+    );
+
+    // 3. only the new password works
+    const oldPassword = await userAuthenticationConcept.authenticate({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    assertEquals("error" in oldPassword, true, "Old password should fail.");
+
+    const newPassword = await userAuthenticationConcept.authenticate({
+      username: "Alice",
+      password: "mountain pass 5678",
+    });
+    assertNotEquals(
+      "error" in newPassword,
+      true,
+      "New password should not fail.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 7
+ * Demonstrates user resets a forgotten password with a single-use token sent to their email.
+ */
+Deno.test("Test Case 7 - reset password", async () => {
+  const [db, client] = await testDb();
+  const userAuthenticationConcept = new UserAuthenticationConcept(db);
+
+  try {
+    const registerUser = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user } = registerUser as { user: ID };
+
+    // 1. user without an email can't request a reset
+    const noEmail = await userAuthenticationConcept.requestPasswordReset({
+      username: "Alice",
+    });
+    assertEquals("error" in noEmail, true, "Reset without email should fail.");
+
+    const badEmail = await userAuthenticationConcept.setEmail({
+      user,
+      email: "alice",
+    });
+    assertEquals("error" in badEmail, true, "Invalid email should fail.");
+    await userAuthenticationConcept.setEmail({
+      user,
+      email: "alice@example.com",
+    });
+
+    // 2. user requests a reset
+    const requestReset = await userAuthenticationConcept.requestPasswordReset({
+      username: "Alice",
+    });
+    assertNotEquals(
+      "error" in requestReset,
+      true,
+      "Requesting a reset should not fail.",
+    );
+    const { email, token } = requestReset as { email: string; token: string };
+    assertEquals(email, "alice@example.com");
+    assertExists(token);
+
+    // 3. user resets their password with the token, which only works once
+    const wrongToken = await userAuthenticationConcept.resetPassword({
+      token: "not-a-token",
+      newPassword: "mountain pass 5678",
+    });
+    assertEquals("error" in wrongToken, true, "Wrong token should fail.");
+
+    const reset = await userAuthenticationConcept.resetPassword({
+      token,
+      newPassword: "mountain pass 5678",
+    });
+    assertEquals(reset, { user }, "Reset should not fail.");
+
+    const resetAgain = await userAuthenticationConcept.resetPassword({
+      token,
+      newPassword: "wrong guess 0000",
+    });
+    assertEquals("error" in resetAgain, true, "Reusing token should fail.");
+
+    const authenticateUser = await userAuthenticationConcept.authenticate({
+      username: "Alice",
+      password: "mountain pass 5678",
+    });
+    assertNotEquals(
+      "error" in authenticateUser,
+      true,
+      "New password should not fail.",
+    );
+
+    // 4. expired token doesn't work
+    const requestAgain = await userAuthenticationConcept.requestPasswordReset({
+      username: "Alice",
+    });
+    const { token: expired } = requestAgain as { token: string };
+    await userAuthenticationConcept.resetTokens.updateMany({ user }, {
+      $set: { expiresAt: new Date(Date.now() - 1000) },
+    });
+    const resetExpired = await userAuthenticationConcept.resetPassword({
+      token: expired,
+      newPassword: "wrong guess 0000",
+    });
+    assertEquals("error" in resetExpired, true, "Expired token should fail.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 8
+ * Demonstrates user deletes their account, which requires their password.
+ */
+Deno.test("Test Case 8 - delete account", async () => {
+  const [db, client] = await testDb();
+  const userAuthenticationConcept = new UserAuthenticationConcept(db);
+
+  try {
+    const registerUser = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user } = registerUser as { user: ID };
+
+    // 1. user gives the wrong password
+    const wrongPassword = await userAuthenticationConcept.deleteAccount({
+      user,
+      password: "wrong guess 0000",
+    });
+    assertEquals("error" in wrongPassword, true, "Wrong password should fail.");
+
+    // 2. user deletes their account
+    const deleteAccount = await userAuthenticationConcept.deleteAccount({
+      user,
+      password: "harbor lights 1234",
+    });
+    assertEquals(
+      deleteAccount,
+      { user, username: "Alice", email: null },
+      "Deleting should not fail.",
+    );
+
+    // 3. user can no longer authenticate, and the username is free again
+    const authenticateUser = await userAuthenticationConcept.authenticate({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    assertEquals("error" in authenticateUser, true, "Login should fail.");
+
+    const usernames = await userAuthenticationConcept._getUsernames();
+    assertEquals(usernames, [], "No users should remain.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 9
+ * Demonstrates user changes their username; the old username still resolves to them
+ * and can't be taken by others until it's released.
+ */
+Deno.test("Test Case 9 - change username", async () => {
+  const [db, client] = await testDb();
+  const userAuthenticationConcept = new UserAuthenticationConcept(db);
+
+  try {
+    const registerA = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user: userA } = registerA as { user: ID };
+    await userAuthenticationConcept.register({
+      username: "Bob",
+      password: "mountain pass 5678",
+    });
+
+    // 1. user can't take another user's username
+    const taken = await userAuthenticationConcept.changeUsername({
+      user: userA,
+      username: "Bob",
+    });
+    assertEquals("error" in taken, true, "Taken username should fail.");
+
+    // 2. user changes their username
+    const change = await userAuthenticationConcept.changeUsername({
+      user: userA,
+      username: "Alicia",
+    });
+    assertEquals(change, {
+      user: userA,
+      oldUsername: "Alice",
+      username: "Alicia",
+    });
+
+    const [{ username }] = await userAuthenticationConcept._getUsernameByUser({
+      user: userA,
+    });
+    assertEquals(username, "Alicia");
+
+    // 3. old username still resolves, and can't be registered
+    assertEquals(
+      await userAuthenticationConcept._getUserByUsername({ username: "Alice" }),
+      [{ user: userA }],
+    );
+    const squat = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "wrong guess 0000",
+    });
+    assertEquals("error" in squat, true, "Reserved username should fail.");
+
+    const history = await userAuthenticationConcept._getUsernameHistory({
+      user: userA,
+    });
+    assertEquals(history.map((h) => h.username), ["Alice"]);
+
+    // 4. once released, the old username no longer resolves and can be taken
+    await userAuthenticationConcept.previousUsernames.updateMany({}, {
+      $set: { releasedAt: new Date(Date.now() - 1000) },
+    });
+    assertEquals(
+      await userAuthenticationConcept._getUserByUsername({ username: "Alice" }),
+      [],
+    );
+    const register = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "wrong guess 0000",
+    });
+    assertNotEquals(
+      "error" in register,
+      true,
+      "Released username should not fail.",
+    );
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 10
+ * Demonstrates usernames and passwords that don't follow the credential policy are rejected with an error code,
+ * and the policy can be configured.
+ */
+Deno.test("Test Case 10 - credential policy", async () => {
+  const [db, client] = await testDb();
+  const userAuthenticationConcept = new UserAuthenticationConcept(db);
+
+  try {
+    // 1. registering checks the username and password
+    const rejected = [
+      { username: "Al", password: "harbor lights 1234" },
+      { username: "A".repeat(31), password: "harbor lights 1234" },
+      { username: "Alice Liddell", password: "harbor lights 1234" },
+      { username: "Admin", password: "harbor lights 1234" },
+      { username: "Alice", password: "" },
+      { username: "Alice", password: "x".repeat(129) },
+      { username: "Alice", password: "Password123" },
+      { username: "Alice", password: "alice-in-wonderland" },
+    ];
+    const codes = [];
+    for (const credentials of rejected) {
+      const register = await userAuthenticationConcept.register(credentials);
+      assertEquals("error" in register, true, "Registering should fail.");
+      codes.push("code" in register ? register.code : undefined);
+    }
+    assertEquals(codes, [
+      "username_too_short",
+      "username_too_long",
+      "username_invalid_characters",
+      "username_reserved",
+      "password_too_short",
+      "password_too_long",
+      "password_too_common",
+      "password_contains_username",
+    ]);
+    assertEquals(await userAuthenticationConcept.users.countDocuments(), 0);
+
+    // 2. changing credentials checks them too
+    const register = await userAuthenticationConcept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user } = register as { user: ID };
+
+    const changePassword = await userAuthenticationConcept.changePassword({
+      user,
+      currentPassword: "harbor lights 1234",
+      newPassword: "qwerty123",
+    });
+    assertEquals(
+      "code" in changePassword && changePassword.code,
+      "password_too_common",
+    );
+
+    const changeUsername = await userAuthenticationConcept.changeUsername({
+      user,
+      username: "support",
+    });
+    assertEquals(
+      "code" in changeUsername && changeUsername.code,
+      "username_reserved",
+    );
+
+    // 3. a stricter policy can be configured
+    const strictConcept = new UserAuthenticationConcept(db, {
+      passwordMinLength: 20,
+      passwordMaxLength: 128,
+      commonPasswords: [],
+      usernameMinLength: 3,
+      usernameMaxLength: 30,
+      usernamePattern: /^[a-z]+$/,
+      reservedUsernames: ["bob"],
+    });
+    const strict = [
+      { username: "Carol", password: "correct horse battery staple" },
+      { username: "bob", password: "correct horse battery staple" },
+      { username: "carol", password: "harbor lights 1234" },
+    ];
+    const strictCodes = [];
+    for (const credentials of strict) {
+      const register = await strictConcept.register(credentials);
+      strictCodes.push("code" in register ? register.code : undefined);
+    }
+    assertEquals(strictCodes, [
+      "username_invalid_characters",
+      "username_reserved",
+      "password_too_short",
+    ]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 11
+ * Demonstrates password hashes are upgraded when their user logs in after the hashing parameters change,
+ * including hashes stored before parameters were recorded.
+ */
+Deno.test("Test Case 11 - rehash on login", async () => {
+  const [db, client] = await testDb();
+  const pbkdf2 = {
+    algorithm: "pbkdf2",
+    digest: "sha512",
+    iterations: 1000,
+    keyLength: 64,
+  } as const;
+  const scrypt = {
+    algorithm: "scrypt",
+    cost: 1024,
+    blockSize: 8,
+    parallelization: 1,
+    keyLength: 64,
+  } as const;
+  const pbkdf2Concept = new UserAuthenticationConcept(db, undefined, pbkdf2);
+  const scryptConcept = new UserAuthenticationConcept(db, undefined, scrypt);
+
+  try {
+    // 1. user registers while passwords are hashed with PBKDF2
+    const register = await pbkdf2Concept.register({
+      username: "Alice",
+      password: "harbor lights 1234",
+    });
+    const { user } = register as { user: ID };
+    const registered = await pbkdf2Concept.users.findOne({ _id: user });
+    assertEquals(registered?.hashParams, pbkdf2);
+
+    // 2. a wrong password doesn't upgrade the hash
+    const wrong = await scryptConcept.authenticate({
+      username: "Alice",
+      password: "mountain pass 5678",
+    });
+    assertEquals("error" in wrong, true, "Wrong password should fail.");
+    const unchanged = await scryptConcept.users.findOne({ _id: user });
+    assertEquals(unchanged?.hashedPassword, registered?.hashedPassword);
+
+    // 3. after switching to scrypt, user logs in and their hash is upgraded
+    assertEquals(
+      await scryptConcept.authenticate({
+        username: "Alice",
+        password: "harbor lights 1234",
+      }),
+      { user },
+    );
+    const upgraded = await scryptConcept.users.findOne({ _id: user });
+    assertEquals(upgraded?.hashParams, scrypt);
+    assertNotEquals(upgraded?.salt, registered?.salt);
+
+    assertEquals(
+      await scryptConcept.authenticate({
+        username: "Alice",
+        password: "harbor lights 1234",
+      }),
+      { user },
+    );
+
+    // 4. a hash stored before parameters were recorded is upgraded too
+    const legacy = new UserAuthenticationConcept(db, undefined, {
+      algorithm: "pbkdf2",
+      digest: "sha512",
+      iterations: 100000,
+      keyLength: 64,
+    });
+    const registerBob = await legacy.register({
+      username: "Bob",
+      password: "mountain pass 5678",
+    });
+    const { user: bob } = registerBob as { user: ID };
+    await legacy.users.updateOne({ _id: bob }, { $unset: { hashParams: "" } });
+
+    assertEquals(
+      await scryptConcept.authenticate({
+        username: "Bob",
+        password: "mountain pass 5678",
+      }),
+      { user: bob },
+    );
+    const upgradedBob = await scryptConcept.users.findOne({ _id: bob });
+    assertEquals(upgradedBob?.hashParams, scrypt);
+  } finally {
+    await client.close();
+  }
+});
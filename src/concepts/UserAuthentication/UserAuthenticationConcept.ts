@@ -1,8 +1,9 @@
 import { Collection, Db } from "npm:mongodb";
-import { Empty, ID } from "@utils/types.ts";
+import { ID } from "@utils/types.ts";
 import { freshID } from "@utils/database.ts";
 import { Buffer } from "node:buffer";
 import * as crypto from "node:crypto";
+import commonPasswords from "./common-passwords.json" with { type: "json" };
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "UserAuthentication" + ".";
@@ -17,19 +18,248 @@ const SALT_LENGTH_BYTES = 16;
 // Should be at least as long as the output of the digest algorithm (e.g., 64 for sha512).
 const KEY_LENGTH_BYTES = 64;
 // Number of iterations for PBKDF2. OWASP recommends at least 100,000 for PBKDF2.
-const PBKDF2_ITERATIONS = 100000;
+const PBKDF2_ITERATIONS = parseInt(
+  Deno.env.get("PBKDF2_ITERATIONS") ?? "100000",
+  10,
+);
 // Hashing algorithm to use. SHA-512 is a strong choice.
 const DIGEST_ALGORITHM = "sha512";
+// CPU/memory cost (N) for scrypt; must be a power of two. Hashing uses 128 * N * blockSize bytes of memory.
+const SCRYPT_COST = parseInt(Deno.env.get("SCRYPT_COST") ?? `${2 ** 15}`, 10);
+// Block size (r) and parallelization (p) for scrypt, as recommended by OWASP.
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+// Algorithm new password hashes are derived with, "scrypt" or "pbkdf2".
+// Existing hashes are upgraded to it when their user next logs in.
+const PASSWORD_HASH_ALGORITHM = Deno.env.get("PASSWORD_HASH_ALGORITHM") ??
+  "scrypt";
 // --- End Hashing Constants ---
 
 /**
- * State: A set of Users with a username, hashed password, and salt.
+ * The algorithm and parameters a password hash was derived with.
+ */
+export type PasswordHashParams =
+  | {
+    algorithm: "pbkdf2";
+    digest: string;
+    iterations: number;
+    keyLength: number;
+  }
+  | {
+    algorithm: "scrypt";
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+    keyLength: number;
+  };
+
+// Parameters of hashes stored before they were recorded on each user.
+const LEGACY_HASH_PARAMS: PasswordHashParams = {
+  algorithm: "pbkdf2",
+  digest: "sha512",
+  iterations: 100000,
+  keyLength: 64,
+};
+
+const DEFAULT_HASH_PARAMS: PasswordHashParams =
+  PASSWORD_HASH_ALGORITHM === "pbkdf2"
+    ? {
+      algorithm: "pbkdf2",
+      digest: DIGEST_ALGORITHM,
+      iterations: PBKDF2_ITERATIONS,
+      keyLength: KEY_LENGTH_BYTES,
+    }
+    : {
+      algorithm: "scrypt",
+      cost: SCRYPT_COST,
+      blockSize: SCRYPT_BLOCK_SIZE,
+      parallelization: SCRYPT_PARALLELIZATION,
+      keyLength: KEY_LENGTH_BYTES,
+    };
+
+// Salt checked when authenticating an unknown username, so that it takes as long as a known one
+// and the response time doesn't reveal which usernames exist.
+const UNKNOWN_USER_SALT = crypto.randomBytes(SALT_LENGTH_BYTES).toString("hex");
+
+/**
+ * Derives a key from a password with the given algorithm and parameters.
+ * This is asynchronous due to the callback interfaces of crypto.pbkdf2 and crypto.scrypt.
+ */
+function derivePasswordKey(
+  password: string,
+  salt: string,
+  params: PasswordHashParams,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const callback = (err: Error | null, derivedKey: Buffer) =>
+      err ? reject(err) : resolve(derivedKey);
+    if (params.algorithm === "scrypt") {
+      crypto.scrypt(password, salt, params.keyLength, {
+        N: params.cost,
+        r: params.blockSize,
+        p: params.parallelization,
+        // allow twice the memory scrypt needs, since the default limit is exactly 32MB
+        maxmem: 256 * params.cost * params.blockSize,
+      }, callback);
+    } else {
+      crypto.pbkdf2(
+        password,
+        salt,
+        params.iterations,
+        params.keyLength,
+        params.digest,
+        callback,
+      );
+    }
+  });
+}
+
+/**
+ * Whether two sets of hash parameters are the same.
+ */
+function sameHashParams(a: PasswordHashParams, b: PasswordHashParams): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) =>
+    a[key as keyof PasswordHashParams] === b[key as keyof PasswordHashParams]
+  );
+}
+
+// --- Reset Token Constants ---
+// Length of a password reset token in bytes.
+const RESET_TOKEN_BYTES = 32;
+// How long a password reset token can be used for, in seconds (default 1 hour).
+const RESET_TOKEN_TTL = parseInt(
+  Deno.env.get("RESET_TOKEN_TTL") ?? `${60 * 60}`,
+  10,
+);
+// --- End Reset Token Constants ---
+
+// How long a user's old username still resolves to them, and can't be taken by anyone else,
+// in seconds (default 30 days).
+const USERNAME_GRACE_PERIOD = parseInt(
+  Deno.env.get("USERNAME_GRACE_PERIOD") ?? `${30 * 24 * 60 * 60}`,
+  10,
+);
+
+// --- Credential Policy Constants ---
+// Shortest accepted password, in characters.
+const PASSWORD_MIN_LENGTH = parseInt(
+  Deno.env.get("PASSWORD_MIN_LENGTH") ?? "8",
+  10,
+);
+// Longest accepted password, in characters; bounds the cost of hashing it.
+const PASSWORD_MAX_LENGTH = 128;
+// Shortest and longest accepted usernames, in characters.
+const USERNAME_MIN_LENGTH = parseInt(
+  Deno.env.get("USERNAME_MIN_LENGTH") ?? "3",
+  10,
+);
+const USERNAME_MAX_LENGTH = parseInt(
+  Deno.env.get("USERNAME_MAX_LENGTH") ?? "30",
+  10,
+);
+// Characters accepted in usernames: letters, digits, periods, underscores, and hyphens.
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+// Usernames no one can register, since they could be mistaken for the app itself.
+const RESERVED_USERNAMES = [
+  "admin",
+  "administrator",
+  "api",
+  "help",
+  "moderator",
+  "null",
+  "root",
+  "support",
+  "system",
+  "undefined",
+];
+// --- End Credential Policy Constants ---
+
+/**
+ * The rules usernames and passwords must follow.
+ * Common passwords and reserved usernames are compared case-insensitively.
+ */
+export interface CredentialPolicy {
+  passwordMinLength: number;
+  passwordMaxLength: number;
+  commonPasswords: string[];
+  usernameMinLength: number;
+  usernameMaxLength: number;
+  usernamePattern: RegExp;
+  reservedUsernames: string[];
+}
+
+const DEFAULT_CREDENTIAL_POLICY: CredentialPolicy = {
+  passwordMinLength: PASSWORD_MIN_LENGTH,
+  passwordMaxLength: PASSWORD_MAX_LENGTH,
+  commonPasswords,
+  usernameMinLength: USERNAME_MIN_LENGTH,
+  usernameMaxLength: USERNAME_MAX_LENGTH,
+  usernamePattern: USERNAME_PATTERN,
+  reservedUsernames: RESERVED_USERNAMES,
+};
+
+/**
+ * Codes identifying why registering or changing credentials failed,
+ * so that clients can show their own message for each.
+ */
+export type CredentialErrorCode =
+  | "username_too_short"
+  | "username_too_long"
+  | "username_invalid_characters"
+  | "username_reserved"
+  | "username_taken"
+  | "username_unchanged"
+  | "password_too_short"
+  | "password_too_long"
+  | "password_too_common"
+  | "password_contains_username"
+  | "password_incorrect"
+  | "reset_token_invalid"
+  | "user_not_found";
+
+/**
+ * An error from registering or changing credentials, with its code.
+ */
+export interface CredentialError {
+  error: string;
+  code: CredentialErrorCode;
+}
+
+/**
+ * State: A set of Users with a username, hashed password, salt, the parameters the password was hashed with,
+ * and optional email address.
  */
 export interface UsersDoc {
   _id: User;
   username: string;
   hashedPassword: string; // stores the securely hashed password
   salt: string; // stores the unique salt used for hashing this password
+  hashParams?: PasswordHashParams; // absent for hashes stored before parameters were recorded
+  email?: string | null; // where password reset tokens are sent
+}
+
+/**
+ * State: A set of ResetTokens with a user, a hashed token, an expiry date, and the date it was used (if it was).
+ */
+export interface ResetTokenDoc {
+  _id: ID;
+  user: User;
+  hashedToken: string; // stores the SHA-256 hash of the token; the token itself is only ever returned once
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+/**
+ * State: A set of PreviousUsernames with a user, the username they had,
+ * the date they changed it, and the date it's released for others to take.
+ */
+export interface PreviousUsernameDoc {
+  _id: ID;
+  user: User;
+  username: string;
+  changedAt: Date;
+  releasedAt: Date;
 }
 
 /**
@@ -39,58 +269,211 @@ export interface UsersDoc {
  */
 export default class UserAuthenticationConcept {
   users: Collection<UsersDoc>;
+  resetTokens: Collection<ResetTokenDoc>;
+  previousUsernames: Collection<PreviousUsernameDoc>;
+  private readonly commonPasswords: Set<string>;
+  private readonly reservedUsernames: Set<string>;
 
-  constructor(private readonly db: Db) {
+  constructor(
+    private readonly db: Db,
+    private readonly policy: CredentialPolicy = DEFAULT_CREDENTIAL_POLICY,
+    private readonly hashParams: PasswordHashParams = DEFAULT_HASH_PARAMS,
+  ) {
     this.users = this.db.collection(PREFIX + "users");
+    this.resetTokens = this.db.collection(PREFIX + "resetTokens");
+    this.previousUsernames = this.db.collection(PREFIX + "previousUsernames");
+    this.commonPasswords = new Set(
+      policy.commonPasswords.map((p) => p.toLowerCase()),
+    );
+    this.reservedUsernames = new Set(
+      policy.reservedUsernames.map((u) => u.toLowerCase()),
+    );
   }
 
   /**
-   * Helper function to hash a password using PBKDF2 with a given salt.
-   * This method is asynchronous due to crypto.pbkdf2's callback interface.
+   * Helper function to check a username against the credential policy.
+   * @param username The username to check.
+   * @returns The policy violation, or null if the username follows the policy.
+   */
+  private checkUsername(username: string): CredentialError | null {
+    username = String(username ?? "");
+    const { usernameMinLength, usernameMaxLength, usernamePattern } =
+      this.policy;
+    if (username.length < usernameMinLength) {
+      return {
+        error:
+          `Username must be at least ${usernameMinLength} characters long.`,
+        code: "username_too_short",
+      };
+    }
+    if (username.length > usernameMaxLength) {
+      return {
+        error: `Username must be at most ${usernameMaxLength} characters long.`,
+        code: "username_too_long",
+      };
+    }
+    if (!usernamePattern.test(username)) {
+      return {
+        error: `Username contains characters that aren't allowed.`,
+        code: "username_invalid_characters",
+      };
+    }
+    if (this.reservedUsernames.has(username.toLowerCase())) {
+      return {
+        error: `Username ${username} is reserved.`,
+        code: "username_reserved",
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Helper function to check a password against the credential policy.
+   * @param password The password to check.
+   * @param username The username of the user the password is for.
+   * @returns The policy violation, or null if the password follows the policy.
+   */
+  private checkPassword(
+    password: string,
+    username: string,
+  ): CredentialError | null {
+    password = String(password ?? "");
+    const { passwordMinLength, passwordMaxLength } = this.policy;
+    if (password.length < passwordMinLength) {
+      return {
+        error:
+          `Password must be at least ${passwordMinLength} characters long.`,
+        code: "password_too_short",
+      };
+    }
+    if (password.length > passwordMaxLength) {
+      return {
+        error: `Password must be at most ${passwordMaxLength} characters long.`,
+        code: "password_too_long",
+      };
+    }
+    if (this.commonPasswords.has(password.toLowerCase())) {
+      return {
+        error: `Password is too common.`,
+        code: "password_too_common",
+      };
+    }
+    if (password.toLowerCase().includes(username.toLowerCase())) {
+      return {
+        error: `Password cannot contain the username.`,
+        code: "password_contains_username",
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Helper function to hash a password with a given salt.
    * @param password The plaintext password to hash.
    * @param salt The salt (hex string) to use for hashing.
+   * @param params The algorithm and parameters to hash with (by default, the ones new hashes use).
    * @returns A promise that resolves to the hex-encoded hashed password.
    */
-  private async hashPassword(password: string, salt: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      crypto.pbkdf2(
-        password,
-        salt,
-        PBKDF2_ITERATIONS,
-        KEY_LENGTH_BYTES,
-        DIGEST_ALGORITHM,
-        (err, derivedKey) => {
-          if (err) reject(err);
-          // store the derived key as a hex string
-          resolve(derivedKey.toString("hex"));
-        },
-      );
+  private async hashPassword(
+    password: string,
+    salt: string,
+    params: PasswordHashParams = this.hashParams,
+  ): Promise<string> {
+    const derivedKey = await derivePasswordKey(password, salt, params);
+    // store the derived key as a hex string
+    return derivedKey.toString("hex");
+  }
+
+  /**
+   * Helper function to check a password against a user's stored hash.
+   * @param userDoc The user whose password is checked.
+   * @param password The plaintext password to check.
+   * @returns A promise that resolves to whether the password is the user's password.
+   */
+  private async passwordMatches(
+    userDoc: UsersDoc,
+    password: string,
+  ): Promise<boolean> {
+    // hash the provided password using the *stored* salt and parameters.
+    const providedPasswordHash = await this.hashPassword(
+      password,
+      userDoc.salt,
+      userDoc.hashParams ?? LEGACY_HASH_PARAMS,
+    );
+
+    // compare the newly generated hash with the stored hash using a timing-safe comparison
+    // (this prevents timing attacks that could reveal information about the password)
+    return crypto.timingSafeEqual(
+      Buffer.from(providedPasswordHash, "hex"),
+      Buffer.from(userDoc.hashedPassword, "hex"),
+    );
+  }
+
+  /**
+   * Helper function to replace a user's password, hashing it with a fresh salt and the current parameters.
+   * @param user The user whose password is replaced.
+   * @param password The new plaintext password.
+   */
+  private async setPassword(user: User, password: string): Promise<void> {
+    const salt = crypto.randomBytes(SALT_LENGTH_BYTES).toString("hex");
+    const hashedPassword = await this.hashPassword(password, salt);
+    await this.users.updateOne({ _id: user }, {
+      $set: { hashedPassword, salt, hashParams: this.hashParams },
     });
   }
 
+  /**
+   * Helper function to find who a username is reserved for, as another user's previous username
+   * that hasn't been released yet.
+   * @param username The username to look up.
+   * @returns A promise that resolves to the user the username is reserved for, or null if it isn't reserved.
+   */
+  private async reservedFor(username: string): Promise<User | null> {
+    const previous = await this.previousUsernames.findOne(
+      { username, releasedAt: { $gt: new Date() } },
+      { sort: { changedAt: -1 } },
+    );
+    return previous?.user ?? null;
+  }
+
+  /**
+   * Helper function to hash a password reset token for storage.
+   * Tokens are random, so a fast unsalted hash is enough to keep them unusable if the database leaks.
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(String(token)).digest("hex");
+  }
+
   /**
    * Action: Register a user with the given username and password.
    * (Passwords are automatically hashed and salted before storage.)
    *
-   * @requires username doesn't exist among users
+   * @requires username and password follow the credential policy; username doesn't exist among users
    * @effects creates and returns a new user with the given username,
    * a hashedPassword derived from the given password,
    * and the unique salt used to derive the hashedPassword
    */
   async register(
     { username, password }: { username: string; password: string },
-  ): Promise<{ user: User } | { error: string }> {
-    // check if the username already exists
+  ): Promise<{ user: User } | CredentialError> {
+    // check username and password follow the policy
+    const violation = this.checkUsername(username) ??
+      this.checkPassword(password, username);
+    if (violation) {
+      return violation;
+    }
+
+    // check if the username already exists, or was recently someone else's
     const usernameExists = await this.users.findOne({ username });
-    if (usernameExists) {
-      return { error: `Username already exists.` };
+    if (usernameExists || await this.reservedFor(username)) {
+      return { error: `Username already exists.`, code: "username_taken" };
     }
 
     // generate a unique cryptographic salt for this user,
     // converted to a hex string for storage
     const salt = crypto.randomBytes(SALT_LENGTH_BYTES).toString("hex");
 
-    // hash the provided password using the generated salt and PBKDF2
+    // hash the provided password using the generated salt and the current parameters
     const hashedPassword = await this.hashPassword(password, salt);
 
     // add the user
@@ -101,6 +484,7 @@ export default class UserAuthenticationConcept {
       username,
       hashedPassword,
       salt,
+      hashParams: this.hashParams,
     });
 
     return { user: newUserId };
@@ -112,41 +496,280 @@ export default class UserAuthenticationConcept {
    * stored hashed password.)
    *
    * @requires username matches a user whose password matches the given
-   * password after re-hashing with the stored salt
+   * password after re-hashing with the stored salt and parameters
+   * @effects if the user's password was hashed with other parameters than the current ones,
+   * rehashes it with a fresh salt and the current parameters; returns the user
    */
   async authenticate(
     { username, password }: { username: string; password: string },
-  ): Promise<Empty | { error: string }> {
-    // check username exists
+  ): Promise<{ user: User } | { error: string }> {
+    // check password is correct, hashing it even if the username doesn't exist
     const userDoc = await this.users.findOne({ username });
-    if (!userDoc) {
+    const matches = await this.passwordMatches(
+      userDoc ?? {
+        _id: "" as User,
+        username,
+        salt: UNKNOWN_USER_SALT,
+        hashedPassword: "00".repeat(this.hashParams.keyLength),
+        hashParams: this.hashParams,
+      },
+      password,
+    );
+    if (!userDoc || !matches) {
       return { error: `Username or password incorrect.` };
     }
 
-    // retrieve the stored salt and hashed password for this user.
-    const { salt: storedSalt, hashedPassword: storedHashedPassword } = userDoc;
+    // upgrade the hash now that the password is known
+    if (
+      !sameHashParams(userDoc.hashParams ?? LEGACY_HASH_PARAMS, this.hashParams)
+    ) {
+      await this.setPassword(userDoc._id, password);
+    }
 
-    // hash the provided password using the *stored* salt.
-    const providedPasswordHash = await this.hashPassword(password, storedSalt);
+    return { user: userDoc._id };
+  }
 
-    // compare the newly generated hash with the stored hash using a timing-safe comparison
-    // (this prevents timing attacks that could reveal information about the password)
-    const hashesMatch = crypto.timingSafeEqual(
-      Buffer.from(providedPasswordHash, "hex"),
-      Buffer.from(storedHashedPassword, "hex"),
-    );
+  /**
+   * Action: Change a user's password, given their current password.
+   *
+   * @requires user exists, currentPassword matches their password,
+   * and newPassword follows the credential policy
+   * @effects replaces the user's hashedPassword and salt with ones derived from newPassword
+   * and returns the user
+   */
+  async changePassword(
+    { user, currentPassword, newPassword }: {
+      user: User;
+      currentPassword: string;
+      newPassword: string;
+    },
+  ): Promise<{ user: User } | CredentialError> {
+    // check user exists
+    const userDoc = await this.users.findOne({ _id: user });
+    if (!userDoc) {
+      return {
+        error: `User with ID ${user} not found.`,
+        code: "user_not_found",
+      };
+    }
 
-    // check if password is correct
-    if (!hashesMatch) {
-      return { error: `Username or password incorrect.` };
+    // check current password is correct
+    if (!(await this.passwordMatches(userDoc, currentPassword))) {
+      return {
+        error: `Current password incorrect.`,
+        code: "password_incorrect",
+      };
+    }
+
+    // check new password follows the policy
+    const violation = this.checkPassword(newPassword, userDoc.username);
+    if (violation) {
+      return violation;
+    }
+
+    await this.setPassword(user, newPassword);
+    return { user };
+  }
+
+  /**
+   * Action: Delete a user's account, given their password.
+   *
+   * @requires user exists and password matches their password
+   * @effects removes the user and their reset tokens from the set of users; returns the user,
+   * and the username and email (null if none) they had, so their data elsewhere can be removed
+   */
+  async deleteAccount(
+    { user, password }: { user: User; password: string },
+  ): Promise<
+    { user: User; username: string; email: string | null } | { error: string }
+  > {
+    // check user exists
+    const userDoc = await this.users.findOne({ _id: user });
+    if (!userDoc) {
+      return { error: `User with ID ${user} not found.` };
+    }
+
+    // check password is correct
+    if (!(await this.passwordMatches(userDoc, password))) {
+      return { error: `Password incorrect.` };
+    }
+
+    await this.resetTokens.deleteMany({ user });
+    await this.previousUsernames.deleteMany({ user });
+    await this.users.deleteOne({ _id: user });
+    return { user, username: userDoc.username, email: userDoc.email ?? null };
+  }
+
+  /**
+   * Action: Change a user's username.
+   *
+   * @requires user exists; username follows the credential policy, differs from their current username,
+   * isn't another user's username, and isn't another user's unreleased previous username
+   * @effects records the user's current username as a previous username, released after the grace period;
+   * sets the user's username; returns the user, their old username, and their new username
+   */
+  async changeUsername(
+    { user, username }: { user: User; username: string },
+  ): Promise<
+    { user: User; oldUsername: string; username: string } | CredentialError
+  > {
+    // check user exists
+    const userDoc = await this.users.findOne({ _id: user });
+    if (!userDoc) {
+      return {
+        error: `User with ID ${user} not found.`,
+        code: "user_not_found",
+      };
+    }
+
+    // check username follows the policy, and is new and available
+    const trimmed = String(username ?? "").trim();
+    const violation = this.checkUsername(trimmed);
+    if (violation) {
+      return violation;
+    }
+    if (trimmed === userDoc.username) {
+      return {
+        error: `Username is already ${trimmed}.`,
+        code: "username_unchanged",
+      };
+    }
+    const usernameExists = await this.users.findOne({ username: trimmed });
+    const reservedFor = await this.reservedFor(trimmed);
+    if (usernameExists || (reservedFor && reservedFor !== user)) {
+      return { error: `Username already exists.`, code: "username_taken" };
+    }
+
+    // reserve the old username, and reclaim the new one if it was this user's before
+    const now = new Date();
+    await this.previousUsernames.deleteMany({ user, username: trimmed });
+    await this.previousUsernames.insertOne({
+      _id: freshID(),
+      user,
+      username: userDoc.username,
+      changedAt: now,
+      releasedAt: new Date(now.getTime() + USERNAME_GRACE_PERIOD * 1000),
+    });
+    await this.users.updateOne({ _id: user }, {
+      $set: { username: trimmed },
+    });
+
+    return { user, oldUsername: userDoc.username, username: trimmed };
+  }
+
+  /**
+   * Action: Set the email address a user's password reset tokens are sent to.
+   *
+   * @requires user exists; email looks like an email address
+   * @effects sets the user's email and returns the user
+   */
+  async setEmail(
+    { user, email }: { user: User; email: string },
+  ): Promise<{ user: User } | { error: string }> {
+    // check email looks like an address
+    const trimmed = String(email ?? "").trim();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+      return { error: `Invalid email address ${email}.` };
+    }
+
+    const result = await this.users.updateOne({ _id: user }, {
+      $set: { email: trimmed },
+    });
+    if (result.matchedCount === 0) {
+      return { error: `User with ID ${user} not found.` };
+    }
+
+    return { user };
+  }
+
+  /**
+   * Action: Request a token to reset a user's forgotten password.
+   *
+   * @requires username matches a user with an email address
+   * @effects creates a single-use reset token for the user that expires after the reset token TTL,
+   * replacing any unused tokens they had; returns the user, their email, the token, and its expiry date
+   */
+  async requestPasswordReset(
+    { username }: { username: string },
+  ): Promise<
+    { user: User; email: string; token: string; expiresAt: Date } | {
+      error: string;
+    }
+  > {
+    // check user exists and has somewhere to send the token
+    const userDoc = await this.users.findOne({ username });
+    if (!userDoc) {
+      return { error: `Username ${username} not found.` };
     }
+    if (!userDoc.email) {
+      return { error: `User ${username} has no email address.` };
+    }
+
+    // only the latest token can be used
+    await this.resetTokens.deleteMany({ user: userDoc._id, usedAt: null });
+
+    const token = crypto.randomBytes(RESET_TOKEN_BYTES).toString("hex");
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL * 1000);
+    await this.resetTokens.insertOne({
+      _id: freshID(),
+      user: userDoc._id,
+      hashedToken: this.hashToken(token),
+      expiresAt,
+      usedAt: null,
+    });
 
-    return {};
+    return { user: userDoc._id, email: userDoc.email, token, expiresAt };
   }
 
   /**
-   * Query: Retrieves the user with a given username.
-   * @effects returns the user with a given username
+   * Action: Reset a user's password using a reset token.
+   *
+   * @requires token is an unused reset token that hasn't expired;
+   * newPassword follows the credential policy
+   * @effects marks the token used; replaces its user's hashedPassword and salt
+   * with ones derived from newPassword; returns the user
+   */
+  async resetPassword(
+    { token, newPassword }: { token: string; newPassword: string },
+  ): Promise<{ user: User } | CredentialError> {
+    const invalidToken: CredentialError = {
+      error: `Reset token is invalid or has expired.`,
+      code: "reset_token_invalid",
+    };
+    const validToken = {
+      hashedToken: this.hashToken(token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    };
+
+    // check new password follows the policy before using up the token
+    const pendingToken = await this.resetTokens.findOne(validToken);
+    const userDoc = pendingToken &&
+      await this.users.findOne({ _id: pendingToken.user });
+    if (!userDoc) {
+      return invalidToken;
+    }
+    const violation = this.checkPassword(newPassword, userDoc.username);
+    if (violation) {
+      return violation;
+    }
+
+    // claim the token, so it can't be used twice
+    const tokenDoc = await this.resetTokens.findOneAndUpdate(validToken, {
+      $set: { usedAt: new Date() },
+    });
+    if (!tokenDoc) {
+      return invalidToken;
+    }
+
+    await this.setPassword(tokenDoc.user, newPassword);
+    return { user: tokenDoc.user };
+  }
+
+  /**
+   * Query: Retrieves the user with a given username, or who recently had it.
+   * @effects returns the user with a given username; otherwise, returns the user
+   * with it as an unreleased previous username, if any
    */
   async _getUserByUsername(
     { username }: { username: string },
@@ -155,9 +778,42 @@ export default class UserAuthenticationConcept {
     if (user) {
       return [{ user: user._id }];
     }
+    const previousUser = await this.reservedFor(username);
+    if (previousUser) {
+      return [{ user: previousUser }];
+    }
     return [];
   }
 
+  /**
+   * Query: Retrieves a user's previous usernames, most recent first.
+   * @effects returns each username the given user had before, with the date they changed it
+   * and the date it's released for others to take
+   */
+  async _getUsernameHistory(
+    { user }: { user: User },
+  ): Promise<{ username: string; changedAt: Date; releasedAt: Date }[]> {
+    const previous = await this.previousUsernames.find({ user })
+      .sort({ changedAt: -1 })
+      .toArray();
+    return previous.map((p) => ({
+      username: p.username,
+      changedAt: p.changedAt,
+      releasedAt: p.releasedAt,
+    }));
+  }
+
+  /**
+   * Query: Retrieves the email address of a given user.
+   * @effects returns the email of the given user, if they have one
+   */
+  async _getEmail(
+    { user }: { user: User },
+  ): Promise<{ email: string }[]> {
+    const userFound = await this.users.findOne({ _id: user });
+    return userFound?.email ? [{ email: userFound.email }] : [];
+  }
+
   /**
    * Query: Retrieves the username for a given user.
    * @requires user exists in set of users
@@ -262,3 +262,288 @@ Deno.test("Test Case 4 - multiple users", async () => {
     await client.close();
   }
 });
+
+/**
+ * Test Case 5
+ * Demonstrates user marks places as visited, keeping one and archiving another;
+ * visits can't be recorded twice and can be cleared.
+ */
+Deno.test("Test Case 5 - visiting places", async () => {
+  const [db, client] = await testDb();
+  const wishlistConcept = new WishlistConcept(db);
+  const tokyoPost = "post:tokyoTrip" as ID;
+  const athensPost = "post:athensTrip" as ID;
+
+  try {
+    const makeTokyo = await wishlistConcept.addPlace({
+      user: creatorA,
+      city: "Tokyo",
+      region: "Kanto",
+      country: "Japan",
+    });
+    const { place: tokyo } = makeTokyo as { place: ID };
+
+    const makeAthens = await wishlistConcept.addPlace({
+      user: creatorA,
+      city: "Athens",
+      region: "Attica",
+      country: "Greece",
+    });
+    const { place: athens } = makeAthens as { place: ID };
+
+    // 1. user visits Tokyo and keeps it on their wishlist
+    const visitTokyo = await wishlistConcept.markVisited({
+      user: creatorA,
+      place: tokyo,
+      post: tokyoPost,
+      archive: false,
+    });
+    assertNotEquals(
+      "error" in visitTokyo,
+      true,
+      "Marking visited should not fail.",
+    );
+
+    // 2. user visits Athens and archives it
+    await wishlistConcept.markVisited({
+      user: creatorA,
+      place: athens,
+      post: athensPost,
+      archive: true,
+    });
+
+    const places = await wishlistConcept._getPlaces({ user: creatorA });
+    assertEquals(places, [{ place: tokyo }], "Only Tokyo remains active.");
+    const archived = await wishlistConcept._getArchivedPlaces({
+      user: creatorA,
+    });
+    assertEquals(archived, [{ place: athens }], "Athens is archived.");
+
+    const [{ placeData }] = await wishlistConcept._getPlaceById({ _id: tokyo });
+    assertEquals(placeData.visitedPost, tokyoPost, "Visit not recorded.");
+
+    // 3. user can't visit Tokyo twice; another user can't visit it
+    const visitAgain = await wishlistConcept.markVisited({
+      user: creatorA,
+      place: tokyo,
+      post: athensPost,
+      archive: false,
+    });
+    assertEquals("error" in visitAgain, true, "Visiting twice should fail.");
+
+    const visitB = await wishlistConcept.markVisited({
+      user: creatorB,
+      place: tokyo,
+      post: athensPost,
+      archive: false,
+    });
+    assertEquals(
+      "error" in visitB,
+      true,
+      "Visiting another user's place should fail.",
+    );
+
+    // 4. user can add Athens again while the visited entry is archived
+    const makeAthens2 = await wishlistConcept.addPlace({
+      user: creatorA,
+      city: "Athens",
+      region: "Attica",
+      country: "Greece",
+    });
+    assertNotEquals(
+      "error" in makeAthens2,
+      true,
+      "Re-adding an archived place should not fail.",
+    );
+
+    // 5. clearing a visit restores the place
+    const visitedOn = await wishlistConcept._getPlacesVisitedOn({
+      post: tokyoPost,
+    });
+    assertEquals(visitedOn, [{ place: tokyo, user: creatorA }]);
+
+    const unvisit = await wishlistConcept.unmarkVisited({
+      user: creatorA,
+      place: tokyo,
+    });
+    assertNotEquals(
+      "error" in unvisit,
+      true,
+      "Clearing visit should not fail.",
+    );
+    const [{ placeData: cleared }] = await wishlistConcept._getPlaceById({
+      _id: tokyo,
+    });
+    assertEquals(cleared.visitedPost, null, "Visit not cleared.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 6
+ * Demonstrates places recently added by several users are listed newest first,
+ * a cursor continues where the previous page ended, and places from before
+ * places were timestamped are still listed.
+ */
+Deno.test("Test Case 6 - recently added places", async () => {
+  const [db, client] = await testDb();
+  const wishlistConcept = new WishlistConcept(db);
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  try {
+    const makeTokyo = await wishlistConcept.addPlace({
+      user: creatorA,
+      city: "Tokyo",
+      region: "Kanto",
+      country: "Japan",
+    });
+    const { place: tokyo } = makeTokyo as { place: ID };
+    await tick();
+
+    const makeAthens = await wishlistConcept.addPlace({
+      user: creatorB,
+      city: "Athens",
+      region: "Attica",
+      country: "Greece",
+    });
+    const { place: athens } = makeAthens as { place: ID };
+
+    // 1. places are listed newest first
+    const recent = await wishlistConcept._getRecentlyAdded({
+      users: [creatorA, creatorB],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(recent.map((r) => r.place), [athens, tokyo]);
+
+    const [{ placeData }] = await wishlistConcept._getPlaceById({
+      _id: athens,
+    });
+    assertEquals(recent[0].at, placeData.createdAt, "Added date not recorded.");
+
+    // 2. a cursor picks up after the last place of the previous page
+    const next = await wishlistConcept._getRecentlyAdded({
+      users: [creatorA, creatorB],
+      before: { at: recent[0].at, id: athens },
+      limit: 10,
+    });
+    assertEquals(next.map((r) => r.place), [tokyo]);
+
+    // 3. only the given users' places are listed
+    const onlyB = await wishlistConcept._getRecentlyAdded({
+      users: [creatorB],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(onlyB.map((r) => r.place), [athens]);
+
+    // 4. places from before places were timestamped are listed by when they were added
+    await wishlistConcept.places.updateOne({ _id: tokyo }, {
+      $unset: { createdAt: "", updatedAt: "" },
+    });
+    const legacy = await new WishlistConcept(db)._getRecentlyAdded({
+      users: [creatorA, creatorB],
+      before: null,
+      limit: 10,
+    });
+    assertEquals(legacy.map((r) => r.place), [athens, tokyo]);
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 7
+ * Demonstrates removing all of a user's places, archived or not, leaves other users' places.
+ */
+Deno.test("Test Case 7 - remove places by user", async () => {
+  const [db, client] = await testDb();
+  const wishlistConcept = new WishlistConcept(db);
+
+  try {
+    const makeTokyo = await wishlistConcept.addPlace({
+      user: creatorA,
+      city: "Tokyo",
+      region: "Kanto",
+      country: "Japan",
+    });
+    const { place: tokyo } = makeTokyo as { place: ID };
+    await wishlistConcept.markVisited({
+      user: creatorA,
+      place: tokyo,
+      post: "post:tokyoTrip" as ID,
+      archive: true,
+    });
+
+    await wishlistConcept.addPlace({
+      user: creatorB,
+      city: "Athens",
+      region: "Attica",
+      country: "Greece",
+    });
+
+    // 1. user A's places are removed, including archived ones
+    const removeA = await wishlistConcept.removeByUser({ user: creatorA });
+    assertEquals(removeA, { places: [tokyo] });
+
+    const archivedA = await wishlistConcept._getArchivedPlaces({
+      user: creatorA,
+    });
+    assertEquals(archivedA.length, 0, "User A's places should be removed.");
+
+    const placesB = await wishlistConcept._getPlaces({ user: creatorB });
+    assertEquals(placesB.length, 1, "User B's places should remain.");
+  } finally {
+    await client.close();
+  }
+});
+
+/**
+ * Test Case 8
+ * Demonstrates finding the users who want to visit the same places.
+ */
+Deno.test("Test Case 8 - users wishing for places", async () => {
+  const [db, client] = await testDb();
+  const wishlistConcept = new WishlistConcept(db);
+
+  try {
+    const kyoto = { city: "Kyoto", region: "Kansai", country: "Japan" };
+    const lima = { city: "Lima", region: "Lima", country: "Peru" };
+    await wishlistConcept.addPlace({ user: creatorA, ...kyoto });
+    await wishlistConcept.addPlace({ user: creatorA, ...lima });
+    const makeKyoto = await wishlistConcept.addPlace({
+      user: creatorB,
+      ...kyoto,
+    });
+    const { place: kyotoB } = makeKyoto as { place: ID };
+
+    // 1. users are found with the given places they want to visit
+    const wishers = await wishlistConcept._getUsersWishingFor({
+      places: [kyoto, lima],
+    });
+    assertEquals(wishers.length, 2, "Both users should be found.");
+    assertEquals(wishers.find((w) => w.user === creatorA)?.places, [
+      kyoto,
+      lima,
+    ]);
+    assertEquals(wishers.find((w) => w.user === creatorB)?.places, [kyoto]);
+
+    // 2. archived places don't count
+    await wishlistConcept.markVisited({
+      user: creatorB,
+      place: kyotoB,
+      post: "post:kyotoTrip" as ID,
+      archive: true,
+    });
+    const afterVisit = await wishlistConcept._getUsersWishingFor({
+      places: [kyoto],
+    });
+    assertEquals(afterVisit, [{ user: creatorA, places: [kyoto] }]);
+
+    // 3. no places finds no one
+    assertEquals(await wishlistConcept._getUsersWishingFor({ places: [] }), []);
+  } finally {
+    await client.close();
+  }
+});
@@ -1,18 +1,38 @@
-import { Collection, Db } from "npm:mongodb";
+import { Collection, Db, Filter } from "npm:mongodb";
 import { Empty, ID } from "@utils/types.ts";
-import { freshID } from "@utils/database.ts";
+import { dateOfID, freshID } from "@utils/database.ts";
 
 // Collection prefix to ensure namespace separation
 const PREFIX = "Wishlist" + ".";
 
 // Generic types for the concept's external dependencies
 type User = ID;
+type Post = ID;
 
 // Internal entity types, represented as IDs
 type Place = ID;
 
 /**
- * State: A set of Places with a user, city, region, and country.
+ * A position in a list of activity, ordered newest first: the time of the last item seen and its ID.
+ */
+export interface ActivityCursor {
+  at: Date;
+  id: ID;
+}
+
+/**
+ * Where a place is: its city, region, and country.
+ */
+export interface PlaceLocation {
+  city: string;
+  region: string;
+  country: string;
+}
+
+/**
+ * State: A set of Places with a user, city, region, and country;
+ * the post recording a visit, if visited; whether the place is archived;
+ * and the dates it was added and last updated.
  */
 export interface PlaceDoc {
   _id: Place;
@@ -20,6 +40,10 @@ export interface PlaceDoc {
   city: string;
   region: string;
   country: string;
+  visitedPost: Post | null;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
@@ -28,16 +52,44 @@ export interface PlaceDoc {
  */
 export default class WishlistConcept {
   places: Collection<PlaceDoc>;
+  private timestampsBackfill?: Promise<unknown>;
 
   constructor(private readonly db: Db) {
     this.places = this.db.collection(PREFIX + "places");
   }
 
+  /**
+   * Dates places from before places were timestamped as added when their ID was created,
+   * so they appear in activity. Runs once, before the first activity query.
+   */
+  private backfillTimestamps(): Promise<unknown> {
+    this.timestampsBackfill ??= (async () => {
+      const places = await this.places.find({ createdAt: { $exists: false } })
+        .toArray();
+      if (places.length === 0) {
+        return;
+      }
+      await this.places.bulkWrite(places.map((p) => {
+        const createdAt = dateOfID(p._id);
+        return {
+          updateOne: {
+            filter: { _id: p._id },
+            update: {
+              $set: { createdAt, updatedAt: p.updatedAt ?? createdAt },
+            },
+          },
+        };
+      }));
+    })();
+    return this.timestampsBackfill;
+  }
+
   /**
    * Action: Adds a new place for a user.
-   * @requires a place doesn't already exist in the set of places
+   * @requires an unarchived place doesn't already exist in the set of places
    * with the given user, city, region, and country
-   * @effects adds and returns a place with the given user, city, region, and country
+   * @effects adds and returns an unvisited, unarchived place with the given user,
+   * city, region, and country
    */
   async addPlace(
     { user, city, region, country }: {
@@ -53,6 +105,7 @@ export default class WishlistConcept {
       city,
       region,
       country,
+      archived: { $ne: true },
     });
 
     if (existingPlace) {
@@ -64,6 +117,7 @@ export default class WishlistConcept {
 
     // adds place
     const newPlaceId = freshID() as Place;
+    const now = new Date();
 
     await this.places.insertOne({
       _id: newPlaceId,
@@ -71,6 +125,10 @@ export default class WishlistConcept {
       city,
       region,
       country,
+      visitedPost: null,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
     });
 
     return { place: newPlaceId };
@@ -98,17 +156,113 @@ export default class WishlistConcept {
     return {};
   }
 
+  /**
+   * Action: Removes all places from a user's wishlist, archived or not.
+   * @effects removes every place with the given user; returns the removed places
+   */
+  async removeByUser(
+    { user }: { user: User },
+  ): Promise<{ places: Place[] }> {
+    const places = await this.places.find({ user }).toArray();
+    await this.places.deleteMany({ user });
+    return { places: places.map((p) => p._id) };
+  }
+
+  /**
+   * Action: Records that a user visited a place on their wishlist.
+   * @requires place exists in set of places, user is its creator, and it hasn't been visited
+   * @effects associates place with the post recording the visit; archives place if archive is true;
+   * returns place
+   */
+  async markVisited(
+    { user, place, post, archive }: {
+      user: User;
+      place: Place;
+      post: Post;
+      archive: boolean;
+    },
+  ): Promise<{ place: Place } | { error: string }> {
+    // checks place already exists for user
+    const currPlace = await this.places.findOne({ _id: place, user: user });
+    if (!currPlace) {
+      return { error: `Place not in user with ID ${user}'s wishlist.` };
+    }
+
+    // checks place hasn't already been visited
+    if (currPlace.visitedPost) {
+      return {
+        error:
+          `Place "${currPlace.city}, ${currPlace.region}, ${currPlace.country}" was already visited.`,
+      };
+    }
+
+    // records visit
+    await this.places.updateOne({ _id: place }, {
+      $set: {
+        visitedPost: post,
+        archived: archive === true,
+        updatedAt: new Date(),
+      },
+    });
+    return { place: place };
+  }
+
+  /**
+   * Action: Clears the record of a user's visit to a place.
+   * @requires place exists in set of places, user is its creator, and it has been visited
+   * @effects removes the association between place and its visit's post and unarchives place;
+   * returns place
+   */
+  async unmarkVisited(
+    { user, place }: { user: User; place: Place },
+  ): Promise<{ place: Place } | { error: string }> {
+    // checks place has been visited by user
+    const currPlace = await this.places.findOne({ _id: place, user: user });
+    if (!currPlace || !currPlace.visitedPost) {
+      return { error: `Place not visited by user with ID ${user}.` };
+    }
+
+    // clears visit
+    await this.places.updateOne({ _id: place }, {
+      $set: { visitedPost: null, archived: false, updatedAt: new Date() },
+    });
+    return { place: place };
+  }
+
   /**
    * Query: Retrieves a user's places.
-   * @effects returns all places for a given user
+   * @effects returns all unarchived places for a given user
    */
   async _getPlaces(
     { user }: { user: User },
   ): Promise<{ place: Place }[]> {
-    const places = await this.places.find({ user }).toArray();
+    const places = await this.places.find({ user, archived: { $ne: true } })
+      .toArray();
     return places.map((p) => ({ place: p._id }));
   }
 
+  /**
+   * Query: Retrieves a user's archived places.
+   * @effects returns all archived places for a given user
+   */
+  async _getArchivedPlaces(
+    { user }: { user: User },
+  ): Promise<{ place: Place }[]> {
+    const places = await this.places.find({ user, archived: true }).toArray();
+    return places.map((p) => ({ place: p._id }));
+  }
+
+  /**
+   * Query: Retrieves the places whose visit is recorded by a given post.
+   * @effects returns all places with the given post as their visit
+   */
+  async _getPlacesVisitedOn(
+    { post }: { post: Post },
+  ): Promise<{ place: Place; user: User }[]> {
+    const places = await this.places.find({ visitedPost: post }).toArray();
+    return places.map((p) => ({ place: p._id, user: p.user }));
+  }
+
   /**
    * Query: Retrieves the place for a given ID.
    * @requires exists place with the given ID
@@ -120,4 +274,70 @@ export default class WishlistConcept {
     const place = await this.places.find({ _id }).toArray();
     return place.map((p) => ({ placeData: p }));
   }
+
+  /**
+   * Query: Retrieves the users who want to visit any of the given places.
+   * @effects returns each user with an unarchived place matching one of the given places' city, region,
+   * and country, with the given places they want to visit
+   */
+  async _getUsersWishingFor(
+    { places }: { places: PlaceLocation[] },
+  ): Promise<{ user: User; places: PlaceLocation[] }[]> {
+    if (places.length === 0) {
+      return [];
+    }
+    const matching = await this.places.find({
+      archived: { $ne: true },
+      $or: places.map(({ city, region, country }) => ({
+        city,
+        region,
+        country,
+      })),
+    }).toArray();
+
+    const byUser = new Map<User, PlaceLocation[]>();
+    for (const { user, city, region, country } of matching) {
+      const wished = byUser.get(user) ?? [];
+      if (
+        !wished.some((w) =>
+          w.city === city && w.region === region && w.country === country
+        )
+      ) {
+        wished.push({ city, region, country });
+      }
+      byUser.set(user, wished);
+    }
+    return [...byUser].map(([user, wished]) => ({ user, places: wished }));
+  }
+
+  /**
+   * Query: Retrieves the places most recently added by a set of users.
+   * @effects returns up to limit places with a user in users, each with when it was added,
+   * newest first (ties broken by ID), starting after the before cursor if one is given
+   */
+  async _getRecentlyAdded(
+    { users, before, limit }: {
+      users: User[];
+      before: ActivityCursor | null;
+      limit: number;
+    },
+  ): Promise<{ place: Place; at: Date }[]> {
+    await this.backfillTimestamps();
+    const cursorFilter: Filter<PlaceDoc> = before
+      ? {
+        $or: [
+          { createdAt: { $lt: new Date(before.at) } },
+          { createdAt: new Date(before.at), _id: { $lt: before.id } },
+        ],
+      }
+      : {};
+    const places = await this.places.find({
+      user: { $in: users },
+      ...cursorFilter,
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit)
+      .toArray();
+    return places.map((p) => ({ place: p._id, at: p.createdAt }));
+  }
 }
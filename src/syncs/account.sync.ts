@@ -0,0 +1,200 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Circles,
+  Commenting,
+  Following,
+  Friending,
+  MediaStorage,
+  Outbox,
+  Posting,
+  Profile,
+  Reacting,
+  Requesting,
+  Sessioning,
+  Throttling,
+  TwoFactor,
+  UserAuthentication,
+  Wishlist,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+
+//-- Account Deletion --//
+export const DeleteAccountRequest: Sync = (
+  { request, session, user, password },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/deleteAccount",
+    session,
+    password,
+  }, { request }]),
+  where: (frames) => frames.query(Sessioning._getUser, { session }, { user }),
+  then: actions([UserAuthentication.deleteAccount, { user, password }]),
+});
+
+export const DeleteAccountResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, {
+      request,
+    }],
+    [UserAuthentication.deleteAccount, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// responds once every concept has removed the user's data, with how much each removed
+export const DeleteAccountResponse: Sync = (
+  {
+    request,
+    user,
+    posts,
+    places,
+    friends,
+    requests,
+    comments,
+    reactions,
+    media,
+    sessions,
+    profile,
+    circles,
+    follows,
+    enrollment,
+    loginFailures,
+    messages,
+    report,
+  },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/deleteAccount" }, {
+      request,
+    }],
+    [UserAuthentication.deleteAccount, {}, { user }],
+    [Posting.deleteByCreator, { creator: user }, { posts }],
+    [Wishlist.removeByUser, { user }, { places }],
+    [Friending.removeUser, { user }, { friends, requests }],
+    [Commenting.anonymizeAuthor, { author: user }, { comments }],
+    [Reacting.deleteByUser, { user }, { reactions }],
+    [MediaStorage.deleteByOwner, { owner: user }, { media }],
+    [Sessioning.deleteAll, { user }, { sessions }],
+    [Profile.deleteByUser, { user }, { profile }],
+    [Circles.deleteByUser, { user }, { circles }],
+    [Following.deleteByUser, { user }, { follows }],
+    [TwoFactor.deleteByUser, { user }, { enrollment }],
+    [Throttling.reset, {}, { failures: loginFailures }],
+    [Outbox.deleteByRecipient, {}, { messages }],
+  ),
+  where: (frames) =>
+    frames.map(($) => ({
+      ...$,
+      [report]: {
+        posts: ($[posts] as ID[]).length,
+        wishlistPlaces: ($[places] as ID[]).length,
+        friends: $[friends],
+        friendRequests: $[requests],
+        commentsAnonymized: $[comments],
+        reactions: $[reactions],
+        media: $[media],
+        sessions: $[sessions],
+        profile: $[profile],
+        circles: $[circles],
+        follows: $[follows],
+        twoFactor: $[enrollment],
+        loginFailures: $[loginFailures],
+        messages: $[messages],
+      },
+    })),
+  then: actions([Requesting.respond, { request, user, report }]),
+});
+
+export const DeleteAccountDeletesPosts: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Posting.deleteByCreator, { creator: user }]),
+});
+
+export const DeleteAccountRemovesWishlist: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Wishlist.removeByUser, { user }]),
+});
+
+export const DeleteAccountRemovesFriending: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Friending.removeUser, { user }]),
+});
+
+export const DeleteAccountAnonymizesComments: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Commenting.anonymizeAuthor, { author: user }]),
+});
+
+export const DeleteAccountDeletesReactions: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Reacting.deleteByUser, { user }]),
+});
+
+export const DeleteAccountDeletesMedia: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([MediaStorage.deleteByOwner, { owner: user }]),
+});
+
+export const DeleteAccountDeletesSessions: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Sessioning.deleteAll, { user }]),
+});
+
+export const DeleteAccountDeletesProfile: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Profile.deleteByUser, { user }]),
+});
+
+export const DeleteAccountDeletesCircles: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Circles.deleteByUser, { user }]),
+});
+
+export const DeleteAccountDeletesFollows: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([Following.deleteByUser, { user }]),
+});
+
+export const DeleteAccountDeletesTwoFactor: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { user }]),
+  then: actions([TwoFactor.deleteByUser, { user }]),
+});
+
+export const DeleteAccountDeletesMessages: Sync = ({ email }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { email }]),
+  then: actions([Outbox.deleteByRecipient, { to: email }]),
+});
+
+//-- Cleaning Up Deleted Posts and Places --//
+export const DeletedPostsDeleteComments: Sync = ({ posts, post }) => ({
+  when: actions([Posting.deleteByCreator, {}, { posts }]),
+  where: (frames) =>
+    new Frames(
+      ...frames.flatMap(($) =>
+        ($[posts] as ID[]).map((p) => ({ ...$, [post]: p }))
+      ),
+    ),
+  then: actions([Commenting.deleteByTarget, { target: post }]),
+});
+
+export const DeletedPostsDeleteReactions: Sync = ({ posts, post }) => ({
+  when: actions([Posting.deleteByCreator, {}, { posts }]),
+  where: (frames) =>
+    new Frames(
+      ...frames.flatMap(($) =>
+        ($[posts] as ID[]).map((p) => ({ ...$, [post]: p }))
+      ),
+    ),
+  then: actions([Reacting.deleteByTarget, { target: post }]),
+});
+
+export const RemovedPlacesDeleteReactions: Sync = ({ places, place }) => ({
+  when: actions([Wishlist.removeByUser, {}, { places }]),
+  where: (frames) =>
+    new Frames(
+      ...frames.flatMap(($) =>
+        ($[places] as ID[]).map((p) => ({ ...$, [place]: p }))
+      ),
+    ),
+  then: actions([Reacting.deleteByTarget, { target: place }]),
+});
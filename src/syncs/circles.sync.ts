@@ -0,0 +1,562 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Circles,
+  Friending,
+  Posting,
+  Requesting,
+  Sessioning,
+  UserAuthentication,
+} from "@concepts";
+import { PostDoc } from "@concepts/Posting/PostingConcept.ts";
+import { ID } from "@utils/types.ts";
+
+//-- Managing Circles --//
+export const CreateCircleRequest: Sync = (
+  { request, session, user, name },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/createCircle",
+      session,
+      name,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Circles.createCircle, { owner: user, name }, {}],
+  ),
+});
+
+export const CreateCircleResponse: Sync = ({ request, circle }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/createCircle" }, { request }],
+    [Circles.createCircle, {}, { circle }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, circle }],
+  ),
+});
+
+export const CreateCircleResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/createCircle" }, { request }],
+    [Circles.createCircle, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const RenameCircleRequest: Sync = (
+  { request, session, user, circle, name },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/renameCircle",
+      session,
+      circle,
+      name,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Circles.renameCircle, { owner: user, circle, name }, {}],
+  ),
+});
+
+export const RenameCircleResponse: Sync = ({ request, circle }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/renameCircle" }, { request }],
+    [Circles.renameCircle, {}, { circle }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, circle }],
+  ),
+});
+
+export const RenameCircleResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/renameCircle" }, { request }],
+    [Circles.renameCircle, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const DeleteCircleRequest: Sync = (
+  { request, session, user, circle },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/deleteCircle",
+      session,
+      circle,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Circles.deleteCircle, { owner: user, circle }, {}],
+  ),
+});
+
+export const DeleteCircleResponse: Sync = ({ request, circle }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/deleteCircle" }, { request }],
+    [Circles.deleteCircle, {}, { circle }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, circle }],
+  ),
+});
+
+export const DeleteCircleResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/deleteCircle" }, { request }],
+    [Circles.deleteCircle, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Circle Members --//
+// only friends can be added to a circle
+export const AddMemberRequest: Sync = (
+  { request, session, user, circle, memberUsername, member, friendshipBoolean },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/addMember",
+      session,
+      circle,
+      member: memberUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: memberUsername,
+    }, { user: member });
+    frames = await frames.query(Friending._isFriendsWith, {
+      user,
+      friend: member,
+    }, { friendshipExists: friendshipBoolean });
+    return frames.filter(($) => $[friendshipBoolean] === true);
+  },
+  then: actions(
+    [Circles.addMember, { owner: user, circle, member }, {}],
+  ),
+});
+
+export const AddMemberNotFriend: Sync = (
+  { request, session, user, memberUsername, member, friendshipBoolean, error },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/addMember",
+      session,
+      member: memberUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: memberUsername,
+    }, { user: member });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "User not found." }));
+    }
+    frames = await frames.query(Friending._isFriendsWith, {
+      user,
+      friend: member,
+    }, { friendshipExists: friendshipBoolean });
+    return frames
+      .filter(($) => $[friendshipBoolean] !== true)
+      .map(($) => ({
+        ...$,
+        [error]: "You can only add friends to a circle.",
+      }));
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const AddMemberResponse: Sync = ({ request, circle }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/addMember" }, { request }],
+    [Circles.addMember, {}, { circle }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, circle }],
+  ),
+});
+
+export const AddMemberResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/addMember" }, { request }],
+    [Circles.addMember, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const RemoveMemberRequest: Sync = (
+  { request, session, user, circle, memberUsername, member },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/removeMember",
+      session,
+      circle,
+      member: memberUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: memberUsername,
+    }, { user: member });
+    return frames;
+  },
+  then: actions(
+    [Circles.removeMember, { owner: user, circle, member }, {}],
+  ),
+});
+
+export const RemoveMemberResponse: Sync = ({ request, circle }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/removeMember" }, { request }],
+    [Circles.removeMember, {}, { circle }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, circle }],
+  ),
+});
+
+export const RemoveMemberResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Circles/removeMember" }, { request }],
+    [Circles.removeMember, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const GetCirclesRequest: Sync = (
+  { request, session, user, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Circles/_getCircles", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    const circles = [];
+    const owned = await Circles._getCircles({ owner: frames[0][user] as ID });
+    for (const { circle, name, members } of owned) {
+      const memberUsernames = [];
+      for (const member of members) {
+        const [{ username }] = await UserAuthentication._getUsernameByUser({
+          user: member,
+        });
+        memberUsernames.push(username);
+      }
+      circles.push({ circle, name, members: memberUsernames });
+    }
+
+    return new Frames({ ...frames[0], [results]: circles });
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+//-- Sharing Posts and Wishlists --//
+// a post is shared by its creator; a user's wishlist is shared as a whole, identified by the user
+export const SharePostRequest: Sync = (
+  { request, session, user, post, postData, circles },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/sharePost",
+      session,
+      post,
+      circles,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    return frames.filter(($) => ($[postData] as PostDoc).creator === $[user]);
+  },
+  then: actions(
+    [Circles.shareWithCircles, { owner: user, item: post, circles }, {}],
+  ),
+});
+
+export const SharePostWithAllFriendsRequest: Sync = (
+  { request, session, user, post, postData },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/sharePostWithAllFriends",
+      session,
+      post,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    return frames.filter(($) => ($[postData] as PostDoc).creator === $[user]);
+  },
+  then: actions(
+    [Circles.shareWithAllFriends, { owner: user, item: post }, {}],
+  ),
+});
+
+/**
+ * Builds a sync that responds with an error to requests on the given path
+ * whose post is missing or wasn't created by the session's user.
+ */
+function postNotOwned(path: string): Sync {
+  return ({ request, session, user, post, postData }) => ({
+    when: actions([Requesting.request, { path, session, post }, { request }]),
+    where: async (frames) => {
+      frames = await frames.query(Sessioning._getUser, { session }, { user });
+      const owned = await frames.query(Posting._getPostById, { _id: post }, {
+        postData,
+      });
+      return frames.filter(($) =>
+        !owned.some((o) =>
+          o[request] === $[request] &&
+          (o[postData] as PostDoc).creator === $[user]
+        )
+      );
+    },
+    then: actions([Requesting.respond, { request, error: "Post not found." }]),
+  });
+}
+
+export const SharePostNotOwned = postNotOwned("/Circles/sharePost");
+export const SharePostWithAllFriendsNotOwned = postNotOwned(
+  "/Circles/sharePostWithAllFriends",
+);
+
+export const ShareWishlistRequest: Sync = (
+  { request, session, user, circles },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/shareWishlist",
+      session,
+      circles,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Circles.shareWithCircles, { owner: user, item: user, circles }, {}],
+  ),
+});
+
+export const ShareWishlistWithAllFriendsRequest: Sync = (
+  { request, session, user },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Circles/shareWishlistWithAllFriends",
+      session,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Circles.shareWithAllFriends, { owner: user, item: user }, {}],
+  ),
+});
+
+type SharingAction =
+  | typeof Circles.shareWithCircles
+  | typeof Circles.shareWithAllFriends;
+
+/**
+ * Builds a sync that responds to requests on the given path once the given sharing action succeeds.
+ */
+function shareResponse(path: string, action: SharingAction): Sync {
+  return ({ request, item }) => ({
+    when: actions(
+      [Requesting.request, { path }, { request }],
+      [action, {}, { item }],
+    ),
+    then: actions([Requesting.respond, { request, status: "shared" }]),
+  });
+}
+
+/**
+ * Builds a sync that responds with the error to requests on the given path whose sharing action fails.
+ */
+function shareResponseError(path: string, action: SharingAction): Sync {
+  return ({ request, error }) => ({
+    when: actions(
+      [Requesting.request, { path }, { request }],
+      [action, {}, { error }],
+    ),
+    then: actions([Requesting.respond, { request, error }]),
+  });
+}
+
+export const SharePostResponse = shareResponse(
+  "/Circles/sharePost",
+  Circles.shareWithCircles,
+);
+export const SharePostResponseError = shareResponseError(
+  "/Circles/sharePost",
+  Circles.shareWithCircles,
+);
+export const SharePostWithAllFriendsResponse = shareResponse(
+  "/Circles/sharePostWithAllFriends",
+  Circles.shareWithAllFriends,
+);
+export const SharePostWithAllFriendsResponseError = shareResponseError(
+  "/Circles/sharePostWithAllFriends",
+  Circles.shareWithAllFriends,
+);
+export const ShareWishlistResponse = shareResponse(
+  "/Circles/shareWishlist",
+  Circles.shareWithCircles,
+);
+export const ShareWishlistResponseError = shareResponseError(
+  "/Circles/shareWishlist",
+  Circles.shareWithCircles,
+);
+export const ShareWishlistWithAllFriendsResponse = shareResponse(
+  "/Circles/shareWishlistWithAllFriends",
+  Circles.shareWithAllFriends,
+);
+export const ShareWishlistWithAllFriendsResponseError = shareResponseError(
+  "/Circles/shareWishlistWithAllFriends",
+  Circles.shareWithAllFriends,
+);
+
+export const GetPostSharingRequest: Sync = (
+  { request, session, user, post, circles },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Circles/_getPostSharing", session, post },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Circles._getSharing, {
+      owner: user,
+      item: post,
+    }, { circles });
+  },
+  then: actions([Requesting.respond, { request, circles }]),
+});
+
+export const GetWishlistSharingRequest: Sync = (
+  { request, session, user, circles },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Circles/_getWishlistSharing", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Circles._getSharing, {
+      owner: user,
+      item: user,
+    }, { circles });
+  },
+  then: actions([Requesting.respond, { request, circles }]),
+});
+
+//-- Keeping Circles to Friends --//
+// users who stop being friends, including by blocking, leave each other's circles
+export const EndFriendshipRemovesFromCircles: Sync = (
+  { user, friend, friendshipBoolean },
+) => ({
+  when: actions([Friending.endFriendship, { user, friend }, {}]),
+  where: async (frames) => {
+    // only react once the friendship is actually gone
+    frames = await frames.query(Friending._isFriendsWith, { user, friend }, {
+      friendshipExists: friendshipBoolean,
+    });
+    return frames.filter(($) => $[friendshipBoolean] !== true);
+  },
+  then: actions(
+    [Circles.removeMemberFromAll, { owner: user, member: friend }],
+    [Circles.removeMemberFromAll, { owner: friend, member: user }],
+  ),
+});
+
+export const BlockRemovesFromCircles: Sync = ({ user, target }) => ({
+  when: actions([Friending.block, { user, target }, { user }]),
+  then: actions(
+    [Circles.removeMemberFromAll, { owner: user, member: target }],
+    [Circles.removeMemberFromAll, { owner: target, member: user }],
+  ),
+});
+
+export const DeletePostForgetsSharing: Sync = ({ user, post, postData }) => ({
+  when: actions([Posting.delete, { user, post }, {}]),
+  where: async (frames) => {
+    // only react once the post is actually gone
+    const remaining = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    return remaining.length > 0 ? new Frames() : frames;
+  },
+  then: actions([Circles.deleteItem, { item: post }]),
+});
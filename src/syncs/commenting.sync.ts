@@ -0,0 +1,417 @@
+import { actions, Frames, Sync } from "@engine";
+import { Commenting, Posting, Requesting, Sessioning } from "@concepts";
+import { CommentDoc } from "@concepts/Commenting/CommentingConcept.ts";
+import { canViewPost } from "./visibility.ts";
+
+const NOT_ALLOWED = "Only users who can see the post can comment on it.";
+
+/**
+ * Determines, for each frame, whether the session's user may comment on the post
+ * and read its comments: the same users who may view the post.
+ * Frames whose post doesn't exist are dropped.
+ */
+async function canComment(
+  frames: Frames,
+  { user, post, postData, creator, friendshipBoolean, allowed }: {
+    user: symbol;
+    post: symbol;
+    postData: symbol;
+    creator: symbol;
+    friendshipBoolean: symbol;
+    allowed: symbol;
+  },
+): Promise<Frames> {
+  frames = await frames.query(Posting._getPostById, { _id: post }, {
+    postData,
+  });
+  return await canViewPost(frames, {
+    user,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView: allowed,
+  });
+}
+
+export const AddCommentRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    body,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/add", session, post, body },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    return frames.filter(($) => $[allowed] === true);
+  },
+  then: actions([Commenting.add, { author: user, target: post, body }]),
+});
+
+export const AddCommentNotAllowed: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    body,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+    error,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/add", session, post, body },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "Post not found." }));
+    }
+    return frames
+      .filter(($) => $[allowed] !== true)
+      .map(($) => ({ ...$, [error]: NOT_ALLOWED }));
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const AddCommentResponse: Sync = ({ request, comment }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/add" }, { request }],
+    [Commenting.add, {}, { comment }],
+  ),
+  then: actions([Requesting.respond, { request, comment }]),
+});
+
+export const AddCommentResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/add" }, { request }],
+    [Commenting.add, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ReplyCommentRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    parent,
+    body,
+    commentData,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/reply", session, parent, body },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Commenting._getCommentById, { _id: parent }, {
+      commentData,
+    });
+    frames = frames.map(($) => ({
+      ...$,
+      [post]: ($[commentData] as CommentDoc).target,
+    }));
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    return frames.filter(($) => $[allowed] === true);
+  },
+  then: actions([Commenting.reply, { author: user, parent, body }]),
+});
+
+export const ReplyCommentNotAllowed: Sync = (
+  {
+    request,
+    session,
+    user,
+    parent,
+    body,
+    commentData,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+    error,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/reply", session, parent, body },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+
+    frames = await frames.query(Commenting._getCommentById, { _id: parent }, {
+      commentData,
+    });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "Comment not found." }));
+    }
+    frames = frames.map(($) => ({
+      ...$,
+      [post]: ($[commentData] as CommentDoc).target,
+    }));
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "Post not found." }));
+    }
+    return frames
+      .filter(($) => $[allowed] !== true)
+      .map(($) => ({ ...$, [error]: NOT_ALLOWED }));
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ReplyCommentResponse: Sync = ({ request, comment }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/reply" }, { request }],
+    [Commenting.reply, {}, { comment }],
+  ),
+  then: actions([Requesting.respond, { request, comment }]),
+});
+
+export const ReplyCommentResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/reply" }, { request }],
+    [Commenting.reply, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const EditCommentRequest: Sync = (
+  { request, session, user, comment, body },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Commenting/edit",
+      session,
+      comment,
+      body,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Commenting.edit, { user, comment, body }, {}],
+  ),
+});
+
+export const EditCommentResponse: Sync = ({ request, comment }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/edit" }, { request }],
+    [Commenting.edit, {}, { comment }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, comment }],
+  ),
+});
+
+export const EditCommentResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/edit" }, { request }],
+    [Commenting.edit, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const DeleteCommentRequest: Sync = (
+  { request, session, user, comment },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Commenting/delete",
+      session,
+      comment,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Commenting.delete, { user, comment }, {}],
+  ),
+});
+
+export const DeleteCommentResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/delete" }, { request }],
+    [Commenting.delete, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request }],
+  ),
+});
+
+export const DeleteCommentResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Commenting/delete" }, { request }],
+    [Commenting.delete, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const GetCommentsRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+    commentData,
+    results,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/_getComments", session, post },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    frames = frames.filter(($) => $[allowed] === true);
+    if (frames.length === 0) {
+      return frames;
+    }
+    const allowedFrame = frames[0];
+
+    frames = await frames.query(Commenting._getComments, { target: post }, {
+      commentData,
+    });
+    if (frames.length === 0) {
+      return new Frames({ ...allowedFrame, [results]: [] });
+    }
+    return frames.collectAs([commentData], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const GetCommentsNotAllowed: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    allowed,
+    error,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Commenting/_getComments", session, post },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+
+    frames = await canComment(frames, {
+      user,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      allowed,
+    });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "Post not found." }));
+    }
+    return frames
+      .filter(($) => $[allowed] !== true)
+      .map(($) => ({ ...$, [error]: NOT_ALLOWED }));
+  },
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// Comments shouldn't outlive the post they were made on
+export const DeletePostDeletesComments: Sync = ({ user, post, postData }) => ({
+  when: actions([Posting.delete, { user, post }, {}]),
+  where: async (frames) => {
+    // only react once the post is actually gone
+    const remaining = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    return remaining.length > 0 ? new Frames() : frames;
+  },
+  then: actions([Commenting.deleteByTarget, { target: post }]),
+});
@@ -0,0 +1,242 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Circles,
+  Following,
+  Friending,
+  Posting,
+  Requesting,
+  Sessioning,
+  Wishlist,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+import {
+  ActivityCursor,
+  PostDoc,
+  Visibility,
+} from "@concepts/Posting/PostingConcept.ts";
+import { PlaceDoc } from "@concepts/Wishlist/WishlistConcept.ts";
+
+// Number of items returned per page of the feed
+const FEED_PAGE_SIZE = 20;
+
+// Friends see friends-only and public posts
+const FRIEND_VISIBILITY: Visibility[] = ["friends", "public"];
+
+// Followers who aren't friends only see public posts
+const FOLLOWER_VISIBILITY: Visibility[] = ["public"];
+
+/**
+ * An item in a user's feed: a friend's or followed user's post being created or edited,
+ * or a place being added to a friend's wishlist.
+ */
+type FeedItem =
+  | {
+    type: "post";
+    activity: "created" | "edited";
+    at: Date;
+    user: ID;
+    post: ID;
+    postData: PostDoc;
+  }
+  | {
+    type: "place";
+    activity: "added";
+    at: Date;
+    user: ID;
+    place: ID;
+    placeData: PlaceDoc;
+  };
+
+/**
+ * Parses a feed cursor of the form "<milliseconds>:<id>"; the empty cursor starts at the newest activity.
+ * @returns the cursor, null for the empty cursor, or undefined if the cursor is malformed
+ */
+function parseCursor(cursor: string): ActivityCursor | null | undefined {
+  if (cursor === "") {
+    return null;
+  }
+  const separator = String(cursor).indexOf(":");
+  const at = Number(String(cursor).slice(0, separator));
+  const id = String(cursor).slice(separator + 1);
+  if (separator < 0 || !Number.isFinite(at) || id === "") {
+    return undefined;
+  }
+  return { at: new Date(at), id: id as ID };
+}
+
+/**
+ * Retrieves a page of the feed made up of the given friends' activity and the given followed users'
+ * public posts, newest first, leaving out posts and wishlists the friends only shared with circles
+ * the viewer isn't in. Pages with items left out are shorter, but the next page still starts after them.
+ * @returns the page's items, and the cursor for the next page (null if this is the last page)
+ */
+async function feedPage(
+  viewer: ID,
+  friends: ID[],
+  followed: ID[],
+  before: ActivityCursor | null,
+): Promise<{ items: FeedItem[]; nextCursor: string | null }> {
+  const [posts, followedPosts, places] = await Promise.all([
+    Posting._getActivity({
+      users: friends,
+      visibility: FRIEND_VISIBILITY,
+      before,
+      limit: FEED_PAGE_SIZE,
+    }),
+    Posting._getActivity({
+      users: followed,
+      visibility: FOLLOWER_VISIBILITY,
+      before,
+      limit: FEED_PAGE_SIZE,
+    }),
+    Wishlist._getRecentlyAdded({
+      users: friends,
+      before,
+      limit: FEED_PAGE_SIZE,
+    }),
+  ]);
+
+  // merge all sources in the same order each is sorted in
+  const merged = [
+    ...[...posts, ...followedPosts].map((p) => ({
+      id: p.post,
+      at: p.at,
+      activity: p.activity,
+    })),
+    ...places.map((p) => ({
+      id: p.place,
+      at: p.at,
+      activity: "added" as const,
+    })),
+  ].sort((a, b) =>
+    b.at.getTime() - a.at.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+  ).slice(0, FEED_PAGE_SIZE);
+
+  const items: FeedItem[] = [];
+  // entries deleted since their activity was listed are skipped
+  for (const entry of merged) {
+    if (entry.activity !== "added") {
+      const [found] = await Posting._getPostById({ _id: entry.id });
+      if (!found) {
+        continue;
+      }
+      const { postData } = found;
+      const [{ shared }] = await Circles._isSharedWith({
+        item: entry.id,
+        viewer,
+      });
+      if (postData.visibility !== "public" && !shared) {
+        continue;
+      }
+      items.push({
+        type: "post",
+        activity: entry.activity,
+        at: entry.at,
+        user: postData.creator,
+        post: entry.id,
+        postData,
+      });
+    } else {
+      const [found] = await Wishlist._getPlaceById({ _id: entry.id });
+      if (!found) {
+        continue;
+      }
+      const { placeData } = found;
+      const [{ shared }] = await Circles._isSharedWith({
+        item: placeData.user,
+        viewer,
+      });
+      if (!shared) {
+        continue;
+      }
+      items.push({
+        type: "place",
+        activity: "added",
+        at: entry.at,
+        user: placeData.user,
+        place: entry.id,
+        placeData,
+      });
+    }
+  }
+
+  const last = merged[merged.length - 1];
+  return {
+    items,
+    nextCursor: merged.length === FEED_PAGE_SIZE
+      ? `${last.at.getTime()}:${last.id}`
+      : null,
+  };
+}
+
+export const GetFeedRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    cursor,
+    before,
+    friendId,
+    friends,
+    results,
+    nextCursor,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Feed/_getFeed", session, cursor },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames
+      .map(($) => ({ ...$, [before]: parseCursor($[cursor] as string) }))
+      .filter(($) => $[before] !== undefined);
+    const userFrames = frames;
+
+    // gather the user's friends
+    frames = await frames.query(Friending._getFriends, { user }, { friendId });
+    frames = frames.length === 0
+      ? userFrames.map(($) => ({ ...$, [friends]: [] }))
+      : frames.collectAs([friendId], friends);
+
+    return new Frames(
+      ...await Promise.all(frames.map(async ($) => {
+        const friendIds = ($[friends] as { friendId: ID }[]).map((f) =>
+          f.friendId
+        );
+        // followed users who are also friends are already covered by their friends-only posts
+        const followed =
+          (await Following._getFollowing({ user: $[user] as ID }))
+            .map((f) => f.followeeId)
+            .filter((f) => !friendIds.includes(f));
+        const page = await feedPage(
+          $[user] as ID,
+          friendIds,
+          followed,
+          $[before] as ActivityCursor | null,
+        );
+        return { ...$, [results]: page.items, [nextCursor]: page.nextCursor };
+      })),
+    );
+  },
+  then: actions([Requesting.respond, { request, results, nextCursor }]),
+});
+
+export const GetFeedInvalidCursor: Sync = (
+  { request, session, user, cursor },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Feed/_getFeed", session, cursor },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames.filter(($) => parseCursor($[cursor] as string) === undefined);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "Invalid feed cursor." },
+  ]),
+});
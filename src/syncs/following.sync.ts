@@ -0,0 +1,375 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Following,
+  Friending,
+  Profile,
+  Requesting,
+  Sessioning,
+  UserAuthentication,
+} from "@concepts";
+import { ID } from "@utils/types.ts";
+
+/**
+ * Determines, for each frame, whether either user has blocked the other.
+ */
+async function blockedBetween(
+  frames: Frames,
+  { user, other, blocked }: { user: symbol; other: symbol; blocked: symbol },
+): Promise<Frames> {
+  return new Frames(
+    ...await Promise.all(frames.map(async ($) => {
+      const [blockedUsers, blockers] = await Promise.all([
+        Friending._getBlocked({ user: $[user] as ID }),
+        Friending._getBlockers({ user: $[user] as ID }),
+      ]);
+      return {
+        ...$,
+        [blocked]: blockedUsers.some((b) => b.blockedId === $[other]) ||
+          blockers.some((b) => b.blockerId === $[other]),
+      };
+    })),
+  );
+}
+
+export const FollowRequest: Sync = (
+  { request, session, user, followeeUsername, followee, blocked },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Following/follow",
+      session,
+      followee: followeeUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: followeeUsername,
+    }, { user: followee });
+    frames = await blockedBetween(frames, { user, other: followee, blocked });
+    return frames.filter(($) => $[blocked] === false);
+  },
+  then: actions(
+    [Following.follow, { follower: user, followee }, {}],
+  ),
+});
+
+// the same error whichever user blocked the other, as for friend requests
+export const FollowNotAllowed: Sync = (
+  { request, session, user, followeeUsername, followee, blocked, error },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Following/follow",
+      session,
+      followee: followeeUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: followeeUsername,
+    }, { user: followee });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "User not found." }));
+    }
+    frames = await blockedBetween(frames, { user, other: followee, blocked });
+    return frames
+      .filter(($) => $[blocked] === true)
+      .map(($) => ({ ...$, [error]: "You can't follow this user." }));
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const FollowResponse: Sync = ({ request, followee }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Following/follow" }, { request }],
+    [Following.follow, {}, { followee }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, status: "following" }],
+  ),
+});
+
+export const FollowResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Following/follow" }, { request }],
+    [Following.follow, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const UnfollowRequest: Sync = (
+  { request, session, user, followeeUsername, followee },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Following/unfollow",
+      session,
+      followee: followeeUsername,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(UserAuthentication._getUserByUsername, {
+      username: followeeUsername,
+    }, { user: followee });
+  },
+  then: actions(
+    [Following.unfollow, { follower: user, followee }, {}],
+  ),
+});
+
+export const UnfollowResponse: Sync = ({ request, followee }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Following/unfollow" }, { request }],
+    [Following.unfollow, {}, { followee }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, status: "unfollowed" }],
+  ),
+});
+
+export const UnfollowResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Following/unfollow" }, { request }],
+    [Following.unfollow, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+// users who blocked each other don't see each other's lists, or each other in lists
+export const GetFollowersRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    targetUsername,
+    target,
+    followerId,
+    followedAt,
+    blocked,
+    username,
+    profile,
+    results,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Following/_getFollowers", session, username: targetUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    // an invalid session has no user, who can't be checked for blocks
+    frames = frames.filter(($) => $[user] !== undefined);
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: target });
+    frames = await blockedBetween(frames, { user, other: target, blocked });
+    frames = frames.filter(($) => $[blocked] === false);
+    frames = await frames.query(Following._getFollowers, { user: target }, {
+      followerId,
+      followedAt,
+    });
+    frames = await blockedBetween(frames, { user, other: followerId, blocked });
+    frames = frames.filter(($) => $[blocked] === false);
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(
+      UserAuthentication._getUsernameByUser,
+      { user: followerId },
+      { username },
+    );
+    frames = await frames.query(Profile._getProfile, {
+      user: followerId,
+      visibility: ["public"],
+    }, { profile });
+
+    return frames.collectAs(
+      [followerId, username, profile, followedAt],
+      results,
+    );
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const GetFollowingRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    targetUsername,
+    target,
+    followeeId,
+    followedAt,
+    blocked,
+    username,
+    profile,
+    results,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Following/_getFollowing", session, username: targetUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    // an invalid session has no user, who can't be checked for blocks
+    frames = frames.filter(($) => $[user] !== undefined);
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: target });
+    frames = await blockedBetween(frames, { user, other: target, blocked });
+    frames = frames.filter(($) => $[blocked] === false);
+    frames = await frames.query(Following._getFollowing, { user: target }, {
+      followeeId,
+      followedAt,
+    });
+    frames = await blockedBetween(frames, { user, other: followeeId, blocked });
+    frames = frames.filter(($) => $[blocked] === false);
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(
+      UserAuthentication._getUsernameByUser,
+      { user: followeeId },
+      { username },
+    );
+    frames = await frames.query(Profile._getProfile, {
+      user: followeeId,
+      visibility: ["public"],
+    }, { profile });
+
+    return frames.collectAs(
+      [followeeId, username, profile, followedAt],
+      results,
+    );
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+/**
+ * The users who have blocked a user or been blocked by them, and are hidden from them.
+ */
+async function blockedWith(user: ID): Promise<Set<ID>> {
+  const [blockedUsers, blockers] = await Promise.all([
+    Friending._getBlocked({ user }),
+    Friending._getBlockers({ user }),
+  ]);
+  return new Set([
+    ...blockedUsers.map((b) => b.blockedId),
+    ...blockers.map((b) => b.blockerId),
+  ]);
+}
+
+// counts for a profile page, with whether the session's user follows them;
+// like the lists, they leave out users who blocked the session's user or were blocked by them
+export const GetFollowCountsRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    targetUsername,
+    target,
+    blocked,
+    followers,
+    following,
+    isFollowing,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Following/_getCounts", session, username: targetUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames.filter(($) => $[user] !== undefined);
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: target });
+    frames = await blockedBetween(frames, { user, other: target, blocked });
+    frames = frames.filter(($) => $[blocked] === false);
+    frames = new Frames(
+      ...await Promise.all(frames.map(async ($) => {
+        const [hidden, followerList, followingList] = await Promise.all([
+          blockedWith($[user] as ID),
+          Following._getFollowers({ user: $[target] as ID }),
+          Following._getFollowing({ user: $[target] as ID }),
+        ]);
+        return {
+          ...$,
+          [followers]: followerList
+            .filter((f) => !hidden.has(f.followerId)).length,
+          [following]: followingList
+            .filter((f) => !hidden.has(f.followeeId)).length,
+        };
+      })),
+    );
+    return await frames.query(Following._isFollowing, {
+      follower: user,
+      followee: target,
+    }, { following: isFollowing });
+  },
+  then: actions([
+    Requesting.respond,
+    { request, followers, following, isFollowing },
+  ]),
+});
+
+// the same error whether the user doesn't exist or either user blocked the other
+export const GetFollowCountsNotFound: Sync = (
+  { request, session, user, targetUsername, target, blocked },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Following/_getCounts", session, username: targetUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = frames.filter(($) => $[user] !== undefined);
+    const userFrames = frames;
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: target });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+    frames = await blockedBetween(frames, { user, other: target, blocked });
+    return frames.filter(($) => $[blocked] === true);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "User not found." },
+  ]),
+});
+
+export const BlockRemovesFollows: Sync = ({ user, target }) => ({
+  when: actions([Friending.block, { user, target }, { user }]),
+  then: actions([Following.removeBetween, { user, other: target }]),
+});
@@ -1,10 +1,109 @@
 import { actions, Frames, Sync } from "@engine";
 import {
   Friending,
+  Posting,
+  Profile,
   Requesting,
   Sessioning,
   UserAuthentication,
+  Wishlist,
 } from "@concepts";
+import { PlaceLocation } from "@concepts/Wishlist/WishlistConcept.ts";
+import { ID } from "@utils/types.ts";
+
+// Most friend suggestions shown at once.
+const SUGGESTION_LIMIT = 20;
+
+/**
+ * Why a user was suggested as a friend: the friends and visited countries they share.
+ */
+interface SuggestionReasons {
+  mutualFriends: ID[];
+  sharedCountries: string[];
+}
+
+/**
+ * Ranks the users a user might know: by mutual friends, then by the countries they've both visited
+ * (on the other user's public trips) and places on both their wishlists.
+ * Wishlists aren't public, so shared places only rank users suggested for other reasons and are never listed.
+ * Users they're already connected to, including by pending requests or blocks, aren't suggested.
+ * @returns up to the suggestion limit of users, best first, with why each was suggested
+ */
+async function suggestFriends(
+  user: ID,
+): Promise<{ user: ID; reasons: SuggestionReasons }[]> {
+  const [{ users: connections }] = await Friending._getConnections({ user });
+  const suggestions = new Map<ID, SuggestionReasons>();
+  const reasonsFor = (other: ID) => {
+    const reasons = suggestions.get(other) ??
+      { mutualFriends: [], sharedCountries: [] };
+    suggestions.set(other, reasons);
+    return reasons;
+  };
+
+  const friendsOfFriends = await Friending._getFriendsOfFriends({ user });
+  for (const { friendId, mutualFriends } of friendsOfFriends) {
+    reasonsFor(friendId).mutualFriends = mutualFriends;
+  }
+
+  const [{ countries }] = await Posting._getPlacesVisited({
+    user,
+    visibility: ["private", "friends", "public"],
+  });
+  const visitors = await Posting._getVisitorsOfCountries({
+    countries,
+    visibility: ["public"],
+  });
+  for (const { user: other, countries: shared } of visitors) {
+    if (!connections.includes(other)) {
+      reasonsFor(other).sharedCountries = shared;
+    }
+  }
+
+  const places: PlaceLocation[] = [];
+  for (const { place } of await Wishlist._getPlaces({ user })) {
+    const [{ placeData: { city, region, country } }] = await Wishlist
+      ._getPlaceById({ _id: place });
+    places.push({ city, region, country });
+  }
+  const wishers = await Wishlist._getUsersWishingFor({ places });
+  const sharedPlaceCounts = new Map<ID, number>();
+  for (const { user: other, places: shared } of wishers) {
+    sharedPlaceCounts.set(other, shared.length);
+  }
+
+  const overlap = (other: ID, r: SuggestionReasons) =>
+    r.sharedCountries.length + (sharedPlaceCounts.get(other) ?? 0);
+  return [...suggestions]
+    .map(([other, reasons]) => ({ user: other, reasons }))
+    .sort((a, b) =>
+      b.reasons.mutualFriends.length - a.reasons.mutualFriends.length ||
+      overlap(b.user, b.reasons) - overlap(a.user, a.reasons)
+    )
+    .slice(0, SUGGESTION_LIMIT);
+}
+
+/**
+ * Explains a suggestion in words, one sentence per reason.
+ */
+function explainSuggestion(
+  { sharedCountries }: SuggestionReasons,
+  mutualFriendUsernames: string[],
+): string[] {
+  const explanation = [];
+  if (mutualFriendUsernames.length > 0) {
+    const count = mutualFriendUsernames.length;
+    explanation.push(
+      `${count} mutual friend${count === 1 ? "" : "s"}: ${
+        mutualFriendUsernames.join(", ")
+      }`,
+    );
+  }
+  if (sharedCountries.length > 0) {
+    explanation.push(`Also visited ${sharedCountries.join(", ")}`);
+  }
+  return explanation;
+}
 
 export const FriendingRequestFriendRequest: Sync = (
   { session, userId, friendUsername, friendUserId, request },
@@ -60,6 +159,69 @@ export const FriendingRequestFriendResponseError: Sync = (
   ),
 });
 
+export const FriendingRequestFriendWithMessageRequest: Sync = (
+  { session, userId, friendUsername, friendUserId, message, request },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Friending/requestFriendWithMessage",
+      session,
+      friend: friendUsername,
+      message,
+    }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, {
+      user: userId,
+    });
+
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: friendUsername,
+    }, { user: friendUserId });
+
+    if (frames.length === 0) {
+      throw new Error("Friend not found. Cannot send friend request.");
+    }
+
+    return frames;
+  },
+  then: actions(
+    [Friending.requestFriend, {
+      user: userId,
+      friend: friendUserId,
+      message,
+    }, {}],
+  ),
+});
+
+export const FriendingRequestFriendWithMessageResponse: Sync = (
+  { request },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/requestFriendWithMessage" }, {
+      request,
+    }],
+    [Friending.requestFriend, {}, {}],
+  ),
+  then: actions(
+    [Requesting.respond, { request }],
+  ),
+});
+
+export const FriendingRequestFriendWithMessageResponseError: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/requestFriendWithMessage" }, {
+      request,
+    }],
+    [Friending.requestFriend, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
 export const FriendingUnrequestFriendRequest: Sync = (
   { session, user, friendUsername, friendId, request },
 ) => ({
@@ -249,7 +411,7 @@ export const EndFriendshipResponseError: Sync = (
 });
 
 export const GetFriendsRequest: Sync = (
-  { request, session, user, friendId, username, results },
+  { request, session, user, friendId, username, profile, results },
 ) => ({
   when: actions([
     Requesting.request,
@@ -281,13 +443,30 @@ export const GetFriendsRequest: Sync = (
       },
     );
 
-    return frames.collectAs([friendId, username], results);
+    // friends see each other's friends-only fields
+    frames = await frames.query(Profile._getProfile, {
+      user: friendId,
+      visibility: ["friends", "public"],
+    }, { profile });
+
+    return frames.collectAs([friendId, username, profile], results);
   },
   then: actions([Requesting.respond, { request, results }]),
 });
 
 export const GetOutgoingFriendsRequest: Sync = (
-  { request, session, user, friendId, username, results },
+  {
+    request,
+    session,
+    user,
+    friendId,
+    message,
+    createdAt,
+    expiresAt,
+    username,
+    profile,
+    results,
+  },
 ) => ({
   when: actions([
     Requesting.request,
@@ -305,6 +484,9 @@ export const GetOutgoingFriendsRequest: Sync = (
 
     frames = await frames.query(Friending._getOutgoingRequests, { user }, {
       friendId,
+      message,
+      createdAt,
+      expiresAt,
     });
 
     if (frames.length === 0) {
@@ -319,13 +501,32 @@ export const GetOutgoingFriendsRequest: Sync = (
       },
     );
 
-    return frames.collectAs([friendId, username], results);
+    frames = await frames.query(Profile._getProfile, {
+      user: friendId,
+      visibility: ["public"],
+    }, { profile });
+
+    return frames.collectAs(
+      [friendId, username, profile, message, createdAt, expiresAt],
+      results,
+    );
   },
   then: actions([Requesting.respond, { request, results }]),
 });
 
 export const GetIncomingFriendsRequest: Sync = (
-  { request, session, user, friendId, username, results },
+  {
+    request,
+    session,
+    user,
+    friendId,
+    message,
+    createdAt,
+    expiresAt,
+    username,
+    profile,
+    results,
+  },
 ) => ({
   when: actions([
     Requesting.request,
@@ -346,6 +547,9 @@ export const GetIncomingFriendsRequest: Sync = (
 
     frames = await frames.query(Friending._getIncomingRequests, { user }, {
       friendId,
+      message,
+      createdAt,
+      expiresAt,
     });
 
     if (frames.length === 0) {
@@ -360,7 +564,232 @@ export const GetIncomingFriendsRequest: Sync = (
       },
     );
 
-    return frames.collectAs([friendId, username], results);
+    frames = await frames.query(Profile._getProfile, {
+      user: friendId,
+      visibility: ["public"],
+    }, { profile });
+
+    return frames.collectAs(
+      [friendId, username, profile, message, createdAt, expiresAt],
+      results,
+    );
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+//-- Blocking --//
+// blocking ends any friendship and friend requests between the users, and stops new requests
+export const BlockRequest: Sync = (
+  { session, user, targetUsername, targetId, request },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Friending/block",
+      session,
+      target: targetUsername,
+    }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: targetId });
+
+    return frames;
+  },
+  then: actions(
+    [Friending.block, { user, target: targetId }, {}],
+  ),
+});
+
+export const BlockResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/block" }, { request }],
+    [Friending.block, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, status: "blocked" }],
+  ),
+});
+
+export const BlockResponseError: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/block" }, { request }],
+    [Friending.block, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const UnblockRequest: Sync = (
+  { session, user, targetUsername, targetId, request },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Friending/unblock",
+      session,
+      target: targetUsername,
+    }, { request }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: targetUsername,
+    }, { user: targetId });
+
+    return frames;
+  },
+  then: actions(
+    [Friending.unblock, { user, target: targetId }, {}],
+  ),
+});
+
+export const UnblockResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/unblock" }, { request }],
+    [Friending.unblock, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, status: "unblocked" }],
+  ),
+});
+
+export const UnblockResponseError: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Friending/unblock" }, { request }],
+    [Friending.unblock, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const GetBlockedRequest: Sync = (
+  { request, session, user, blockedId, username, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Friending/_getBlocked", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Friending._getBlocked, { user }, {
+      blockedId,
+    });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(
+      UserAuthentication._getUsernameByUser,
+      { user: blockedId },
+      { username },
+    );
+
+    return frames.collectAs([blockedId, username], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+// searching usernames hides users who have blocked the searcher
+export const GetUsernamesRequest: Sync = (
+  { request, session, user, username, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/UserAuthentication/_getUsernames", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    const hidden = new Set<string>();
+    const blockers = await Friending._getBlockers({
+      user: frames[0][user] as ID,
+    });
+    for (const { blockerId } of blockers) {
+      const [{ username: blocker }] = await UserAuthentication
+        ._getUsernameByUser({ user: blockerId });
+      hidden.add(blocker);
+    }
+
+    frames = await frames.query(UserAuthentication._getUsernames, {}, {
+      username,
+    });
+    frames = frames.filter(($) => !hidden.has($[username] as string));
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    return frames.collectAs([username], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+//-- Friend Suggestions --//
+export const GetSuggestionsRequest: Sync = (
+  { request, session, user, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Friending/_getSuggestions", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    const suggestions = [];
+    const suggested = await suggestFriends(frames[0][user] as ID);
+    for (const { user: friendId, reasons } of suggested) {
+      const [{ username }] = await UserAuthentication._getUsernameByUser({
+        user: friendId,
+      });
+      const mutualFriends = [];
+      for (const friend of reasons.mutualFriends) {
+        const [{ username: friendUsername }] = await UserAuthentication
+          ._getUsernameByUser({ user: friend });
+        mutualFriends.push(friendUsername);
+      }
+      // suggested users aren't friends, so only their public profile fields are shown
+      const [{ profile }] = await Profile._getProfile({
+        user: friendId,
+        visibility: ["public"],
+      });
+      suggestions.push({
+        friendId,
+        username,
+        profile,
+        mutualFriends,
+        sharedCountries: reasons.sharedCountries,
+        explanation: explainSuggestion(reasons, mutualFriends),
+      });
+    }
+
+    return new Frames({ ...frames[0], [results]: suggestions });
   },
   then: actions([Requesting.respond, { request, results }]),
 });
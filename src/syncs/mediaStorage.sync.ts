@@ -0,0 +1,262 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Friending,
+  MediaStorage,
+  Posting,
+  Profile,
+  Requesting,
+  Sessioning,
+} from "@concepts";
+import { MediaDoc } from "@concepts/MediaStorage/MediaStorageConcept.ts";
+import { ID } from "@utils/types.ts";
+import { canViewPost, viewerOf } from "./visibility.ts";
+
+export const UploadMediaRequest: Sync = (
+  { request, session, user, file },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MediaStorage/upload", session, file },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions([MediaStorage.upload, { owner: user, file }]),
+});
+
+export const UploadMediaResponse: Sync = ({ request, media }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MediaStorage/upload" }, { request }],
+    [MediaStorage.upload, {}, { media }],
+  ),
+  then: actions([Requesting.respond, { request, media }]),
+});
+
+export const UploadMediaResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MediaStorage/upload" }, { request }],
+    [MediaStorage.upload, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const DeleteMediaRequest: Sync = (
+  { request, session, user, media },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MediaStorage/delete", session, media },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions([MediaStorage.delete, { owner: user, media }]),
+});
+
+export const DeleteMediaResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MediaStorage/delete" }, { request }],
+    [MediaStorage.delete, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const DeleteMediaResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/MediaStorage/delete" }, { request }],
+    [MediaStorage.delete, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// Deleted media shouldn't linger in the galleries of the owner's posts
+export const DeleteMediaDetachesFromPosts: Sync = ({ owner, media, post }) => ({
+  when: actions([MediaStorage.delete, { owner, media }, {}]),
+  where: async (frames) => {
+    return await frames.query(Posting._getPostsWithMedia, { media }, { post });
+  },
+  then: actions([Posting.detachMedia, { user: owner, post, media }]),
+});
+
+/**
+ * Determines whether the media is the avatar of a user whose avatar the viewer may see:
+ * their avatar field is public, or friends-only and the viewer is their friend.
+ * A null viewer is anonymous, who may only see public avatars.
+ */
+async function isVisibleAvatar(media: ID, viewer: ID | null): Promise<boolean> {
+  for (const { user } of await Profile._getUsersWithAvatar({ avatar: media })) {
+    const [{ fieldVisibility }] = await Profile._getFieldVisibility({ user });
+    if (fieldVisibility.avatar === "public") {
+      return true;
+    }
+    if (fieldVisibility.avatar === "friends" && viewer !== null) {
+      const [{ friendshipExists }] = await Friending._isFriendsWith({
+        user: viewer,
+        friend: user,
+      });
+      if (friendshipExists) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Determines, for each frame, whether the user may view the media: either they
+ * own it, it's an avatar they may see, or it's in the gallery of a post they may
+ * view, so media is only as visible as the profiles and posts it's shown on.
+ */
+async function canViewMedia(
+  frames: Frames,
+  {
+    user,
+    media,
+    mediaData,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView,
+  }: {
+    user: symbol;
+    media: symbol;
+    mediaData: symbol;
+    post: symbol;
+    postData: symbol;
+    creator: symbol;
+    friendshipBoolean: symbol;
+    canView: symbol;
+  },
+): Promise<Frames> {
+  return new Frames(
+    ...await Promise.all(frames.map(async ($) => {
+      if (($[mediaData] as MediaDoc).owner === $[user]) {
+        return { ...$, [canView]: true };
+      }
+      if (await isVisibleAvatar($[media] as ID, $[user] as ID | null)) {
+        return { ...$, [canView]: true };
+      }
+      let postFrames: Frames = await new Frames($).query(
+        Posting._getPostsWithMedia,
+        { media },
+        { post },
+      );
+      postFrames = await postFrames.query(Posting._getPostById, {
+        _id: post,
+      }, { postData });
+      postFrames = await canViewPost(postFrames, {
+        user,
+        postData,
+        creator,
+        friendshipBoolean,
+        canView,
+      });
+      return {
+        ...$,
+        [canView]: postFrames.some((postFrame) => postFrame[canView] === true),
+      };
+    })),
+  );
+}
+
+// media on public posts and public avatars can be viewed without a session
+export const GetMediaContentRequest: Sync = (
+  {
+    request,
+    input,
+    session,
+    user,
+    media,
+    mediaData,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView,
+    content,
+    contentType,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MediaStorage/_getContent", media },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await viewerOf(frames, { request, input, session, user });
+    frames = await frames.query(MediaStorage._getMediaById, { _id: media }, {
+      mediaData,
+    });
+    frames = await canViewMedia(frames, {
+      user,
+      media,
+      mediaData,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      canView,
+    });
+    frames = frames.filter(($) => $[canView] === true);
+    return await frames.query(MediaStorage._getContent, { media }, {
+      content,
+      contentType,
+    });
+  },
+  then: actions([Requesting.respond, { request, content, contentType }]),
+});
+
+export const GetMediaContentDenied: Sync = (
+  {
+    request,
+    input,
+    session,
+    user,
+    media,
+    mediaData,
+    post,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/MediaStorage/_getContent", media },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await viewerOf(frames, { request, input, session, user });
+    const userFrames = frames;
+
+    // respond the same way whether the media is missing or hidden
+    frames = await frames.query(MediaStorage._getMediaById, { _id: media }, {
+      mediaData,
+    });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+
+    frames = await canViewMedia(frames, {
+      user,
+      media,
+      mediaData,
+      post,
+      postData,
+      creator,
+      friendshipBoolean,
+      canView,
+    });
+    return frames.filter(($) => $[canView] !== true);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "Media not found." },
+  ]),
+});
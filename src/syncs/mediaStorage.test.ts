@@ -0,0 +1,95 @@
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { Logging } from "@engine";
+import { testDb } from "@utils/database.ts";
+import { ID } from "@utils/types.ts";
+
+const userA = "user:Alice" as ID;
+const userB = "user:Bob" as ID;
+const userC = "user:Charlie" as ID;
+
+const png = {
+  filename: "avatar.png",
+  contentType: "image/png",
+  data: new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+};
+
+/**
+ * Test Case 1
+ * Demonstrates that an avatar can be loaded by whoever may see the avatar field of its profile,
+ * even though it isn't attached to any post.
+ */
+Deno.test("Test Case 1 - avatars can be loaded by whoever may see them", async () => {
+  // run the app's concepts and syncs against the freshly cleared test database
+  const [db, testClient] = await testDb();
+  Deno.env.set("DB_NAME", db.databaseName);
+  const concepts = await import("@concepts");
+  const { default: syncs } = await import("@syncs");
+  const {
+    Engine,
+    Friending,
+    MediaStorage,
+    Profile,
+    Requesting,
+    Sessioning,
+    client,
+  } = concepts;
+  Engine.logging = Logging.OFF;
+  Engine.register(syncs);
+
+  const getContent = async (input: { media: ID; session?: ID }) => {
+    const { request } = await Requesting.request({
+      path: "/MediaStorage/_getContent",
+      ...input,
+    });
+    const [{ response }] = await Requesting._awaitResponse({ request });
+    return response as { content?: string; error?: string };
+  };
+
+  try {
+    // 1. Alice uploads an avatar and is friends with Bob, but not with Charlie
+    const uploaded = await MediaStorage.upload({ owner: userA, file: png });
+    if ("error" in uploaded) {
+      throw new Error(uploaded.error);
+    }
+    const { media } = uploaded;
+    await Profile.setAvatar({ user: userA, avatar: media });
+    await Friending.requestFriend({ user: userA, friend: userB });
+    await Friending.acceptFriend({ user: userB, friend: userA });
+    const { session: sessionB } = await Sessioning.create({ user: userB });
+    const { session: sessionC } = await Sessioning.create({ user: userC });
+
+    // 2. a public avatar can be loaded by anyone, even without a session
+    await Profile.setFieldVisibility({
+      user: userA,
+      field: "avatar",
+      visibility: "public",
+    });
+    assertExists((await getContent({ media })).content);
+    assertExists((await getContent({ media, session: sessionC })).content);
+
+    // 3. a friends-only avatar can only be loaded by friends
+    await Profile.setFieldVisibility({
+      user: userA,
+      field: "avatar",
+      visibility: "friends",
+    });
+    assertExists((await getContent({ media, session: sessionB })).content);
+    assertEquals(
+      (await getContent({ media, session: sessionC })).error,
+      "Media not found.",
+    );
+    assertEquals((await getContent({ media })).error, "Media not found.");
+
+    // 4. once it's no longer an avatar, it's hidden like any unattached media
+    await Profile.clearAvatar({ user: userA });
+    assertEquals(
+      (await getContent({ media, session: sessionB })).error,
+      "Media not found.",
+    );
+
+    await MediaStorage.delete({ owner: userA, media });
+  } finally {
+    await client.close();
+    await testClient.close();
+  }
+});
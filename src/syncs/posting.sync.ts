@@ -1,11 +1,18 @@
 import { actions, Frames, Sync } from "@engine";
 import {
+  Circles,
   Friending,
+  Gazetteer,
+  MediaStorage,
   Posting,
+  Reacting,
   Requesting,
   Sessioning,
   UserAuthentication,
 } from "@concepts";
+import { MediaDoc } from "@concepts/MediaStorage/MediaStorageConcept.ts";
+import { PostDoc } from "@concepts/Posting/PostingConcept.ts";
+import { canViewPost, viewerOf, visibleTo } from "./visibility.ts";
 
 export const CreatePostRequest: Sync = (
   {
@@ -19,6 +26,9 @@ export const CreatePostRequest: Sync = (
     start,
     end,
     description,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
   },
 ) => ({
   when: actions([
@@ -36,91 +46,732 @@ export const CreatePostRequest: Sync = (
     },
     { request },
   ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
+  },
+  then: actions([Posting.create, {
+    creator: user,
+    title,
+    city: canonicalCity,
+    region: canonicalRegion,
+    country: canonicalCountry,
+    start,
+    end,
+    description,
+  }]),
+});
+
+export const CreatePostResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/create" }, { request }],
+    [Posting.create, {}, { post }],
+  ),
+  then: actions([Requesting.respond, { request, post }]),
+});
+
+export const CreatePostResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/create" }, { request }],
+    [Posting.create, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const CreatePostWithStatusRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    title,
+    city,
+    region,
+    country,
+    start,
+    end,
+    description,
+    status,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    {
+      path: "/Posting/createWithStatus",
+      session,
+      title,
+      city,
+      region,
+      country,
+      start,
+      end,
+      description,
+      status,
+    },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
+  },
+  then: actions([Posting.create, {
+    creator: user,
+    title,
+    city: canonicalCity,
+    region: canonicalRegion,
+    country: canonicalCountry,
+    start,
+    end,
+    description,
+    status,
+  }]),
+});
+
+export const CreatePostWithStatusResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/createWithStatus" }, { request }],
+    [Posting.create, {}, { post }],
+  ),
+  then: actions([Requesting.respond, { request, post }]),
+});
+
+export const CreatePostWithStatusResponseError: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/createWithStatus" }, { request }],
+    [Posting.create, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const EditPostTitleRequest: Sync = (
+  { request, session, user, post, title },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/editTitle",
+      session,
+      post,
+      title,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.editTitle, { user, post, title }, {}],
+  ),
+});
+
+export const EditPostTitleResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editTitle" }, { request }],
+    [Posting.editTitle, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const EditPostTitleResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editTitle" }, { request }],
+    [Posting.editTitle, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const EditPostPlaceRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    city,
+    region,
+    country,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
+  },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/editPlace",
+      session,
+      post,
+      city,
+      region,
+      country,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
+  },
+  then: actions(
+    [Posting.editPlace, {
+      user,
+      post,
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    }, {}],
+  ),
+});
+
+export const EditPostPlaceResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editPlace" }, { request }],
+    [Posting.editPlace, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const EditPostPlaceResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editPlace" }, { request }],
+    [Posting.editPlace, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const EditPostEditDates: Sync = (
+  { request, session, user, post, start, end },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/editDates",
+      session,
+      post,
+      start,
+      end,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.editDates, { user, post, start, end }, {}],
+  ),
+});
+
+export const EditPostDatesResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editDates" }, { request }],
+    [Posting.editDates, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const EditPostDatesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editDates" }, { request }],
+    [Posting.editDates, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const EditPostDescriptionRequest: Sync = (
+  { request, session, user, post, description },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/editDescription",
+      session,
+      post,
+      description,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.editDescription, { user, post, description }, {}],
+  ),
+});
+
+export const EditPostDescriptionResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editDescription" }, { request }],
+    [Posting.editDescription, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const EditPostDescriptionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editDescription" }, { request }],
+    [Posting.editDescription, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const AddPostStopRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    city,
+    region,
+    country,
+    start,
+    end,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
+  },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/addStop",
+      session,
+      post,
+      city,
+      region,
+      country,
+      start,
+      end,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
+  },
+  then: actions(
+    [Posting.addStop, {
+      user,
+      post,
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+      start,
+      end,
+    }, {}],
+  ),
+});
+
+export const AddPostStopResponse: Sync = ({ request, stop }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/addStop" }, { request }],
+    [Posting.addStop, {}, { stop }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, stop }],
+  ),
+});
+
+export const AddPostStopResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/addStop" }, { request }],
+    [Posting.addStop, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const EditPostStopRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    post,
+    stop,
+    city,
+    region,
+    country,
+    start,
+    end,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
+  },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/editStop",
+      session,
+      post,
+      stop,
+      city,
+      region,
+      country,
+      start,
+      end,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
+  },
+  then: actions(
+    [
+      Posting.editStop,
+      {
+        user,
+        post,
+        stop,
+        city: canonicalCity,
+        region: canonicalRegion,
+        country: canonicalCountry,
+        start,
+        end,
+      },
+      {},
+    ],
+  ),
+});
+
+export const EditPostStopResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editStop" }, { request }],
+    [Posting.editStop, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const EditPostStopResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/editStop" }, { request }],
+    [Posting.editStop, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const RemovePostStopRequest: Sync = (
+  { request, session, user, post, stop },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/removeStop",
+      session,
+      post,
+      stop,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.removeStop, { user, post, stop }, {}],
+  ),
+});
+
+export const RemovePostStopResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/removeStop" }, { request }],
+    [Posting.removeStop, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const RemovePostStopResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/removeStop" }, { request }],
+    [Posting.removeStop, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const ReorderPostStopsRequest: Sync = (
+  { request, session, user, post, order },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/reorderStops",
+      session,
+      post,
+      order,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.reorderStops, { user, post, order }, {}],
+  ),
+});
+
+export const ReorderPostStopsResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/reorderStops" }, { request }],
+    [Posting.reorderStops, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const ReorderPostStopsResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/reorderStops" }, { request }],
+    [Posting.reorderStops, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const SetPostVisibilityRequest: Sync = (
+  { request, session, user, post, visibility },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/setVisibility",
+      session,
+      post,
+      visibility,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Posting.setVisibility, { user, post, visibility }, {}],
+  ),
+});
+
+export const SetPostVisibilityResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/setVisibility" }, { request }],
+    [Posting.setVisibility, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
+  ),
+});
+
+export const SetPostVisibilityResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/setVisibility" }, { request }],
+    [Posting.setVisibility, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const SetPostStatusRequest: Sync = (
+  { request, session, user, post, status },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Posting/setStatus",
+      session,
+      post,
+      status,
+    }, {
+      request,
+    }],
+  ),
   where: async (frames) => {
     frames = await frames.query(Sessioning._getUser, { session }, { user });
     return frames;
   },
-  then: actions([Posting.create, {
-    creator: user,
-    title,
-    city,
-    region,
-    country,
-    start,
-    end,
-    description,
-  }]),
+  then: actions(
+    [Posting.setStatus, { user, post, status }, {}],
+  ),
 });
 
-export const CreatePostResponse: Sync = ({ request, post }) => ({
+export const SetPostStatusResponse: Sync = ({ request, post }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/create" }, { request }],
-    [Posting.create, {}, { post }],
+    [Requesting.request, { path: "/Posting/setStatus" }, { request }],
+    [Posting.setStatus, {}, { post }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, post }],
   ),
-  then: actions([Requesting.respond, { request, post }]),
 });
 
-export const CreatePostResponseError: Sync = ({ request, error }) => ({
+export const SetPostStatusResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/create" }, { request }],
-    [Posting.create, {}, { error }],
+    [Requesting.request, { path: "/Posting/setStatus" }, { request }],
+    [Posting.setStatus, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
   ),
-  then: actions([Requesting.respond, { request, error }]),
 });
 
-export const EditPostTitleRequest: Sync = (
-  { request, session, user, post, title },
+export const AttachPostMediaRequest: Sync = (
+  { request, session, user, post, media, mediaData },
 ) => ({
   when: actions(
     [Requesting.request, {
-      path: "/Posting/editTitle",
+      path: "/Posting/attachMedia",
       session,
       post,
-      title,
+      media,
     }, {
       request,
     }],
   ),
   where: async (frames) => {
     frames = await frames.query(Sessioning._getUser, { session }, { user });
-    return frames;
+    frames = await frames.query(MediaStorage._getMediaById, { _id: media }, {
+      mediaData,
+    });
+    // only media uploaded by the user can be attached to their posts
+    return frames.filter(($) => ($[mediaData] as MediaDoc).owner === $[user]);
   },
   then: actions(
-    [Posting.editTitle, { user, post, title }, {}],
+    [Posting.attachMedia, { user, post, media }, {}],
   ),
 });
 
-export const EditPostTitleResponse: Sync = ({ request, post }) => ({
+export const AttachPostMediaNotOwned: Sync = (
+  { request, session, user, media, mediaData, error },
+) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editTitle" }, { request }],
-    [Posting.editTitle, {}, { post }],
+    [Requesting.request, {
+      path: "/Posting/attachMedia",
+      session,
+      media,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    const userFrames = await frames.query(Sessioning._getUser, { session }, {
+      user,
+    });
+    frames = await userFrames.query(MediaStorage._getMediaById, {
+      _id: media,
+    }, {
+      mediaData,
+    });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [error]: "Media not found." }));
+    }
+    return frames
+      .filter(($) => ($[mediaData] as MediaDoc).owner !== $[user])
+      .map(($) => ({ ...$, [error]: "Cannot attach another user's media." }));
+  },
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const AttachPostMediaResponse: Sync = ({ request, post }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Posting/attachMedia" }, { request }],
+    [Posting.attachMedia, {}, { post }],
   ),
   then: actions(
     [Requesting.respond, { request, post }],
   ),
 });
 
-export const EditPostTitleResponseError: Sync = ({ request, error }) => ({
+export const AttachPostMediaResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editTitle" }, { request }],
-    [Posting.editTitle, {}, { error }],
+    [Requesting.request, { path: "/Posting/attachMedia" }, { request }],
+    [Posting.attachMedia, {}, { error }],
   ),
   then: actions(
     [Requesting.respond, { request, error }],
   ),
 });
 
-export const EditPostPlaceRequest: Sync = (
-  { request, session, user, post, city, region, country },
+export const ReorderPostMediaRequest: Sync = (
+  { request, session, user, post, order },
 ) => ({
   when: actions(
     [Requesting.request, {
-      path: "/Posting/editPlace",
+      path: "/Posting/reorderMedia",
       session,
       post,
-      city,
-      region,
-      country,
+      order,
     }, {
       request,
     }],
@@ -130,40 +781,40 @@ export const EditPostPlaceRequest: Sync = (
     return frames;
   },
   then: actions(
-    [Posting.editPlace, { user, post, city, region, country }, {}],
+    [Posting.reorderMedia, { user, post, order }, {}],
   ),
 });
 
-export const EditPostPlaceResponse: Sync = ({ request, post }) => ({
+export const ReorderPostMediaResponse: Sync = ({ request, post }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editPlace" }, { request }],
-    [Posting.editPlace, {}, { post }],
+    [Requesting.request, { path: "/Posting/reorderMedia" }, { request }],
+    [Posting.reorderMedia, {}, { post }],
   ),
   then: actions(
     [Requesting.respond, { request, post }],
   ),
 });
 
-export const EditPostPlaceResponseError: Sync = ({ request, error }) => ({
+export const ReorderPostMediaResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editPlace" }, { request }],
-    [Posting.editPlace, {}, { error }],
+    [Requesting.request, { path: "/Posting/reorderMedia" }, { request }],
+    [Posting.reorderMedia, {}, { error }],
   ),
   then: actions(
     [Requesting.respond, { request, error }],
   ),
 });
 
-export const EditPostEditDates: Sync = (
-  { request, session, user, post, start, end },
+export const CaptionPostMediaRequest: Sync = (
+  { request, session, user, post, media, caption },
 ) => ({
   when: actions(
     [Requesting.request, {
-      path: "/Posting/editDates",
+      path: "/Posting/captionMedia",
       session,
       post,
-      start,
-      end,
+      media,
+      caption,
     }, {
       request,
     }],
@@ -173,39 +824,39 @@ export const EditPostEditDates: Sync = (
     return frames;
   },
   then: actions(
-    [Posting.editDates, { user, post, start, end }, {}],
+    [Posting.captionMedia, { user, post, media, caption }, {}],
   ),
 });
 
-export const EditPostDatesResponse: Sync = ({ request, post }) => ({
+export const CaptionPostMediaResponse: Sync = ({ request, post }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editDates" }, { request }],
-    [Posting.editDates, {}, { post }],
+    [Requesting.request, { path: "/Posting/captionMedia" }, { request }],
+    [Posting.captionMedia, {}, { post }],
   ),
   then: actions(
     [Requesting.respond, { request, post }],
   ),
 });
 
-export const EditPostDatesResponseError: Sync = ({ request, error }) => ({
+export const CaptionPostMediaResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editDates" }, { request }],
-    [Posting.editDates, {}, { error }],
+    [Requesting.request, { path: "/Posting/captionMedia" }, { request }],
+    [Posting.captionMedia, {}, { error }],
   ),
   then: actions(
     [Requesting.respond, { request, error }],
   ),
 });
 
-export const EditPostDescriptionRequest: Sync = (
-  { request, session, user, post, description },
+export const DetachPostMediaRequest: Sync = (
+  { request, session, user, post, media },
 ) => ({
   when: actions(
     [Requesting.request, {
-      path: "/Posting/editDescription",
+      path: "/Posting/detachMedia",
       session,
       post,
-      description,
+      media,
     }, {
       request,
     }],
@@ -215,24 +866,24 @@ export const EditPostDescriptionRequest: Sync = (
     return frames;
   },
   then: actions(
-    [Posting.editDescription, { user, post, description }, {}],
+    [Posting.detachMedia, { user, post, media }, {}],
   ),
 });
 
-export const EditPostDescriptionResponse: Sync = ({ request, post }) => ({
+export const DetachPostMediaResponse: Sync = ({ request, post }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editDescription" }, { request }],
-    [Posting.editDescription, {}, { post }],
+    [Requesting.request, { path: "/Posting/detachMedia" }, { request }],
+    [Posting.detachMedia, {}, { post }],
   ),
   then: actions(
     [Requesting.respond, { request, post }],
   ),
 });
 
-export const EditPostDescriptionResponseError: Sync = ({ request, error }) => ({
+export const DetachPostMediaResponseError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Posting/editDescription" }, { request }],
-    [Posting.editDescription, {}, { error }],
+    [Requesting.request, { path: "/Posting/detachMedia" }, { request }],
+    [Posting.detachMedia, {}, { error }],
   ),
   then: actions(
     [Requesting.respond, { request, error }],
@@ -283,7 +934,7 @@ export const DeletePostResponseError: Sync = ({ request, error }) => ({
 });
 
 export const GetPostsRequest: Sync = (
-  { request, session, user, post, postData, results },
+  { request, session, user, post, postData, reactionCounts, results },
 ) => ({
   when: actions([
     Requesting.request,
@@ -309,7 +960,39 @@ export const GetPostsRequest: Sync = (
       postData,
     });
 
+    // Get reaction counts for each post
+    frames = await frames.query(Reacting._getCounts, { target: post }, {
+      counts: reactionCounts,
+    });
+
     // Collect all postData into results array
+    return frames.collectAs([post, postData, reactionCounts], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+export const GetUpcomingPostsRequest: Sync = (
+  { request, session, user, post, postData, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getUpcomingPosts", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Posting._getUpcomingPosts, { user }, { post });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+
     return frames.collectAs([post, postData], results);
   },
   then: actions([Requesting.respond, { request, results }]),
@@ -323,8 +1006,11 @@ export const GetFriendPostsRequest: Sync = (
     friendUsername,
     friendUserId,
     friendshipBoolean,
+    visibility,
     post,
     postData,
+    shared,
+    reactionCounts,
     results,
   },
 ) => ({
@@ -342,7 +1028,7 @@ export const GetFriendPostsRequest: Sync = (
     }, { user: friendUserId });
     frames = await frames.query(
       Friending._isFriendsWith,
-      { user, username: friendUserId },
+      { user, friend: friendUserId },
       {
         friendshipExists: friendshipBoolean,
       },
@@ -352,7 +1038,15 @@ export const GetFriendPostsRequest: Sync = (
       return new Frames({ ...originalFrame, [results]: [] });
     }
 
-    frames = await frames.query(Posting._getPosts, { user: friendUserId }, {
+    // friends see friends-only and public posts; everyone else sees public posts
+    frames = frames.map(($) => ({
+      ...$,
+      [visibility]: visibleTo($[friendshipBoolean] === true),
+    }));
+    frames = await frames.query(Posting._getPostsWithVisibility, {
+      user: friendUserId,
+      visibility,
+    }, {
       post,
     });
 
@@ -364,7 +1058,297 @@ export const GetFriendPostsRequest: Sync = (
       postData,
     });
 
-    return frames.collectAs([post, postData], results);
+    // posts that aren't public may be shared with only some of the creator's circles
+    frames = await frames.query(Circles._isSharedWith, {
+      item: post,
+      viewer: user,
+    }, { shared });
+    frames = frames.filter(($) =>
+      ($[postData] as PostDoc).visibility === "public" || $[shared] === true
+    );
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(Reacting._getCounts, { target: post }, {
+      counts: reactionCounts,
+    });
+
+    return frames.collectAs([post, postData, reactionCounts], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+// public posts can be read without a session
+export const GetPostByIdRequest: Sync = (
+  {
+    request,
+    input,
+    session,
+    user,
+    _id,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView,
+    results,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getPostById", _id },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await viewerOf(frames, { request, input, session, user });
+    frames = await frames.query(Posting._getPostById, { _id }, { postData });
+    frames = await canViewPost(frames, {
+      user,
+      postData,
+      creator,
+      friendshipBoolean,
+      canView,
+    });
+    frames = frames.filter(($) => $[canView] === true);
+    return frames.collectAs([postData], results);
   },
   then: actions([Requesting.respond, { request, results }]),
 });
+
+export const GetPostByIdDenied: Sync = (
+  {
+    request,
+    input,
+    session,
+    user,
+    _id,
+    postData,
+    creator,
+    friendshipBoolean,
+    canView,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getPostById", _id },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await viewerOf(frames, { request, input, session, user });
+    const userFrames = frames;
+
+    // respond the same way whether the post is missing or hidden
+    frames = await frames.query(Posting._getPostById, { _id }, { postData });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+
+    frames = await canViewPost(frames, {
+      user,
+      postData,
+      creator,
+      friendshipBoolean,
+      canView,
+    });
+    return frames.filter(($) => $[canView] !== true);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "Post not found." },
+  ]),
+});
+
+/**
+ * Queries the travel statistics of each frame's creator over their posts
+ * with the frame's visibilities.
+ */
+async function travelStats(
+  frames: Frames,
+  {
+    creator,
+    visibility,
+    countries,
+    regions,
+    cities,
+    totalDays,
+    daysByYear,
+    longestTrip,
+    firstTrip,
+    mostRecentTrip,
+  }: {
+    creator: symbol;
+    visibility: symbol;
+    countries: symbol;
+    regions: symbol;
+    cities: symbol;
+    totalDays: symbol;
+    daysByYear: symbol;
+    longestTrip: symbol;
+    firstTrip: symbol;
+    mostRecentTrip: symbol;
+  },
+): Promise<Frames> {
+  frames = await frames.query(Posting._getPlacesVisited, {
+    user: creator,
+    visibility,
+  }, { countries, regions, cities });
+  frames = await frames.query(Posting._getDaysTravelled, {
+    user: creator,
+    visibility,
+  }, { totalDays, daysByYear });
+  return await frames.query(Posting._getTripHighlights, {
+    user: creator,
+    visibility,
+  }, { longestTrip, firstTrip, mostRecentTrip });
+}
+
+export const GetTravelStatsRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    visibility,
+    countries,
+    regions,
+    cities,
+    totalDays,
+    daysByYear,
+    longestTrip,
+    firstTrip,
+    mostRecentTrip,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getTravelStats", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+
+    // users' own statistics cover all of their posts
+    frames = frames.map(($) => ({
+      ...$,
+      [visibility]: ["private", "friends", "public"],
+    }));
+    return await travelStats(frames, {
+      creator: user,
+      visibility,
+      countries,
+      regions,
+      cities,
+      totalDays,
+      daysByYear,
+      longestTrip,
+      firstTrip,
+      mostRecentTrip,
+    });
+  },
+  then: actions([Requesting.respond, {
+    request,
+    countries,
+    regions,
+    cities,
+    totalDays,
+    daysByYear,
+    longestTrip,
+    firstTrip,
+    mostRecentTrip,
+  }]),
+});
+
+export const GetFriendTravelStatsRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    friendUsername,
+    friendUserId,
+    friendshipBoolean,
+    visibility,
+    countries,
+    regions,
+    cities,
+    totalDays,
+    daysByYear,
+    longestTrip,
+    firstTrip,
+    mostRecentTrip,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getFriendTravelStats", session, friendUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: friendUsername,
+    }, { user: friendUserId });
+    frames = await frames.query(Friending._isFriendsWith, {
+      user,
+      friend: friendUserId,
+    }, { friendshipExists: friendshipBoolean });
+    frames = frames.filter(($) => $[friendshipBoolean] === true);
+
+    // friends' statistics only cover the posts they let friends see
+    frames = frames.map(($) => ({ ...$, [visibility]: visibleTo(true) }));
+    return await travelStats(frames, {
+      creator: friendUserId,
+      visibility,
+      countries,
+      regions,
+      cities,
+      totalDays,
+      daysByYear,
+      longestTrip,
+      firstTrip,
+      mostRecentTrip,
+    });
+  },
+  then: actions([Requesting.respond, {
+    request,
+    countries,
+    regions,
+    cities,
+    totalDays,
+    daysByYear,
+    longestTrip,
+    firstTrip,
+    mostRecentTrip,
+  }]),
+});
+
+export const GetFriendTravelStatsDenied: Sync = (
+  { request, session, user, friendUsername, friendUserId, friendshipBoolean },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Posting/_getFriendTravelStats", session, friendUsername },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+
+    // respond the same way whether the user is missing or not a friend
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username: friendUsername,
+    }, { user: friendUserId });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+
+    frames = await frames.query(Friending._isFriendsWith, {
+      user,
+      friend: friendUserId,
+    }, { friendshipExists: friendshipBoolean });
+    return frames.filter(($) => $[friendshipBoolean] !== true);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "Only friends can view a user's travel statistics." },
+  ]),
+});
@@ -0,0 +1,490 @@
+import { actions, Sync } from "@engine";
+import {
+  Friending,
+  Gazetteer,
+  MediaStorage,
+  Profile,
+  Requesting,
+  Sessioning,
+  UserAuthentication,
+} from "@concepts";
+import { MediaDoc } from "@concepts/MediaStorage/MediaStorageConcept.ts";
+import { FieldVisibility } from "@concepts/Profile/ProfileConcept.ts";
+
+/**
+ * Profile fields a viewer can see: the user themselves and their friends see every field,
+ * everyone else sees public fields.
+ */
+function visibleTo(isSelf: boolean, isFriend: boolean): FieldVisibility[] {
+  return isSelf || isFriend ? ["friends", "public"] : ["public"];
+}
+
+//-- Display Name and Bio --//
+export const SetDisplayNameRequest: Sync = (
+  { request, session, user, displayName },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setDisplayName",
+      session,
+      displayName,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.setDisplayName, { user, displayName }, {}],
+  ),
+});
+
+export const SetDisplayNameResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setDisplayName" }, { request }],
+    [Profile.setDisplayName, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetDisplayNameResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setDisplayName" }, { request }],
+    [Profile.setDisplayName, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const SetBioRequest: Sync = (
+  { request, session, user, bio },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setBio",
+      session,
+      bio,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.setBio, { user, bio }, {}],
+  ),
+});
+
+export const SetBioResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setBio" }, { request }],
+    [Profile.setBio, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetBioResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setBio" }, { request }],
+    [Profile.setBio, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Avatar --//
+export const SetAvatarRequest: Sync = (
+  { request, session, user, avatar, mediaData },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setAvatar",
+      session,
+      avatar,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(MediaStorage._getMediaById, { _id: avatar }, {
+      mediaData,
+    });
+    // only media uploaded by the user can be their avatar
+    return frames.filter(($) => ($[mediaData] as MediaDoc).owner === $[user]);
+  },
+  then: actions(
+    [Profile.setAvatar, { user, avatar }, {}],
+  ),
+});
+
+export const SetAvatarNotOwned: Sync = (
+  { request, session, user, avatar, mediaData },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setAvatar",
+      session,
+      avatar,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    const userFrames = await frames.query(Sessioning._getUser, { session }, {
+      user,
+    });
+    frames = await userFrames.query(MediaStorage._getMediaById, {
+      _id: avatar,
+    }, {
+      mediaData,
+    });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+    return frames.filter(($) => ($[mediaData] as MediaDoc).owner !== $[user]);
+  },
+  then: actions(
+    [Requesting.respond, {
+      request,
+      error: "Avatar must be media you uploaded.",
+    }],
+  ),
+});
+
+export const SetAvatarResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setAvatar" }, { request }],
+    [Profile.setAvatar, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+// A deleted avatar shouldn't linger on the owner's profile
+export const DeleteMediaClearsAvatar: Sync = ({ media, user }) => ({
+  when: actions([MediaStorage.delete, { media }, {}]),
+  where: async (frames) => {
+    return await frames.query(Profile._getUsersWithAvatar, { avatar: media }, {
+      user,
+    });
+  },
+  then: actions([Profile.clearAvatar, { user }]),
+});
+
+export const ClearAvatarRequest: Sync = (
+  { request, session, user },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/clearAvatar",
+      session,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.clearAvatar, { user }, {}],
+  ),
+});
+
+export const ClearAvatarResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/clearAvatar" }, { request }],
+    [Profile.clearAvatar, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const ClearAvatarResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/clearAvatar" }, { request }],
+    [Profile.clearAvatar, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Home Base --//
+export const SetHomeBaseRequest: Sync = (
+  { request, session, user, city, country, canonicalCity, canonicalCountry },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setHomeBase",
+      session,
+      city,
+      country,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region: "",
+      country,
+    }, {
+      city: canonicalCity,
+      country: canonicalCountry,
+    });
+  },
+  then: actions(
+    [Profile.setHomeBase, {
+      user,
+      city: canonicalCity,
+      country: canonicalCountry,
+    }, {}],
+  ),
+});
+
+export const SetHomeBaseResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setHomeBase" }, { request }],
+    [Profile.setHomeBase, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetHomeBaseResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setHomeBase" }, { request }],
+    [Profile.setHomeBase, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const ClearHomeBaseRequest: Sync = (
+  { request, session, user },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/clearHomeBase",
+      session,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.clearHomeBase, { user }, {}],
+  ),
+});
+
+export const ClearHomeBaseResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/clearHomeBase" }, { request }],
+    [Profile.clearHomeBase, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const ClearHomeBaseResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/clearHomeBase" }, { request }],
+    [Profile.clearHomeBase, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Travel Styles and Visibility --//
+export const SetTravelStylesRequest: Sync = (
+  { request, session, user, travelStyles },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setTravelStyles",
+      session,
+      travelStyles,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.setTravelStyles, { user, travelStyles }, {}],
+  ),
+});
+
+export const SetTravelStylesResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setTravelStyles" }, { request }],
+    [Profile.setTravelStyles, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetTravelStylesResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setTravelStyles" }, { request }],
+    [Profile.setTravelStyles, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const SetFieldVisibilityRequest: Sync = (
+  { request, session, user, field, visibility },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/Profile/setFieldVisibility",
+      session,
+      field,
+      visibility,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [Profile.setFieldVisibility, { user, field, visibility }, {}],
+  ),
+});
+
+export const SetFieldVisibilityResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setFieldVisibility" }, { request }],
+    [Profile.setFieldVisibility, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetFieldVisibilityResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Profile/setFieldVisibility" }, { request }],
+    [Profile.setFieldVisibility, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Viewing Profiles --//
+export const GetMyProfileRequest: Sync = (
+  { request, session, user, profile, fieldVisibility },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Profile/_getMyProfile", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Profile._getProfile, {
+      user,
+      visibility: visibleTo(true, false),
+    }, { profile });
+    return await frames.query(Profile._getFieldVisibility, { user }, {
+      fieldVisibility,
+    });
+  },
+  then: actions([Requesting.respond, { request, profile, fieldVisibility }]),
+});
+
+export const GetProfileRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    username,
+    profileUser,
+    friendshipBoolean,
+    visibility,
+    profile,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Profile/_getProfile", session, username },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUserByUsername, {
+      username,
+    }, { user: profileUser });
+    frames = await frames.query(Friending._isFriendsWith, {
+      user,
+      friend: profileUser,
+    }, { friendshipExists: friendshipBoolean });
+    frames = frames.map(($) => ({
+      ...$,
+      [visibility]: visibleTo(
+        $[profileUser] === $[user],
+        $[friendshipBoolean] === true,
+      ),
+    }));
+    return await frames.query(Profile._getProfile, {
+      user: profileUser,
+      visibility,
+    }, { profile });
+  },
+  then: actions([Requesting.respond, { request, profile }]),
+});
+
+export const GetProfileUnknownUser: Sync = (
+  { request, session, user, username },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Profile/_getProfile", session, username },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const unknown = await Promise.all(
+      frames.map(async ($) =>
+        (await UserAuthentication._getUserByUsername({
+          username: $[username] as string,
+        })).length === 0
+      ),
+    );
+    return frames.filter((_, i) => unknown[i]);
+  },
+  then: actions([
+    Requesting.respond,
+    { request, error: "User not found." },
+  ]),
+});
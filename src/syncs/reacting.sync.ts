@@ -0,0 +1,337 @@
+import { actions, Frames, Sync } from "@engine";
+import {
+  Circles,
+  Friending,
+  Posting,
+  Reacting,
+  Requesting,
+  Sessioning,
+  Wishlist,
+} from "@concepts";
+import { PlaceDoc } from "@concepts/Wishlist/WishlistConcept.ts";
+import { ID } from "@utils/types.ts";
+import { canViewPost } from "./visibility.ts";
+
+const NOT_ALLOWED = "Only users who can see this can react to it.";
+
+/**
+ * Determines, for each frame, whether the session's user may react to the target
+ * (a post or a wishlist place) and see its reactions: for a post, the same users who
+ * may view it; for a wishlist place, its owner, and their friends it's shared with
+ * (with all friends, or a circle they're in). Frames whose target doesn't exist are dropped.
+ */
+async function canReact(
+  frames: Frames,
+  { user, target, targetData, owner, friendshipBoolean, allowed }: {
+    user: symbol;
+    target: symbol;
+    targetData: symbol;
+    owner: symbol;
+    friendshipBoolean: symbol;
+    allowed: symbol;
+  },
+): Promise<Frames> {
+  const posts = await canViewPost(
+    await frames.query(Posting._getPostById, { _id: target }, {
+      postData: targetData,
+    }),
+    {
+      user,
+      postData: targetData,
+      creator: owner,
+      friendshipBoolean,
+      canView: allowed,
+    },
+  );
+
+  let places: Frames = await frames.query(Wishlist._getPlaceById, {
+    _id: target,
+  }, {
+    placeData: targetData,
+  });
+  places = places.map(($) => ({
+    ...$,
+    [owner]: ($[targetData] as PlaceDoc).user,
+  }));
+  places = await places.query(Friending._isFriendsWith, {
+    user,
+    friend: owner,
+  }, { friendshipExists: friendshipBoolean });
+  places = new Frames(
+    ...await Promise.all(places.map(async ($) => {
+      // a wishlist place is shared with its owner's whole wishlist
+      const [{ shared }] = await Circles._isSharedWith({
+        item: $[owner] as ID,
+        viewer: $[user] as ID,
+      });
+      return {
+        ...$,
+        [allowed]: $[owner] === $[user] ||
+          ($[friendshipBoolean] === true && shared),
+      };
+    })),
+  );
+
+  return new Frames(...posts, ...places);
+}
+
+/**
+ * Builds a sync that responds with an error to requests on the given path
+ * whose target is missing or that the session's user may not react to.
+ */
+function reactionNotAllowed(path: string): Sync {
+  return (
+    {
+      request,
+      session,
+      user,
+      target,
+      targetData,
+      owner,
+      friendshipBoolean,
+      allowed,
+      error,
+    },
+  ) => ({
+    when: actions([
+      Requesting.request,
+      { path, session, target },
+      { request },
+    ]),
+    where: async (frames) => {
+      frames = await frames.query(Sessioning._getUser, { session }, { user });
+      const userFrames = frames;
+
+      frames = await canReact(frames, {
+        user,
+        target,
+        targetData,
+        owner,
+        friendshipBoolean,
+        allowed,
+      });
+      if (frames.length === 0) {
+        return userFrames.map(($) => ({ ...$, [error]: "Target not found." }));
+      }
+      return frames
+        .filter(($) => $[allowed] !== true)
+        .map(($) => ({ ...$, [error]: NOT_ALLOWED }));
+    },
+    then: actions([Requesting.respond, { request, error }]),
+  });
+}
+
+export const ReactRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    target,
+    reaction,
+    targetData,
+    owner,
+    friendshipBoolean,
+    allowed,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Reacting/react", session, target, reaction },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await canReact(frames, {
+      user,
+      target,
+      targetData,
+      owner,
+      friendshipBoolean,
+      allowed,
+    });
+    return frames.filter(($) => $[allowed] === true);
+  },
+  then: actions([Reacting.react, { user, target, reaction }]),
+});
+
+export const ReactNotAllowed = reactionNotAllowed("/Reacting/react");
+
+export const ReactResponse: Sync = ({ request, target }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/react" }, { request }],
+    [Reacting.react, {}, { target }],
+  ),
+  then: actions([Requesting.respond, { request, target }]),
+});
+
+export const ReactResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/react" }, { request }],
+    [Reacting.react, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const ChangeReactionRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    target,
+    reaction,
+    targetData,
+    owner,
+    friendshipBoolean,
+    allowed,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Reacting/changeReaction", session, target, reaction },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await canReact(frames, {
+      user,
+      target,
+      targetData,
+      owner,
+      friendshipBoolean,
+      allowed,
+    });
+    return frames.filter(($) => $[allowed] === true);
+  },
+  then: actions([Reacting.changeReaction, { user, target, reaction }]),
+});
+
+export const ChangeReactionNotAllowed = reactionNotAllowed(
+  "/Reacting/changeReaction",
+);
+
+export const ChangeReactionResponse: Sync = ({ request, target }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/changeReaction" }, { request }],
+    [Reacting.changeReaction, {}, { target }],
+  ),
+  then: actions([Requesting.respond, { request, target }]),
+});
+
+export const ChangeReactionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/changeReaction" }, { request }],
+    [Reacting.changeReaction, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const UnreactRequest: Sync = ({ request, session, user, target }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Reacting/unreact", session, target },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions([Reacting.unreact, { user, target }]),
+});
+
+export const UnreactResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/unreact" }, { request }],
+    [Reacting.unreact, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request }]),
+});
+
+export const UnreactResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Reacting/unreact" }, { request }],
+    [Reacting.unreact, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const GetReactionsRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    target,
+    targetData,
+    owner,
+    friendshipBoolean,
+    allowed,
+    counts,
+    reactor,
+    reaction,
+    reactors,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Reacting/_getReactions", session, target },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await canReact(frames, {
+      user,
+      target,
+      targetData,
+      owner,
+      friendshipBoolean,
+      allowed,
+    });
+    frames = frames.filter(($) => $[allowed] === true);
+    frames = await frames.query(Reacting._getCounts, { target }, { counts });
+    if (frames.length === 0) {
+      return frames;
+    }
+    const countedFrame = frames[0];
+
+    frames = await frames.query(Reacting._getReactors, { target }, {
+      user: reactor,
+      reaction,
+    });
+    if (frames.length === 0) {
+      return new Frames({ ...countedFrame, [reactors]: [] });
+    }
+    return frames.collectAs([reactor, reaction], reactors);
+  },
+  then: actions([Requesting.respond, { request, counts, reactors }]),
+});
+
+export const GetReactionsNotAllowed = reactionNotAllowed(
+  "/Reacting/_getReactions",
+);
+
+// Reactions shouldn't outlive the post they were left on
+export const DeletePostDeletesReactions: Sync = ({ user, post, postData }) => ({
+  when: actions([Posting.delete, { user, post }, {}]),
+  where: async (frames) => {
+    // only clean up once the post is actually gone
+    const remaining = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    return remaining.length > 0 ? new Frames() : frames;
+  },
+  then: actions([Reacting.deleteByTarget, { target: post }]),
+});
+
+// ...or the wishlist place they were left on
+export const RemovePlaceDeletesReactions: Sync = (
+  { user, place, placeData },
+) => ({
+  when: actions([Wishlist.removePlace, { user, place }, {}]),
+  where: async (frames) => {
+    // only clean up once the place is actually gone
+    const remaining = await frames.query(Wishlist._getPlaceById, {
+      _id: place,
+    }, { placeData });
+    return remaining.length > 0 ? new Frames() : frames;
+  },
+  then: actions([Reacting.deleteByTarget, { target: place }]),
+});
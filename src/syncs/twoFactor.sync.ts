@@ -0,0 +1,210 @@
+import { actions, Sync } from "@engine";
+import {
+  Requesting,
+  Sessioning,
+  TwoFactor,
+  UserAuthentication,
+} from "@concepts";
+
+//-- Enrollment --//
+// authenticator apps label the account with the user's username
+export const EnrollRequest: Sync = (
+  { request, session, user, username },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/TwoFactor/enroll",
+      session,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(UserAuthentication._getUsernameByUser, {
+      user,
+    }, { username });
+    return frames;
+  },
+  then: actions(
+    [TwoFactor.enroll, { user, accountName: username }, {}],
+  ),
+});
+
+export const EnrollResponse: Sync = ({ request, secret, uri }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/enroll" }, { request }],
+    [TwoFactor.enroll, {}, { secret, uri }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, secret, uri }],
+  ),
+});
+
+export const EnrollResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/enroll" }, { request }],
+    [TwoFactor.enroll, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+export const ConfirmRequest: Sync = (
+  { request, session, user, code },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/TwoFactor/confirm",
+      session,
+      code,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [TwoFactor.confirm, { user, code }, {}],
+  ),
+});
+
+export const ConfirmResponse: Sync = ({ request, recoveryCodes }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/confirm" }, { request }],
+    [TwoFactor.confirm, {}, { recoveryCodes }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, recoveryCodes }],
+  ),
+});
+
+export const ConfirmResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/confirm" }, { request }],
+    [TwoFactor.confirm, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Disabling --//
+export const DisableRequest: Sync = (
+  { request, session, user, code },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/TwoFactor/disable",
+      session,
+      code,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [TwoFactor.disable, { user, code }, {}],
+  ),
+});
+
+export const DisableResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/disable" }, { request }],
+    [TwoFactor.disable, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const DisableResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/disable" }, { request }],
+    [TwoFactor.disable, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Recovery Codes --//
+export const RegenerateRecoveryCodesRequest: Sync = (
+  { request, session, user, code },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/TwoFactor/regenerateRecoveryCodes",
+      session,
+      code,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [TwoFactor.regenerateRecoveryCodes, { user, code }, {}],
+  ),
+});
+
+export const RegenerateRecoveryCodesResponse: Sync = (
+  { request, recoveryCodes },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/regenerateRecoveryCodes" }, {
+      request,
+    }],
+    [TwoFactor.regenerateRecoveryCodes, {}, { recoveryCodes }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, recoveryCodes }],
+  ),
+});
+
+export const RegenerateRecoveryCodesResponseError: Sync = (
+  { request, error },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/TwoFactor/regenerateRecoveryCodes" }, {
+      request,
+    }],
+    [TwoFactor.regenerateRecoveryCodes, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Status --//
+export const GetStatusRequest: Sync = (
+  { request, session, user, enabled, recoveryCodesRemaining },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/TwoFactor/_getStatus",
+      session,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(TwoFactor._getStatus, { user }, {
+      enabled,
+      recoveryCodesRemaining,
+    });
+    return frames;
+  },
+  then: actions(
+    [Requesting.respond, { request, enabled, recoveryCodesRemaining }],
+  ),
+});
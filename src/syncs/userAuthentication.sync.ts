@@ -1,5 +1,87 @@
-import { actions, Sync } from "@engine";
-import { Requesting, Sessioning, UserAuthentication } from "@concepts";
+import { actions, Frames, Sync } from "@engine";
+import {
+  Outbox,
+  Requesting,
+  Sessioning,
+  Throttling,
+  TwoFactor,
+  UserAuthentication,
+} from "@concepts";
+import {
+  ClientInfo,
+  SessionInfo,
+} from "@concepts/Sessioning/SessioningConcept.ts";
+import * as crypto from "node:crypto";
+
+// Token that authorizes admin requests, such as unlocking a locked out username; unset disables them.
+const ADMIN_TOKEN = Deno.env.get("ADMIN_TOKEN") ?? "";
+
+/**
+ * Whether a request's admin token matches the configured one, compared in constant time.
+ */
+function isAdmin(adminToken: unknown): boolean {
+  const digest = (token: string) =>
+    crypto.createHash("sha256").update(token).digest();
+  return ADMIN_TOKEN !== "" &&
+    crypto.timingSafeEqual(
+      digest(String(adminToken ?? "")),
+      digest(ADMIN_TOKEN),
+    );
+}
+
+/**
+ * The Throttling keys failed logins are counted under: the username, and the client's address if known.
+ */
+function loginKeys(username: string, client?: ClientInfo): string[] {
+  const keys = [`username:${username}`];
+  if (client?.remoteAddress) {
+    keys.push(`address:${client.remoteAddress}`);
+  }
+  return keys;
+}
+
+/**
+ * The date a login is locked out until, if the username or the client's address is locked out.
+ * The same lockout applies whether or not the username exists, so it doesn't reveal which ones do.
+ * @returns the latest date any of the login's keys is locked out until, or null if none are
+ */
+async function loginLockedUntil(
+  username: string,
+  client?: ClientInfo,
+): Promise<Date | null> {
+  let lockedUntil: Date | null = null;
+  for (const key of loginKeys(username, client)) {
+    const [{ status }] = await Throttling._getStatus({ key });
+    if (
+      status.lockedUntil && (!lockedUntil || status.lockedUntil > lockedUntil)
+    ) {
+      lockedUntil = status.lockedUntil;
+    }
+  }
+  return lockedUntil;
+}
+
+/**
+ * Binds, for each frame, the date its login is locked out until (null if it isn't).
+ */
+async function withLoginLockedUntil(
+  frames: Frames,
+  { username, client, lockedUntil }: {
+    username: symbol;
+    client: symbol;
+    lockedUntil: symbol;
+  },
+): Promise<Frames> {
+  return new Frames(
+    ...await Promise.all(frames.map(async ($) => ({
+      ...$,
+      [lockedUntil]: await loginLockedUntil(
+        $[username] as string,
+        $[client] as ClientInfo | undefined,
+      ),
+    }))),
+  );
+}
 
 //-- User Registration --//
 export const RegisterRequest: Sync = ({ request, username, password }) => ({
@@ -21,36 +103,116 @@ export const RegisterResponseSuccess: Sync = ({ request, user }) => ({
   then: actions([Requesting.respond, { request, user }]),
 });
 
-export const RegisterResponseError: Sync = ({ request, error }) => ({
+export const RegisterResponseError: Sync = ({ request, error, code }) => ({
   when: actions(
     [Requesting.request, { path: "/UserAuthentication/register" }, {
       request,
     }],
-    [UserAuthentication.register, {}, { error }],
+    [UserAuthentication.register, {}, { error, code }],
   ),
-  then: actions([Requesting.respond, { request, error }]),
+  then: actions([Requesting.respond, { request, error, code }]),
 });
 
 //-- User Login & Session Creation --//
-export const LoginRequest: Sync = ({ request, username, password }) => ({
+export const LoginRequest: Sync = (
+  { request, username, password, client, lockedUntil },
+) => ({
   when: actions([Requesting.request, {
     path: "/UserAuthentication/authenticate",
     username,
     password,
+    client,
   }, {
     request,
   }]),
+  where: async (frames) => {
+    frames = await withLoginLockedUntil(frames, {
+      username,
+      client,
+      lockedUntil,
+    });
+    return frames.filter(($) => $[lockedUntil] === null);
+  },
   then: actions([UserAuthentication.authenticate, { username, password }]),
 });
 
-export const LoginSuccessCreatesSession: Sync = ({ username, user }) => ({
-  when: actions([UserAuthentication.authenticate, { username }, {}]),
+export const LoginLockedOut: Sync = (
+  { request, username, client, lockedUntil },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/authenticate",
+    username,
+    client,
+  }, {
+    request,
+  }]),
   where: async (frames) => {
-    return await frames.query(UserAuthentication._getUserByUsername, {
+    frames = await withLoginLockedUntil(frames, {
       username,
-    }, { user });
+      client,
+      lockedUntil,
+    });
+    return frames.filter(($) => $[lockedUntil] !== null);
   },
-  then: actions([Sessioning.create, { user }]),
+  then: actions([Requesting.respond, {
+    request,
+    error: "Too many failed login attempts. Try again later.",
+    lockedUntil,
+  }]),
+});
+
+// users with two-factor authentication only get a session once their second factor succeeds
+export const LoginSuccessCreatesSession: Sync = (
+  { user, client, enabled },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/authenticate",
+      client,
+    }, {}],
+    [UserAuthentication.authenticate, {}, { user }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(TwoFactor._getStatus, { user }, { enabled });
+    return frames.filter(($) => !$[enabled]);
+  },
+  then: actions([Sessioning.create, { user, client }]),
+});
+
+// a successful login clears the username's failures, but not the address's,
+// since one known password shouldn't allow guessing others from the same address;
+// with two-factor authentication, the login isn't successful until the second factor is
+export const LoginSuccessResetsFailures: Sync = (
+  { username, user, enabled, key },
+) => ({
+  when: actions([UserAuthentication.authenticate, { username }, { user }]),
+  where: async (frames) => {
+    frames = await frames.query(TwoFactor._getStatus, { user }, { enabled });
+    return frames
+      .filter(($) => !$[enabled])
+      .map(($) => ({ ...$, [key]: loginKeys($[username] as string)[0] }));
+  },
+  then: actions([Throttling.reset, { key }]),
+});
+
+export const LoginFailureRecordsFailure: Sync = (
+  { username, client, error, key },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/authenticate",
+      client,
+    }, {}],
+    [UserAuthentication.authenticate, { username }, { error }],
+  ),
+  where: (frames) =>
+    new Frames(
+      ...frames.flatMap(($) =>
+        loginKeys($[username] as string, $[client] as ClientInfo | undefined)
+          .map((k) => ({ ...$, [key]: k }))
+      ),
+    ),
+  then: actions([Throttling.recordFailure, { key }]),
 });
 
 export const LoginResponseSuccess: Sync = (
@@ -60,7 +222,7 @@ export const LoginResponseSuccess: Sync = (
     [Requesting.request, { path: "/UserAuthentication/authenticate" }, {
       request,
     }],
-    [UserAuthentication.authenticate, {}, {}],
+    [UserAuthentication.authenticate, {}, { user }],
     [Sessioning.create, { user }, { session }],
   ),
   then: actions([Requesting.respond, { request, session, user }]),
@@ -76,6 +238,127 @@ export const LoginResponseError: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+//-- Second Factor --//
+export const LoginRequiresSecondFactor: Sync = ({ user, enabled }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/authenticate" }, {}],
+    [UserAuthentication.authenticate, {}, { user }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(TwoFactor._getStatus, { user }, { enabled });
+    return frames.filter(($) => $[enabled]);
+  },
+  then: actions([TwoFactor.startChallenge, { user }]),
+});
+
+export const LoginSecondFactorResponse: Sync = (
+  { request, user, challenge, expiresAt },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/authenticate" }, {
+      request,
+    }],
+    [UserAuthentication.authenticate, {}, { user }],
+    [TwoFactor.startChallenge, { user }, { challenge, expiresAt }],
+  ),
+  then: actions([Requesting.respond, {
+    request,
+    twoFactorRequired: true,
+    challenge,
+    expiresAt,
+  }]),
+});
+
+export const VerifyTwoFactorRequest: Sync = (
+  { request, challenge, code },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/verifyTwoFactor",
+    challenge,
+    code,
+  }, { request }]),
+  then: actions([TwoFactor.verifyChallenge, { challenge, code }]),
+});
+
+export const VerifyTwoFactorCreatesSession: Sync = ({ user, client }) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/verifyTwoFactor",
+      client,
+    }, {}],
+    [TwoFactor.verifyChallenge, {}, { user }],
+  ),
+  then: actions([Sessioning.create, { user, client }]),
+});
+
+export const VerifyTwoFactorResetsFailures: Sync = (
+  { user, username, key },
+) => ({
+  when: actions([TwoFactor.verifyChallenge, {}, { user }]),
+  where: async (frames) => {
+    frames = await frames.query(UserAuthentication._getUsernameByUser, {
+      user,
+    }, { username });
+    return frames.map(($) => ({
+      ...$,
+      [key]: loginKeys($[username] as string)[0],
+    }));
+  },
+  then: actions([Throttling.reset, { key }]),
+});
+
+// wrong codes count as failed logins too, so guessing codes is slowed down
+// once each challenge runs out of attempts
+export const VerifyTwoFactorFailureRecordsFailure: Sync = (
+  { challenge, client, error, user, username, key },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/verifyTwoFactor",
+      client,
+    }, {}],
+    [TwoFactor.verifyChallenge, { challenge }, { error }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(TwoFactor._getChallengeUser, { challenge }, {
+      user,
+    });
+    frames = await frames.query(UserAuthentication._getUsernameByUser, {
+      user,
+    }, { username });
+    return new Frames(
+      ...frames.flatMap(($) =>
+        loginKeys($[username] as string, $[client] as ClientInfo | undefined)
+          .map((k) => ({ ...$, [key]: k }))
+      ),
+    );
+  },
+  then: actions([Throttling.recordFailure, { key }]),
+});
+
+export const VerifyTwoFactorResponseSuccess: Sync = (
+  { request, user, session },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/verifyTwoFactor" }, {
+      request,
+    }],
+    [TwoFactor.verifyChallenge, {}, { user }],
+    [Sessioning.create, { user }, { session }],
+  ),
+  then: actions([Requesting.respond, { request, session, user }]),
+});
+
+export const VerifyTwoFactorResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/verifyTwoFactor" }, {
+      request,
+    }],
+    [TwoFactor.verifyChallenge, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
 //-- User Logout --//
 export const LogoutRequest: Sync = ({ request, session, user }) => ({
   when: actions([Requesting.request, { path: "/logout", session }, {
@@ -92,3 +375,440 @@ export const LogoutResponse: Sync = ({ request }) => ({
   ),
   then: actions([Requesting.respond, { request, status: "logged_out" }]),
 });
+
+//-- Session Renewal --//
+export const RequestRenewsSession: Sync = ({ session }) => ({
+  when: actions([Requesting.request, { session }, {}]),
+  then: actions([Sessioning.renew, { session }]),
+});
+
+//-- Listing Sessions --//
+export const GetSessionsRequest: Sync = (
+  { request, session, user, sessionData, results },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/Sessioning/_getSessions",
+    session,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Sessioning._getSessions, { user }, {
+      sessionData,
+    });
+    // flag the session making the request, so the client can tell which device it's on
+    frames = frames.map(($) => {
+      const data = $[sessionData] as SessionInfo;
+      return {
+        ...$,
+        [sessionData]: { ...data, current: data.session === $[session] },
+      };
+    });
+    return frames.collectAs([sessionData], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+//-- Revoking a Session --//
+export const RevokeSessionRequest: Sync = (
+  { request, session, user, targetSession },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/Sessioning/revoke",
+    session,
+    targetSession,
+  }, { request }]),
+  where: (frames) => frames.query(Sessioning._getUser, { session }, { user }),
+  then: actions([Sessioning.revoke, { user, session: targetSession }]),
+});
+
+export const RevokeSessionResponse: Sync = ({ request, targetSession }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sessioning/revoke" }, { request }],
+    [Sessioning.revoke, {}, { session: targetSession }],
+  ),
+  then: actions([Requesting.respond, { request, session: targetSession }]),
+});
+
+export const RevokeSessionResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sessioning/revoke" }, { request }],
+    [Sessioning.revoke, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+//-- Logout Everywhere --//
+export const LogoutAllRequest: Sync = ({ request, session, user }) => ({
+  when: actions([Requesting.request, { path: "/logoutAll", session }, {
+    request,
+  }]),
+  where: (frames) => frames.query(Sessioning._getUser, { session }, { user }),
+  then: actions([Sessioning.deleteAll, { user }]),
+});
+
+export const LogoutAllResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, { path: "/logoutAll" }, { request }],
+    [Sessioning.deleteAll, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request, status: "logged_out" }]),
+});
+
+//-- Email Address --//
+export const SetEmailRequest: Sync = (
+  { request, session, user, email },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/setEmail",
+      session,
+      email,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [UserAuthentication.setEmail, { user, email }, {}],
+  ),
+});
+
+export const SetEmailResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/setEmail" }, { request }],
+    [UserAuthentication.setEmail, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const SetEmailResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/setEmail" }, { request }],
+    [UserAuthentication.setEmail, {}, { error }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error }],
+  ),
+});
+
+//-- Password Change --//
+export const ChangePasswordRequest: Sync = (
+  { request, session, user, currentPassword, newPassword },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/changePassword",
+      session,
+      currentPassword,
+      newPassword,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [
+      UserAuthentication.changePassword,
+      { user, currentPassword, newPassword },
+      {},
+    ],
+  ),
+});
+
+export const ChangePasswordResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changePassword" }, {
+      request,
+    }],
+    [UserAuthentication.changePassword, {}, { user }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, user }],
+  ),
+});
+
+export const ChangePasswordResponseError: Sync = (
+  { request, error, code },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changePassword" }, {
+      request,
+    }],
+    [UserAuthentication.changePassword, {}, { error, code }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error, code }],
+  ),
+});
+
+export const ChangePasswordRevokesOtherSessions: Sync = (
+  { session, user },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/changePassword",
+      session,
+    }, {}],
+    [UserAuthentication.changePassword, {}, { user }],
+  ),
+  then: actions([Sessioning.deleteOthers, { user, session }]),
+});
+
+//-- Password Reset --//
+export const RequestPasswordResetRequest: Sync = ({ request, username }) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/requestPasswordReset",
+    username,
+  }, { request }]),
+  then: actions([UserAuthentication.requestPasswordReset, { username }]),
+});
+
+export const RequestPasswordResetSendsEmail: Sync = (
+  { email, token, expiresAt, subject, body },
+) => ({
+  when: actions([
+    UserAuthentication.requestPasswordReset,
+    {},
+    { email, token, expiresAt },
+  ]),
+  where: (frames) =>
+    frames.map(($) => ({
+      ...$,
+      [subject]: "Reset your Away password",
+      [body]:
+        `Someone asked to reset the password for your Away account. If it was you, use this code to choose a new password:\n\n${
+          $[token]
+        }\n\nThe code can be used once, and expires at ${
+          ($[expiresAt] as Date).toUTCString()
+        }. If it wasn't you, you can ignore this email.`,
+    })),
+  then: actions([Outbox.send, { to: email, subject, body }]),
+});
+
+// respond the same way whether or not the reset was requested,
+// so the response doesn't reveal which usernames exist
+export const RequestPasswordResetResponse: Sync = ({ request }) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/requestPasswordReset",
+    }, { request }],
+    [UserAuthentication.requestPasswordReset, {}, {}],
+  ),
+  then: actions([Requesting.respond, { request, status: "reset_requested" }]),
+});
+
+export const ResetPasswordRequest: Sync = (
+  { request, token, newPassword },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/resetPassword",
+    token,
+    newPassword,
+  }, { request }]),
+  then: actions([UserAuthentication.resetPassword, { token, newPassword }]),
+});
+
+export const ResetPasswordResponse: Sync = ({ request, user }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/resetPassword" }, {
+      request,
+    }],
+    [UserAuthentication.resetPassword, {}, { user }],
+  ),
+  then: actions([Requesting.respond, { request, user }]),
+});
+
+export const ResetPasswordResponseError: Sync = ({ request, error, code }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/resetPassword" }, {
+      request,
+    }],
+    [UserAuthentication.resetPassword, {}, { error, code }],
+  ),
+  then: actions([Requesting.respond, { request, error, code }]),
+});
+
+export const ResetPasswordRevokesSessions: Sync = ({ user }) => ({
+  when: actions([UserAuthentication.resetPassword, {}, { user }]),
+  then: actions([Sessioning.deleteAll, { user }]),
+});
+
+//-- Username Change --//
+export const ChangeUsernameRequest: Sync = (
+  { request, session, user, username },
+) => ({
+  when: actions(
+    [Requesting.request, {
+      path: "/UserAuthentication/changeUsername",
+      session,
+      username,
+    }, {
+      request,
+    }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    return frames;
+  },
+  then: actions(
+    [UserAuthentication.changeUsername, { user, username }, {}],
+  ),
+});
+
+export const ChangeUsernameResponse: Sync = ({ request, username }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changeUsername" }, {
+      request,
+    }],
+    [UserAuthentication.changeUsername, {}, { username }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, username }],
+  ),
+});
+
+export const ChangeUsernameResponseError: Sync = (
+  { request, error, code },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/changeUsername" }, {
+      request,
+    }],
+    [UserAuthentication.changeUsername, {}, { error, code }],
+  ),
+  then: actions(
+    [Requesting.respond, { request, error, code }],
+  ),
+});
+
+export const ChangeUsernameSendsNotice: Sync = (
+  { user, oldUsername, username, email, subject, body },
+) => ({
+  when: actions([UserAuthentication.changeUsername, {}, {
+    user,
+    oldUsername,
+    username,
+  }]),
+  where: async (frames) => {
+    frames = await frames.query(UserAuthentication._getEmail, { user }, {
+      email,
+    });
+    return frames.map(($) => ({
+      ...$,
+      [subject]: "Your Away username was changed",
+      [body]: `Your Away username was changed from ${$[oldUsername]} to ${
+        $[username]
+      }. Friends can still find you by your old username for a while. If you didn't make this change, reset your password.`,
+    }));
+  },
+  then: actions([Outbox.send, { to: email, subject, body }]),
+});
+
+export const GetUsernameHistoryRequest: Sync = (
+  { request, session, user, username, changedAt, releasedAt, results },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/_getUsernameHistory",
+    session,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+    frames = await frames.query(UserAuthentication._getUsernameHistory, {
+      user,
+    }, { username, changedAt, releasedAt });
+    if (frames.length === 0) {
+      return userFrames.map(($) => ({ ...$, [results]: [] }));
+    }
+    return frames.collectAs([username, changedAt, releasedAt], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
+//-- Login Lockout --//
+// resetting a password proves the user owns the account, so it also lifts the username's lockout
+export const ResetPasswordUnlocksLogin: Sync = (
+  { user, username, key },
+) => ({
+  when: actions([UserAuthentication.resetPassword, {}, { user }]),
+  where: async (frames) => {
+    frames = await frames.query(UserAuthentication._getUsernameByUser, {
+      user,
+    }, { username });
+    return frames.map(($) => ({
+      ...$,
+      [key]: loginKeys($[username] as string)[0],
+    }));
+  },
+  then: actions([Throttling.reset, { key }]),
+});
+
+// the username can be registered again once the account is deleted, so its failures are forgotten
+export const DeleteAccountResetsFailures: Sync = ({ username, key }) => ({
+  when: actions([UserAuthentication.deleteAccount, {}, { username }]),
+  where: (frames) =>
+    frames.map(($) => ({
+      ...$,
+      [key]: loginKeys($[username] as string)[0],
+    })),
+  then: actions([Throttling.reset, { key }]),
+});
+
+export const GetLockoutStatusRequest: Sync = (
+  { request, username, client, lockedUntil, locked },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/_getLockoutStatus",
+    username,
+    client,
+  }, { request }]),
+  where: async (frames) => {
+    frames = await withLoginLockedUntil(frames, {
+      username,
+      client,
+      lockedUntil,
+    });
+    return frames.map(($) => ({ ...$, [locked]: $[lockedUntil] !== null }));
+  },
+  then: actions([Requesting.respond, { request, locked, lockedUntil }]),
+});
+
+export const UnlockLoginRequest: Sync = (
+  { request, adminToken, username, key },
+) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/unlock",
+    adminToken,
+    username,
+  }, { request }]),
+  where: (frames) =>
+    frames
+      .filter(($) => isAdmin($[adminToken]))
+      .map(($) => ({ ...$, [key]: loginKeys($[username] as string)[0] })),
+  then: actions([Throttling.reset, { key }]),
+});
+
+export const UnlockLoginNotAdmin: Sync = ({ request, adminToken }) => ({
+  when: actions([Requesting.request, {
+    path: "/UserAuthentication/unlock",
+    adminToken,
+  }, { request }]),
+  where: (frames) => frames.filter(($) => !isAdmin($[adminToken])),
+  then: actions([Requesting.respond, { request, error: "Not authorized." }]),
+});
+
+export const UnlockLoginResponse: Sync = ({ request, key }) => ({
+  when: actions(
+    [Requesting.request, { path: "/UserAuthentication/unlock" }, { request }],
+    [Throttling.reset, {}, { key }],
+  ),
+  then: actions([Requesting.respond, { request, status: "unlocked" }]),
+});
@@ -0,0 +1,87 @@
+import { Frames } from "@engine";
+import { Circles, Friending, Requesting, Sessioning } from "@concepts";
+import { PostDoc, Visibility } from "@concepts/Posting/PostingConcept.ts";
+import { ID } from "@utils/types.ts";
+
+/**
+ * Binds each frame's user to the user of the request's session, or to null if
+ * the request has no session, for requests that anonymous viewers may also make.
+ */
+export async function viewerOf(
+  frames: Frames,
+  { request, input, session, user }: {
+    request: symbol;
+    input: symbol;
+    session: symbol;
+    user: symbol;
+  },
+): Promise<Frames> {
+  frames = await frames.query(Requesting._getInput, { request }, { input });
+  frames = frames.map(($) => ({
+    ...$,
+    [session]: ($[input] as { session?: ID }).session ?? null,
+  }));
+  const anonymous = frames
+    .filter(($) => $[session] === null)
+    .map(($) => ({ ...$, [user]: null }));
+  const signedIn = await frames
+    .filter(($) => $[session] !== null)
+    .query(Sessioning._getUser, { session }, { user });
+  return new Frames(...anonymous, ...signedIn);
+}
+
+/**
+ * Visibilities of another user's posts that a viewer may see,
+ * depending on whether the viewer is friends with the post's creator.
+ */
+export function visibleTo(isFriend: boolean): Visibility[] {
+  return isFriend ? ["friends", "public"] : ["public"];
+}
+
+/**
+ * Determines, for each frame, whether the user may view the post: either they
+ * created it, or its visibility allows them to see it and, unless it's public,
+ * its creator shared it with them (with all friends, or a circle they're in).
+ * A null user is an anonymous viewer, who may only see public posts.
+ */
+export async function canViewPost(
+  frames: Frames,
+  { user, postData, creator, friendshipBoolean, canView }: {
+    user: symbol;
+    postData: symbol;
+    creator: symbol;
+    friendshipBoolean: symbol;
+    canView: symbol;
+  },
+): Promise<Frames> {
+  frames = frames.map(($) => ({
+    ...$,
+    [creator]: ($[postData] as PostDoc).creator,
+  }));
+  const anonymous = frames
+    .filter(($) => $[user] === null)
+    .map(($) => ({ ...$, [friendshipBoolean]: false }));
+  const signedIn = await frames
+    .filter(($) => $[user] !== null)
+    .query(Friending._isFriendsWith, {
+      user,
+      friend: creator,
+    }, { friendshipExists: friendshipBoolean });
+  frames = new Frames(...anonymous, ...signedIn);
+  return new Frames(
+    ...await Promise.all(frames.map(async ($) => {
+      const { _id, creator: postCreator, visibility } = $[postData] as PostDoc;
+      const [{ shared }] = await Circles._isSharedWith({
+        item: _id,
+        viewer: $[user] as ID,
+      });
+      return {
+        ...$,
+        [canView]: postCreator === $[user] ||
+          (visibleTo($[friendshipBoolean] === true).includes(
+            visibility ?? "friends",
+          ) && (visibility === "public" || shared)),
+      };
+    })),
+  );
+}
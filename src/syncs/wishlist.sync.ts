@@ -1,21 +1,27 @@
 import { actions, Frames, Sync } from "@engine";
 import {
+  Circles,
   Friending,
+  Gazetteer,
+  Posting,
   Requesting,
   Sessioning,
   UserAuthentication,
   Wishlist,
 } from "@concepts";
+import { PlaceDoc } from "@concepts/Wishlist/WishlistConcept.ts";
 
 export const AddWishlistPlaceRequest: Sync = (
   {
     request,
     session,
     user,
-    title,
     city,
     region,
     country,
+    canonicalCity,
+    canonicalRegion,
+    canonicalCountry,
   },
 ) => ({
   when: actions([
@@ -31,13 +37,21 @@ export const AddWishlistPlaceRequest: Sync = (
   ]),
   where: async (frames) => {
     frames = await frames.query(Sessioning._getUser, { session }, { user });
-    return frames;
+    return await frames.query(Gazetteer._canonicalize, {
+      city,
+      region,
+      country,
+    }, {
+      city: canonicalCity,
+      region: canonicalRegion,
+      country: canonicalCountry,
+    });
   },
   then: actions([Wishlist.addPlace, {
     user,
-    city,
-    region,
-    country,
+    city: canonicalCity,
+    region: canonicalRegion,
+    country: canonicalCountry,
   }]),
 });
 
@@ -49,6 +63,14 @@ export const AddWishlistPlaceResponse: Sync = ({ request, place }) => ({
   then: actions([Requesting.respond, { request, place }]),
 });
 
+export const AddWishlistPlaceResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Wishlist/addPlace" }, { request }],
+    [Wishlist.addPlace, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
 export const RemoveWishlistPlaceRequest: Sync = (
   {
     request,
@@ -92,6 +114,192 @@ export const RemoveWishlistPlaceResponseError: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }]),
 });
 
+export const VisitWishlistPlaceRequest: Sync = (
+  {
+    request,
+    session,
+    user,
+    place,
+    placeData,
+    title,
+    city,
+    region,
+    country,
+    start,
+    end,
+    description,
+  },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Wishlist/visit", session, place, start, end },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Wishlist._getPlaceById, { _id: place }, {
+      placeData,
+    });
+
+    // only the user's own unvisited places can be visited;
+    // the new post is prefilled from the place
+    return frames
+      .filter(($) => {
+        const placeDoc = $[placeData] as PlaceDoc;
+        return placeDoc.user === $[user] && !placeDoc.visitedPost;
+      })
+      .map(($) => {
+        const placeDoc = $[placeData] as PlaceDoc;
+        return {
+          ...$,
+          [title]: `Trip to ${placeDoc.city}`,
+          [city]: placeDoc.city,
+          [region]: placeDoc.region,
+          [country]: placeDoc.country,
+          [description]: "",
+        };
+      });
+  },
+  then: actions([Posting.create, {
+    creator: user,
+    title,
+    city,
+    region,
+    country,
+    start,
+    end,
+    description,
+  }]),
+});
+
+export const VisitWishlistPlaceNotAllowed: Sync = (
+  { request, session, user, place, placeData },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Wishlist/visit", session, place },
+    { request },
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    const userFrames = frames;
+
+    frames = await frames.query(Wishlist._getPlaceById, { _id: place }, {
+      placeData,
+    });
+    if (frames.length === 0) {
+      return userFrames;
+    }
+
+    return frames.filter(($) => {
+      const placeDoc = $[placeData] as PlaceDoc;
+      return placeDoc.user !== $[user] || !!placeDoc.visitedPost;
+    });
+  },
+  then: actions([
+    Requesting.respond,
+    {
+      request,
+      error: "Place not in user's wishlist or already visited.",
+    },
+  ]),
+});
+
+// archive is optional, and the place stays on the wishlist unless it's true
+export const VisitCreatesPostMarksVisited: Sync = (
+  { request, user, place, archive, post, input },
+) => ({
+  when: actions(
+    [Requesting.request, { path: "/Wishlist/visit", place }, { request }],
+    [Posting.create, { creator: user }, { post }],
+  ),
+  where: async (frames) => {
+    frames = await frames.query(Requesting._getInput, { request }, { input });
+    return frames.map(($) => ({
+      ...$,
+      [archive]: ($[input] as { archive?: boolean }).archive ?? false,
+    }));
+  },
+  then: actions([Wishlist.markVisited, { user, place, post, archive }]),
+});
+
+export const VisitWishlistPlaceResponse: Sync = ({ request, post, place }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Wishlist/visit" }, { request }],
+    [Posting.create, {}, { post }],
+    [Wishlist.markVisited, {}, { place }],
+  ),
+  then: actions([Requesting.respond, { request, post, place }]),
+});
+
+export const VisitWishlistPlaceCreateError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Wishlist/visit" }, { request }],
+    [Posting.create, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+export const VisitWishlistPlaceResponseError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Wishlist/visit" }, { request }],
+    [Wishlist.markVisited, {}, { error }],
+  ),
+  then: actions([Requesting.respond, { request, error }]),
+});
+
+// A deleted post can no longer record a visit, so the place returns to the wishlist
+export const DeletePostUnmarksVisited: Sync = (
+  { user, post, place, placeUser, postData },
+) => ({
+  when: actions([Posting.delete, { user, post }, {}]),
+  where: async (frames) => {
+    // only react once the post is actually gone
+    const remaining = await frames.query(Posting._getPostById, { _id: post }, {
+      postData,
+    });
+    if (remaining.length > 0) {
+      return new Frames();
+    }
+
+    frames = await frames.query(Wishlist._getPlacesVisitedOn, { post }, {
+      place,
+      user: placeUser,
+    });
+    return frames.filter(($) => $[placeUser] === $[user]);
+  },
+  then: actions([Wishlist.unmarkVisited, { user, place }]),
+});
+
+export const GetArchivedPlacesRequest: Sync = (
+  { request, session, user, place, placeData, results },
+) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Wishlist/_getArchivedPlaces", session },
+    { request },
+  ]),
+  where: async (frames) => {
+    const originalFrame = frames[0];
+
+    frames = await frames.query(Sessioning._getUser, { session }, { user });
+    frames = await frames.query(Wishlist._getArchivedPlaces, { user }, {
+      place,
+    });
+
+    if (frames.length === 0) {
+      return new Frames({ ...originalFrame, [results]: [] });
+    }
+
+    frames = await frames.query(Wishlist._getPlaceById, { _id: place }, {
+      placeData,
+    });
+
+    return frames.collectAs([place, placeData], results);
+  },
+  then: actions([Requesting.respond, { request, results }]),
+});
+
 export const GetPlacesRequest: Sync = (
   { request, session, user, place, placeData, results },
 ) => ({
@@ -129,6 +337,7 @@ export const GetFriendWishlistRequest: Sync = (
     friendUsername,
     friendUserId,
     friendshipBoolean,
+    shared,
     place,
     placeData,
     results,
@@ -152,11 +361,19 @@ export const GetFriendWishlistRequest: Sync = (
     }, { user: friendUserId });
     frames = await frames.query(
       Friending._isFriendsWith,
-      { user, username: friendUserId },
+      { user, friend: friendUserId },
       {
         friendshipExists: friendshipBoolean,
       },
     );
+    frames = frames.filter(($) => $[friendshipBoolean] === true);
+
+    // the wishlist may be shared with only some of the friend's circles
+    frames = await frames.query(Circles._isSharedWith, {
+      item: friendUserId,
+      viewer: user,
+    }, { shared });
+    frames = frames.filter(($) => $[shared] === true);
 
     if (frames.length === 0) {
       return new Frames({ ...originalFrame, [results]: [] });
@@ -2,7 +2,7 @@
 import "jsr:@std/dotenv/load";
 import { Db, MongoClient } from "npm:mongodb";
 import { ID } from "@utils/types.ts";
-import { generate } from "jsr:@std/uuid/unstable-v7";
+import { generate, validate } from "jsr:@std/uuid/unstable-v7";
 
 async function initMongoClient() {
   const DB_CONN = Deno.env.get("MONGODB_URL");
@@ -70,3 +70,14 @@ export async function testDb() {
 export function freshID() {
   return generate() as ID;
 }
+
+/**
+ * Retrieves the date an ID was created, from the timestamp a UUID v7 starts with.
+ * @returns {Date} the date the ID was created, or the epoch for IDs that aren't UUID v7.
+ */
+export function dateOfID(id: ID): Date {
+  if (!validate(id)) {
+    return new Date(0);
+  }
+  return new Date(parseInt(id.replaceAll("-", "").slice(0, 12), 16));
+}